@@ -0,0 +1,197 @@
+/**
+ * Color Vision Reference Check
+ * Runs cvdTransform on a few sRGB colors and compares the results with the published models:
+ * Machado 2009 outputs from the authors' severity tables, Viénot 1999 rebuilt from its LMS
+ * model, and the projection geometry of Brettel 1997. Exits non-zero on any mismatch.
+ *
+ *   npm run check:color-vision
+ */
+
+import { cvdTransform, CVD_MODELS, type Deficiency } from '../src/utils/colorVision';
+import type { LinearRgbTransform } from '../src/workers/protocol';
+
+type Vector = [number, number, number];
+type Dichromacy = Exclude<Deficiency, 'achromat'>;
+
+const COLORS = ['#d62728', '#2ca02c', '#1f77b4', '#ff7f0e'];
+const DICHROMACIES: Dichromacy[] = ['protan', 'deutan', 'tritan'];
+
+/**
+ * Expected sRGB output (0–255, before 8-bit rounding) for COLORS, computed from the matrices on
+ * the authors' page (https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html)
+ * applied in linear RGB as libDaltonLens does. 0.35 falls between the published 0.3 and 0.4
+ * tables, which libDaltonLens interpolates linearly.
+ */
+const MACHADO_REFERENCE: { deficiency: Dichromacy; severity: number; expected: Vector[] }[] = [
+    { deficiency: 'protan', severity: 0.35, expected: [[169.91, 74.71, 35.05], [122.31, 151.5, 40.79], [66.61, 118.87, 181], [217.17, 140.04, 0]] },
+    { deficiency: 'protan', severity: 0.5, expected: [[153.07, 80.31, 34.45], [136.19, 149.19, 38.36], [74.18, 119.21, 181.39], [203.68, 142.52, 0]] },
+    { deficiency: 'protan', severity: 1, expected: [[96.95, 86.89, 37.27], [163.49, 144.68, 24.6], [90.22, 121.21, 182.6], [164.71, 144.69, 0]] },
+    { deficiency: 'deutan', severity: 0.35, expected: [[176.67, 93.95, 33.45], [118.32, 147.99, 50.09], [57.79, 114.1, 179.67], [223.55, 152.58, 0.35]] },
+    { deficiency: 'deutan', severity: 0.5, expected: [[165.18, 104.14, 31.96], [130.08, 144.33, 51.8], [62.38, 112.44, 179.5], [214.47, 159.22, 0]] },
+    { deficiency: 'deutan', severity: 1, expected: [[139.36, 124.41, 30.7], [150.24, 135.61, 55.74], [69.14, 107.86, 178.85], [195.52, 173.95, 5.1]] },
+    { deficiency: 'tritan', severity: 0.35, expected: [[207.12, 51.54, 47.48], [69.65, 156.17, 80.4], [34.62, 120.81, 170.48], [249.29, 129.43, 64.49]] },
+    { deficiency: 'tritan', severity: 0.5, expected: [[215.58, 34.44, 43.96], [51.73, 157.17, 91.72], [0, 123.12, 166.91], [255, 122.84, 70.68]] },
+    { deficiency: 'tritan', severity: 1, expected: [[236.02, 0, 42.51], [0.46, 155.25, 137.16], [0, 133.9, 140.99], [255, 97.09, 108.96]] }
+];
+
+/** Linear RGB to LMS, Viénot, Brettel & Mollon 1999 eq. 4 (Smith & Pokorny fundamentals) */
+const VIENOT_LMS = [17.8824, 43.5161, 4.11935, 3.45565, 27.1554, 3.86714, 0.0299566, 0.184309, 1.46709];
+
+/** The cone each dichromacy lacks, as a row of the LMS matrix */
+const MISSING_CONE: Record<Dichromacy, number> = { protan: 0, deutan: 1, tritan: 2 };
+
+// Tolerances: 8-bit units for outputs, absolute for the 5- and 6-decimal tables
+const OUTPUT_TOLERANCE = 0.05;
+const TABLE_TOLERANCE = 2e-5;
+// The Brettel tables use libDaltonLens's sRGB cone fundamentals rather than Viénot's
+const CONFUSION_AXIS_TOLERANCE = 0.02;
+
+const failures: string[] = [];
+
+function expect(label: string, ok: boolean, detail: string) {
+    if (!ok) failures.push(`${label}: ${detail}`);
+}
+
+function hexToLinear(hex: string): Vector {
+    return [1, 3, 5].map(i => {
+        const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    }) as Vector;
+}
+
+function linearToSrgb(rgb: Vector): Vector {
+    return rgb.map(v => {
+        const c = Math.min(1, Math.max(0, v));
+        return 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+    }) as Vector;
+}
+
+function apply(m: number[], v: Vector): Vector {
+    return [0, 1, 2].map(r => m[r * 3] * v[0] + m[r * 3 + 1] * v[1] + m[r * 3 + 2] * v[2]) as Vector;
+}
+
+function invert(m: number[]): number[] {
+    const [a, b, c, d, e, f, g, h, i] = m;
+    const cofactors = [e * i - f * h, c * h - b * i, b * f - c * e, f * g - d * i, a * i - c * g, c * d - a * f, d * h - e * g, b * g - a * h, a * e - b * d];
+    const det = a * cofactors[0] + b * cofactors[3] + c * cofactors[6];
+    return cofactors.map(v => v / det);
+}
+
+const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vector, b: Vector): Vector => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const mix = (a: Vector, b: Vector, t: number): Vector => [0, 1, 2].map(i => a[i] + (b[i] - a[i]) * t) as Vector;
+const normalize = (v: Vector): Vector => v.map(x => x / Math.hypot(...v)) as Vector;
+const maxDifference = (a: number[], b: number[]) => Math.max(...a.map((v, i) => Math.abs(v - b[i])));
+const format = (v: number[]) => `[${v.map(x => x.toFixed(4)).join(', ')}]`;
+
+/** What the worker does per pixel, without the 8-bit rounding */
+function simulateLinear(transform: LinearRgbTransform, rgb: Vector): Vector {
+    const [first, second] = transform.matrices;
+    return apply(dot(transform.separation, rgb) >= 0 ? first : second, rgb);
+}
+
+// Machado 2009: outputs against the published tables, and every table preserving white as the
+// authors normalized them, so a mistyped entry in any row shows up
+for (const { deficiency, severity, expected } of MACHADO_REFERENCE) {
+    const transform = cvdTransform(deficiency, 'machado', severity);
+    COLORS.forEach((color, i) => {
+        const actual = linearToSrgb(simulateLinear(transform, hexToLinear(color)));
+        expect(`machado ${deficiency} ${severity} ${color}`, maxDifference(actual, expected[i]) <= OUTPUT_TOLERANCE,
+            `got ${format(actual)}, expected ${format(expected[i])}`);
+    });
+}
+for (const deficiency of DICHROMACIES) {
+    for (let step = 0; step <= 10; step++) {
+        const white = simulateLinear(cvdTransform(deficiency, 'machado', step / 10), [1, 1, 1]);
+        expect(`machado ${deficiency} ${step / 10} white`, maxDifference(white, [1, 1, 1]) <= TABLE_TOLERANCE, `got ${format(white)}`);
+    }
+}
+
+// Viénot 1999: protan/deutan project along the missing cone axis onto the plane through black,
+// white and blue (and so yellow), in the paper's LMS space; partial severity blends with the
+// original in linear RGB as libDaltonLens does
+const rgbFromLms = invert(VIENOT_LMS);
+for (const deficiency of ['protan', 'deutan'] as const) {
+    const missing = MISSING_CONE[deficiency];
+    const normal = cross(apply(VIENOT_LMS, [1, 1, 1]), apply(VIENOT_LMS, [0, 0, 1]));
+    const reference = (rgb: Vector): Vector => {
+        const lms = apply(VIENOT_LMS, rgb);
+        lms[missing] = -(dot(normal, lms) - normal[missing] * lms[missing]) / normal[missing];
+        return apply(rgbFromLms, lms);
+    };
+
+    // Compared in linear RGB, where the 5-decimal table is exact enough to catch a mistyped digit
+    for (const severity of [0.5, 1]) {
+        const transform = cvdTransform(deficiency, 'vienot', severity);
+        for (const color of [...COLORS, '#ffffff']) {
+            const rgb = hexToLinear(color);
+            const actual = simulateLinear(transform, rgb);
+            const expected = mix(rgb, reference(rgb), severity);
+            expect(`vienot ${deficiency} ${severity} ${color}`, maxDifference(actual, expected) <= TABLE_TOLERANCE,
+                `got ${format(actual)}, expected ${format(expected)}`);
+        }
+    }
+}
+
+// Brettel 1997: each half-plane is a projection along the missing cone axis that keeps white, so
+// both matrices are the identity plus one rank-1 term along a shared confusion axis, and the plane
+// between them holds white and that axis. Viénot's tritan falls back to the same tables.
+for (const deficiency of DICHROMACIES) {
+    for (const model of ['brettel', 'vienot'] as const) {
+        if (model === 'vienot' && deficiency !== 'tritan') continue;
+        const label = `${model} ${deficiency}`;
+        const transform = cvdTransform(deficiency, model, 1);
+        const changes = transform.matrices.map(matrix => [0, 1, 2].map(column =>
+            [0, 1, 2].map(row => matrix[row * 3 + column] - (row === column ? 1 : 0)) as Vector));
+        const axis = normalize(changes[0].reduce((a, b) => Math.hypot(...b) > Math.hypot(...a) ? b : a));
+        const coneAxis = normalize([0, 1, 2].map(r => rgbFromLms[r * 3 + MISSING_CONE[deficiency]]) as Vector);
+
+        expect(`${label} confusion axis`, Math.hypot(...cross(axis, coneAxis)) <= CONFUSION_AXIS_TOLERANCE,
+            `${format(axis)} is not the missing cone axis ${format(coneAxis)}`);
+        transform.matrices.forEach((matrix, half) => {
+            const white = apply(matrix, [1, 1, 1]);
+            expect(`${label} half ${half} white`, maxDifference(white, [1, 1, 1]) <= TABLE_TOLERANCE, `got ${format(white)}`);
+            changes[half].forEach((change, column) => {
+                expect(`${label} half ${half} column ${column}`, Math.hypot(...cross(change, axis)) <= TABLE_TOLERANCE * 5,
+                    `${format(change)} is off the confusion axis ${format(axis)}`);
+            });
+        });
+
+        const { separation } = transform;
+        expect(`${label} separation`, Math.abs(dot(separation, [1, 1, 1])) <= TABLE_TOLERANCE, `${format(separation)} does not hold white`);
+        expect(`${label} separation`, Math.abs(dot(separation, axis)) <= TABLE_TOLERANCE, `${format(separation)} does not hold the confusion axis`);
+
+        // Outputs move colors along the confusion axis onto a half-plane, where they stay
+        const half = cvdTransform(deficiency, model, 0.5);
+        for (const color of COLORS) {
+            const rgb = hexToLinear(color);
+            const simulated = simulateLinear(transform, rgb);
+            const moved = subtract(simulated, rgb);
+            const again = simulateLinear(transform, simulated);
+            const partial = simulateLinear(half, rgb);
+            expect(`${label} ${color}`, Math.hypot(...cross(moved, axis)) <= TABLE_TOLERANCE * 5, `moved by ${format(moved)}, off the confusion axis`);
+            expect(`${label} ${color}`, maxDifference(again, simulated) <= TABLE_TOLERANCE * 5, `${format(simulated)} moves again to ${format(again)}`);
+            expect(`${label} 0.5 ${color}`, maxDifference(partial, mix(rgb, simulated, 0.5)) <= TABLE_TOLERANCE, `got ${format(partial)}`);
+        }
+    }
+}
+
+// Achromatopsia: Rec. 709 luminance grey for every model
+for (const { id } of CVD_MODELS) {
+    for (const color of COLORS) {
+        const rgb = hexToLinear(color);
+        const luminance = dot([0.2126, 0.7152, 0.0722], rgb);
+        for (const severity of [0.5, 1]) {
+            const actual = simulateLinear(cvdTransform('achromat', id, severity), rgb);
+            const expected = mix(rgb, [luminance, luminance, luminance], severity);
+            expect(`${id} achromat ${severity} ${color}`, maxDifference(actual, expected) <= TABLE_TOLERANCE, `got ${format(actual)}, expected ${format(expected)}`);
+        }
+    }
+}
+
+if (failures.length) {
+    failures.forEach(failure => console.error(failure));
+    console.error(`${failures.length} color vision check(s) failed`);
+    process.exitCode = 1;
+}
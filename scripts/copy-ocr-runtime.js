@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const root = path.resolve(__dirname, '..');
+const modules = path.join(root, 'node_modules');
+const outDir = path.join(root, 'public', 'ocr');
+
+function copy(from, to) {
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.copyFileSync(from, to);
+}
+
+// Worker script and every wasm core build, so Tesseract.js can pick the one the browser supports.
+// Both come from node_modules, so this needs no network and fails loudly if they are missing.
+copy(path.join(modules, 'tesseract.js', 'dist', 'worker.min.js'), path.join(outDir, 'worker.min.js'));
+const coreDir = path.join(modules, 'tesseract.js-core');
+fs.readdirSync(coreDir)
+    .filter(file => file.endsWith('.wasm.js'))
+    .forEach(file => copy(path.join(coreDir, file), path.join(outDir, 'core', file)));
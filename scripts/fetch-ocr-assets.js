@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const root = path.resolve(__dirname, '..');
+const tessdata = path.join(root, 'public', 'ocr', 'tessdata');
+
+// The same list the app offers
+const languages = JSON.parse(fs.readFileSync(path.join(root, 'src', 'utils', 'ocrLanguages.json'), 'utf8'));
+
+const packSource = code => code === 'osd'
+    ? 'https://cdn.jsdelivr.net/npm/@tesseract.js-data/osd/4.0.0/osd.traineddata.gz'
+    : `https://cdn.jsdelivr.net/npm/@tesseract.js-data/${code}/4.0.0_best_int/${code}.traineddata.gz`;
+
+fs.mkdirSync(tessdata, { recursive: true });
+
+// Packs already downloaded are kept; a pack that fails fails the run, so a deploy never ships
+// without the packs the app offers
+for (const code of [...languages.map(language => language.code), 'osd']) {
+    const target = path.join(tessdata, `${code}.traineddata.gz`);
+    if (fs.existsSync(target)) continue;
+    try {
+        const response = await fetch(packSource(code));
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+    } catch (e) {
+        console.error(`Error downloading language pack ${code}:`, e.message);
+        process.exitCode = 1;
+    }
+}
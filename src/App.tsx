@@ -17,13 +17,15 @@ import ImageToPdf from './tools/ImageToPdf'
 import InstagramGridSplitter from './tools/InstagramGridSplitter'
 import OcrExtractor from './tools/OcrExtractor'
 import PdfToImage from './tools/PdfToImage'
+import PipelineBuilder from './tools/PipelineBuilder'
 import SocialMediaResizer from './tools/SocialMediaResizer'
 import ThumbnailMaker from './tools/ThumbnailMaker'
 import WatermarkAdder from './tools/WatermarkAdder'
 import WatermarkRemover from './tools/WatermarkRemover'
 import ToolSuggestionsBar from './ToolSuggestionsBar'
+import { outputToFile, type ToolOutput } from './utils/toolHandoff'
 
-type Tool = 'home' | 'compressor' | 'resizer' | 'background-remover' | 'exif-cleaner' | 'color-palette' | 'instagram-grid' | 'favicon' | 'ocr' | 'device-mockup' | 'color-blindness' | 'ascii-art' | 'image-comparison' | 'duplicate-finder' | 'image-to-pdf' | 'pdf-to-image' | 'cropper' | 'rotator' | 'watermark' | 'watermark-remover' | 'thumbnail'
+type Tool = 'home' | 'compressor' | 'resizer' | 'background-remover' | 'exif-cleaner' | 'color-palette' | 'instagram-grid' | 'favicon' | 'ocr' | 'device-mockup' | 'color-blindness' | 'ascii-art' | 'image-comparison' | 'duplicate-finder' | 'image-to-pdf' | 'pdf-to-image' | 'cropper' | 'rotator' | 'watermark' | 'watermark-remover' | 'thumbnail' | 'pipeline'
 
 // SEO title/description per tool
 const TOOL_SEO: Record<string, { title: string; desc: string }> = {
@@ -32,15 +34,15 @@ const TOOL_SEO: Record<string, { title: string; desc: string }> = {
     'resizer': { title: 'Social Media Resizer — ImageKit Pro', desc: 'Resize images for Instagram, YouTube, LinkedIn & more.' },
     'background-remover': { title: 'Background Remover — ImageKit Pro', desc: 'AI-powered background removal. Works right in your browser.' },
     'exif-cleaner': { title: 'EXIF Privacy Cleaner — ImageKit Pro', desc: 'Remove GPS, camera info & metadata from your images.' },
-    'color-palette': { title: 'Color Palette Extractor — ImageKit Pro', desc: 'Extract colors with HEX, RGB & CSS gradients.' },
+    'color-palette': { title: 'Color Palette Extractor — ImageKit Pro', desc: 'Extract color palettes, export design swatches and check WCAG/APCA contrast.' },
     'instagram-grid': { title: 'Instagram Grid Splitter — ImageKit Pro', desc: 'Split images into 3×3, 3×2, 3×1 grids for carousel.' },
     'favicon': { title: 'Favicon Generator — ImageKit Pro', desc: 'Generate all favicon sizes + manifest.json + HTML snippet.' },
-    'ocr': { title: 'OCR Text Extractor — ImageKit Pro', desc: 'Extract text from images in 12 languages.' },
+    'ocr': { title: 'OCR Text Extractor — ImageKit Pro', desc: 'Extract text from images and multi-page PDFs in 12 languages or make searchable PDFs.' },
     'device-mockup': { title: 'Device Mockup Generator — ImageKit Pro', desc: 'iPhone, MacBook, iPad device frame mockups.' },
-    'color-blindness': { title: 'Color Blindness Simulator — ImageKit Pro', desc: 'See how designs appear to color blind users.' },
+    'color-blindness': { title: 'Color Blindness Simulator — ImageKit Pro', desc: 'See and correct how designs appear to color blind users.' },
     'ascii-art': { title: 'ASCII Art Generator — ImageKit Pro', desc: 'Convert images to ASCII text art.' },
     'image-comparison': { title: 'Image Comparison Slider — ImageKit Pro', desc: 'Side-by-side image comparison with slider.' },
-    'duplicate-finder': { title: 'Duplicate Image Finder — ImageKit Pro', desc: 'Find similar images using perceptual hashing.' },
+    'duplicate-finder': { title: 'Duplicate Image Finder — ImageKit Pro', desc: 'Find similar images with pHash, dHash or exact SHA-256.' },
     'image-to-pdf': { title: 'Image to PDF — ImageKit Pro', desc: 'Convert multiple images into a single PDF.' },
     'pdf-to-image': { title: 'PDF to Image — ImageKit Pro', desc: 'Convert PDF pages to PNG images.' },
     'cropper': { title: 'Image Cropper — ImageKit Pro', desc: 'Crop images with preset aspect ratios.' },
@@ -48,6 +50,7 @@ const TOOL_SEO: Record<string, { title: string; desc: string }> = {
     'watermark': { title: 'Watermark Adder — ImageKit Pro', desc: 'Add text watermarks with custom position & style.' },
     'watermark-remover': { title: 'Watermark Remover — ImageKit Pro', desc: 'Remove watermarks using inpaint, blur, or pixelate.' },
     'thumbnail': { title: 'Thumbnail Maker — ImageKit Pro', desc: 'Create thumbnails with images, text & emojis.' },
+    'pipeline': { title: 'Pipeline Builder — ImageKit Pro', desc: 'Chain crop, resize, watermark & compress into reusable recipes.' },
 }
 
 // All tool definitions for the homepage grid
@@ -55,6 +58,7 @@ const ALL_TOOLS: { id: Tool; icon: string; iconClass: string; title: string; des
     { id: 'compressor', icon: '📦', iconClass: 'compress', title: 'Image Compressor', description: 'Reduce file size while maintaining quality.', category: 'core' },
     { id: 'resizer', icon: '📱', iconClass: 'resize', title: 'Social Media Resizer', description: 'Resize for Instagram, YouTube, LinkedIn & more.', category: 'core' },
     { id: 'background-remover', icon: '🎭', iconClass: 'remove-bg', title: 'Background Remover', description: 'AI-powered background removal.', category: 'core' },
+    { id: 'pipeline', icon: '⛓️', iconClass: 'pipeline', title: 'Pipeline Builder', description: 'Chain crop → resize → watermark → compress recipes.', isNew: true, category: 'core' },
     { id: 'cropper', icon: '✂️', iconClass: 'crop', title: 'Image Cropper', description: 'Crop with preset aspect ratios (1:1, 16:9, 4:3).', isNew: true, category: 'edit' },
     { id: 'rotator', icon: '🔄', iconClass: 'rotate', title: 'Image Rotator', description: 'Rotate 90°/180° and flip horizontal/vertical.', isNew: true, category: 'edit' },
     { id: 'watermark', icon: '©', iconClass: 'watermark', title: 'Watermark Adder', description: 'Add text watermarks with custom position & style.', isNew: true, category: 'edit' },
@@ -62,15 +66,15 @@ const ALL_TOOLS: { id: Tool; icon: string; iconClass: string; title: string; des
     { id: 'image-to-pdf', icon: '📄', iconClass: 'pdf', title: 'Image to PDF', description: 'Convert multiple images into a single PDF.', isNew: true, category: 'pdf' },
     { id: 'pdf-to-image', icon: '📑', iconClass: 'pdfimg', title: 'PDF to Image', description: 'Convert PDF pages to PNG images.', isNew: true, category: 'pdf' },
     { id: 'exif-cleaner', icon: '🔐', iconClass: 'privacy', title: 'EXIF Privacy Cleaner', description: 'Remove GPS, camera info & metadata.', isNew: true, category: 'privacy' },
-    { id: 'duplicate-finder', icon: '🔍', iconClass: 'duplicate', title: 'Duplicate Finder', description: 'Find similar images using perceptual hashing.', isNew: true, category: 'privacy' },
-    { id: 'ocr', icon: '📝', iconClass: 'ocr', title: 'OCR Text Extractor', description: 'Extract text from images. 12 languages.', isNew: true, category: 'privacy' },
-    { id: 'color-palette', icon: '🎨', iconClass: 'palette', title: 'Color Palette Extractor', description: 'Extract colors with HEX/RGB & CSS gradients.', isNew: true, category: 'design' },
+    { id: 'duplicate-finder', icon: '🔍', iconClass: 'duplicate', title: 'Duplicate Finder', description: 'Find similar images with pHash, dHash or exact SHA-256.', isNew: true, category: 'privacy' },
+    { id: 'ocr', icon: '📝', iconClass: 'ocr', title: 'OCR Text Extractor', description: 'Extract text or make searchable PDFs. 12 languages.', isNew: true, category: 'privacy' },
+    { id: 'color-palette', icon: '🎨', iconClass: 'palette', title: 'Color Palette Extractor', description: 'Extract palettes, export swatches & check WCAG contrast.', isNew: true, category: 'design' },
     { id: 'device-mockup', icon: '📱', iconClass: 'mockup', title: 'Device Mockup Generator', description: 'iPhone, MacBook, iPad device frames.', isNew: true, category: 'design' },
     { id: 'ascii-art', icon: '🖌️', iconClass: 'ascii', title: 'ASCII Art Generator', description: 'Convert images to ASCII text art.', isNew: true, category: 'design' },
     { id: 'thumbnail', icon: '🎬', iconClass: 'thumbnail', title: 'Thumbnail Maker', description: 'Create thumbnails with images, text & emojis.', isNew: true, category: 'design' },
     { id: 'instagram-grid', icon: '📸', iconClass: 'instagram', title: 'Instagram Grid Splitter', description: 'Split into 3×3/3×2/3×1 grids for carousel.', isNew: true, category: 'social' },
     { id: 'favicon', icon: '🖼️', iconClass: 'favicon', title: 'Favicon Generator', description: 'All sizes + manifest.json + HTML snippet.', isNew: true, category: 'social' },
-    { id: 'color-blindness', icon: '👁️', iconClass: 'colorblind', title: 'Color Blindness Simulator', description: 'See how designs appear to color blind users.', isNew: true, category: 'accessibility' },
+    { id: 'color-blindness', icon: '👁️', iconClass: 'colorblind', title: 'Color Blindness Simulator', description: 'See and correct how designs appear to color blind users.', isNew: true, category: 'accessibility' },
     { id: 'image-comparison', icon: '↔️', iconClass: 'compare', title: 'Image Comparison Slider', description: 'Before/after comparison with slider.', isNew: true, category: 'accessibility' },
 ]
 
@@ -109,7 +113,7 @@ function Header({ onLogoClick }: { onLogoClick: () => void }) {
                     ImageKit Pro
                 </div>
                 <nav className="nav-links">
-                    <span className="nav-badge">20 Tools Available</span>
+                    <span className="nav-badge">21 Tools Available</span>
                 </nav>
             </div>
         </header>
@@ -212,10 +216,15 @@ function App() {
     const [currentTool, setCurrentTool] = useState<Tool>(getToolFromHash)
     const { favorites, toggleFavorite, isFavorite } = useFavorites()
     const { recentTools, addRecent } = useRecentlyUsed()
+    const [currentOutput, setCurrentOutput] = useState<ToolOutput | null>(null)
+    const [handoffFile, setHandoffFile] = useState<File | null>(null)
 
     // Listen for popstate (back/forward)
     useEffect(() => {
-        const handler = () => setCurrentTool(getToolFromHash())
+        const handler = () => {
+            setHandoffFile(null)
+            setCurrentTool(getToolFromHash())
+        }
         window.addEventListener('popstate', handler)
         return () => window.removeEventListener('popstate', handler)
     }, [])
@@ -228,40 +237,44 @@ function App() {
         if (metaDesc) metaDesc.setAttribute('content', seo.desc)
     }, [currentTool])
 
-    const handleSelectTool = useCallback((tool: Tool | string) => {
+    const handleSelectTool = useCallback((tool: Tool | string, output?: ToolOutput) => {
         const t = tool as Tool
+        setHandoffFile(output ? outputToFile(output) : null)
         setCurrentTool(t)
         setHashForTool(t)
         if (t !== 'home') addRecent(t)
     }, [addRecent])
 
     const handleBack = useCallback(() => {
+        setHandoffFile(null)
         setCurrentTool('home')
         setHashForTool('home')
     }, [])
 
     const renderTool = () => {
+        const handoff = { initialFile: handoffFile, onOutput: setCurrentOutput }
         switch (currentTool) {
-            case 'compressor': return <ImageCompressor onBack={handleBack} />
-            case 'resizer': return <SocialMediaResizer onBack={handleBack} />
-            case 'background-remover': return <BackgroundRemover onBack={handleBack} />
-            case 'exif-cleaner': return <ExifCleaner onBack={handleBack} />
-            case 'color-palette': return <ColorPaletteExtractor onBack={handleBack} />
-            case 'instagram-grid': return <InstagramGridSplitter onBack={handleBack} />
-            case 'favicon': return <FaviconGenerator onBack={handleBack} />
-            case 'ocr': return <OcrExtractor onBack={handleBack} />
-            case 'device-mockup': return <DeviceMockupGenerator onBack={handleBack} />
-            case 'color-blindness': return <ColorBlindnessSimulator onBack={handleBack} />
-            case 'ascii-art': return <AsciiArtGenerator onBack={handleBack} />
-            case 'image-comparison': return <ImageComparisonSlider onBack={handleBack} />
-            case 'duplicate-finder': return <DuplicateFinder onBack={handleBack} />
-            case 'image-to-pdf': return <ImageToPdf onBack={handleBack} />
-            case 'pdf-to-image': return <PdfToImage onBack={handleBack} />
-            case 'cropper': return <ImageCropper onBack={handleBack} />
-            case 'rotator': return <ImageRotator onBack={handleBack} />
-            case 'watermark': return <WatermarkAdder onBack={handleBack} />
-            case 'watermark-remover': return <WatermarkRemover onBack={handleBack} />
-            case 'thumbnail': return <ThumbnailMaker onBack={handleBack} />
+            case 'compressor': return <ImageCompressor onBack={handleBack} {...handoff} />
+            case 'resizer': return <SocialMediaResizer onBack={handleBack} {...handoff} />
+            case 'background-remover': return <BackgroundRemover onBack={handleBack} {...handoff} />
+            case 'exif-cleaner': return <ExifCleaner onBack={handleBack} {...handoff} />
+            case 'color-palette': return <ColorPaletteExtractor onBack={handleBack} {...handoff} />
+            case 'instagram-grid': return <InstagramGridSplitter onBack={handleBack} {...handoff} />
+            case 'favicon': return <FaviconGenerator onBack={handleBack} {...handoff} />
+            case 'ocr': return <OcrExtractor onBack={handleBack} {...handoff} />
+            case 'device-mockup': return <DeviceMockupGenerator onBack={handleBack} {...handoff} />
+            case 'color-blindness': return <ColorBlindnessSimulator onBack={handleBack} {...handoff} />
+            case 'ascii-art': return <AsciiArtGenerator onBack={handleBack} {...handoff} />
+            case 'image-comparison': return <ImageComparisonSlider onBack={handleBack} {...handoff} />
+            case 'duplicate-finder': return <DuplicateFinder onBack={handleBack} {...handoff} />
+            case 'image-to-pdf': return <ImageToPdf onBack={handleBack} {...handoff} />
+            case 'pdf-to-image': return <PdfToImage onBack={handleBack} {...handoff} />
+            case 'cropper': return <ImageCropper onBack={handleBack} {...handoff} />
+            case 'rotator': return <ImageRotator onBack={handleBack} {...handoff} />
+            case 'watermark': return <WatermarkAdder onBack={handleBack} {...handoff} />
+            case 'watermark-remover': return <WatermarkRemover onBack={handleBack} {...handoff} />
+            case 'thumbnail': return <ThumbnailMaker onBack={handleBack} {...handoff} />
+            case 'pipeline': return <PipelineBuilder onBack={handleBack} {...handoff} />
             default: return null
         }
     }
@@ -281,7 +294,7 @@ function App() {
                 ) : (
                     <>
                         {renderTool()}
-                        <ToolSuggestionsBar currentTool={currentTool} onSelectTool={handleSelectTool} />
+                        <ToolSuggestionsBar currentTool={currentTool} currentOutput={currentOutput} onSelectTool={handleSelectTool} />
                     </>
                 )}
             </main>
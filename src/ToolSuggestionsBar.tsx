@@ -1,11 +1,13 @@
-import { getToolSuggestions } from './utils/toolSuggestions'
+import type { ToolOutput } from './utils/toolHandoff'
+import { canReceiveOutput, getToolSuggestions } from './utils/toolSuggestions'
 
 interface Props {
     currentTool: string
-    onSelectTool: (tool: string) => void
+    currentOutput: ToolOutput | null
+    onSelectTool: (tool: string, output?: ToolOutput) => void
 }
 
-export default function ToolSuggestionsBar({ currentTool, onSelectTool }: Props) {
+export default function ToolSuggestionsBar({ currentTool, currentOutput, onSelectTool }: Props) {
     const suggestions = getToolSuggestions(currentTool)
 
     if (suggestions.length === 0) return null
@@ -13,24 +15,28 @@ export default function ToolSuggestionsBar({ currentTool, onSelectTool }: Props)
     return (
         <div className="suggestions-bar">
             <div className="suggestions-header">
-                <span className="suggestions-icon">💡</span>
-                <span>You might also like</span>
+                <span className="suggestions-icon">{currentOutput ? '📤' : '💡'}</span>
+                <span>{currentOutput ? 'Send result to…' : 'You might also like'}</span>
             </div>
             <div className="suggestions-grid">
-                {suggestions.map(s => (
-                    <div
-                        key={s.id}
-                        className="suggestion-card"
-                        onClick={() => onSelectTool(s.id)}
-                    >
-                        <span className="suggestion-emoji">{s.icon}</span>
-                        <div className="suggestion-info">
-                            <div className="suggestion-title">{s.title}</div>
-                            <div className="suggestion-desc">{s.description}</div>
+                {suggestions.map(s => {
+                    const output = currentOutput && canReceiveOutput(s.id, currentOutput) ? currentOutput : undefined
+                    return (
+                        <div
+                            key={s.id}
+                            className="suggestion-card"
+                            onClick={() => onSelectTool(s.id, output)}
+                            title={output ? `Open ${s.title} with ${output.filename}` : undefined}
+                        >
+                            <span className="suggestion-emoji">{s.icon}</span>
+                            <div className="suggestion-info">
+                                <div className="suggestion-title">{s.title}</div>
+                                <div className="suggestion-desc">{output ? `Continue with ${output.filename}` : s.description}</div>
+                            </div>
+                            <span className="suggestion-arrow">→</span>
                         </div>
-                        <span className="suggestion-arrow">→</span>
-                    </div>
-                ))}
+                    )
+                })}
             </div>
         </div>
     )
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { isAbortError, toPercent, type CancellableTask, type TaskProgress } from '../utils/taskProgress'
+
+/**
+ * Run one long task at a time with shared progress state and a cancel handle.
+ * Starting a new task cancels the previous one; leaving the tool cancels too.
+ */
+export function useCancellableTask() {
+    const [progress, setProgress] = useState<TaskProgress | null>(null)
+    const controllerRef = useRef<AbortController | null>(null)
+
+    // Resolves with the task's result, or null if it was cancelled; other errors are rethrown
+    const run = useCallback(async <T>(task: CancellableTask<T>): Promise<T | null> => {
+        controllerRef.current?.abort()
+        const controller = new AbortController()
+        controllerRef.current = controller
+        setProgress({ fraction: 0 })
+
+        try {
+            const result = await task(controller.signal, (next) => {
+                if (!controller.signal.aborted) setProgress(next)
+            })
+            // A task that finishes without reaching an abort check is still cancelled
+            return controller.signal.aborted ? null : result
+        } catch (error) {
+            if (isAbortError(error)) return null
+            throw error
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null
+                setProgress(null)
+            }
+        }
+    }, [])
+
+    // Clears progress right away; the task itself winds down at its next abort check
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort()
+        controllerRef.current = null
+        setProgress(null)
+    }, [])
+
+    useEffect(() => () => controllerRef.current?.abort(), [])
+
+    return { progress, percent: toPercent(progress), isRunning: progress !== null, run, cancel }
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react'
+import { installPack, listInstalledPacks, removePack, type InstalledPack } from '../utils/ocrLanguages'
+import type { ProgressCallback } from '../utils/taskProgress'
+
+export function useOcrLanguagePacks() {
+    const [installed, setInstalled] = useState<InstalledPack[]>([])
+
+    const refresh = useCallback(async () => {
+        try {
+            setInstalled(await listInstalledPacks())
+        } catch (error) {
+            console.error('Error reading OCR language packs:', error)
+        }
+    }, [])
+
+    useEffect(() => {
+        refresh()
+    }, [refresh])
+
+    const isInstalled = useCallback((code: string) => installed.some(pack => pack.code === code), [installed])
+
+    const install = useCallback(async (code: string, signal?: AbortSignal, onProgress?: ProgressCallback) => {
+        try {
+            await installPack(code, signal, onProgress)
+        } finally {
+            await refresh()
+        }
+    }, [refresh])
+
+    const remove = useCallback(async (code: string) => {
+        await removePack(code)
+        await refresh()
+    }, [refresh])
+
+    return { installed, isInstalled, install, remove }
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { PipelineRecipe } from '../utils/pipeline'
+
+const STORAGE_KEY = 'imagekit_pipelines'
+
+export function usePipelineRecipes() {
+    const [recipes, setRecipes] = useState<PipelineRecipe[]>(() => {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY)
+            return stored ? JSON.parse(stored) : []
+        } catch {
+            return []
+        }
+    })
+
+    useEffect(() => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes))
+    }, [recipes])
+
+    const saveRecipe = useCallback((recipe: PipelineRecipe) => {
+        setRecipes(prev => {
+            const exists = prev.some(r => r.id === recipe.id)
+            return exists ? prev.map(r => (r.id === recipe.id ? recipe : r)) : [...prev, recipe]
+        })
+    }, [])
+
+    const deleteRecipe = useCallback((id: string) => {
+        setRecipes(prev => prev.filter(r => r.id !== id))
+    }, [])
+
+    return { recipes, saveRecipe, deleteRecipe }
+}
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react'
+import type { ToolOutput } from '../utils/toolHandoff'
+
+/**
+ * Feed a handed-off file into the tool's own file handler once on mount
+ */
+export function useInitialFile(initialFile: File | null | undefined, handleFile: (file: File) => void) {
+    const handled = useRef<File | null>(null)
+
+    useEffect(() => {
+        if (!initialFile || handled.current === initialFile) return
+        handled.current = initialFile
+        handleFile(initialFile)
+    }, [initialFile, handleFile])
+}
+
+/**
+ * Publish the tool's current result so the suggestions bar can send it onward
+ */
+export function usePublishOutput(
+    onOutput: ((output: ToolOutput | null) => void) | undefined,
+    blob: Blob | null,
+    filename: string
+) {
+    useEffect(() => {
+        onOutput?.(blob ? { blob, filename } : null)
+    }, [onOutput, blob, filename])
+
+    useEffect(() => () => onOutput?.(null), [onOutput])
+}
@@ -1,10 +1,12 @@
 import { useCallback, useRef, useState } from 'react'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface AsciiArtGeneratorProps {
+interface AsciiArtGeneratorProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function AsciiArtGenerator({ onBack }: AsciiArtGeneratorProps) {
+export default function AsciiArtGenerator({ onBack, initialFile }: AsciiArtGeneratorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [asciiArt, setAsciiArt] = useState<string>('')
@@ -104,6 +106,8 @@ export default function AsciiArtGenerator({ onBack }: AsciiArtGeneratorProps) {
         }
     }, [width, charSet, inverted])
 
+    useInitialFile(initialFile, handleFile)
+
     // Regenerate when settings change
     const regenerate = async () => {
         if (!file) return
@@ -1,19 +1,22 @@
 import { removeBackground } from '@imgly/background-removal'
 import { useCallback, useRef, useState } from 'react'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
 import { applyBackground, downloadBlob, formatFileSize, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import { abortable } from '../utils/taskProgress'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface BackgroundRemoverProps {
+interface BackgroundRemoverProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
+export default function BackgroundRemover({ onBack, initialFile, onOutput }: BackgroundRemoverProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
     const [processedBlob, setProcessedBlob] = useState<Blob | null>(null)
     const [processedPreview, setProcessedPreview] = useState<string | null>(null)
-    const [isProcessing, setIsProcessing] = useState(false)
-    const [progress, setProgress] = useState(0)
+    const removal = useCancellableTask()
     const [isDragging, setIsDragging] = useState(false)
     const [showOriginal, setShowOriginal] = useState(false)
     const [backgroundColor, setBackgroundColor] = useState('#ffffff')
@@ -29,6 +32,7 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
             return
         }
 
+        removal.cancel()
         setFile(selectedFile)
         const url = URL.createObjectURL(selectedFile)
         setPreview(url)
@@ -45,8 +49,9 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
         setProcessedPreview(null)
         setFinalBlob(null)
         setFinalPreview(null)
-        setProgress(0)
-    }, [])
+    }, [removal.cancel])
+
+    useInitialFile(initialFile, handleFile)
 
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -70,17 +75,15 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
     const handleRemoveBackground = async () => {
         if (!file) return
 
-        setIsProcessing(true)
-        setProgress(0)
-
         try {
-            const blob = await removeBackground(file, {
+            // The model run itself can't be interrupted; on cancel its late result is discarded
+            const blob = await removal.run((signal, onProgress) => abortable(removeBackground(file, {
                 progress: (key, current, total) => {
                     // Calculate overall progress
-                    const progressPercent = Math.round((current / total) * 100)
-                    setProgress(progressPercent)
+                    onProgress({ fraction: current / total })
                 }
-            })
+            }), signal))
+            if (!blob) return
 
             setProcessedBlob(blob)
             if (processedPreview) URL.revokeObjectURL(processedPreview)
@@ -91,9 +94,6 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
         } catch (error) {
             console.error('Error removing background:', error)
             alert('Error processing image. Please try again with a different image.')
-        } finally {
-            setIsProcessing(false)
-            setProgress(100)
         }
     }
 
@@ -142,6 +142,10 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
         }
     }
 
+    // Publish the cut-out for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_no_background.${applyBg ? 'jpg' : 'png'}` : ''
+    usePublishOutput(onOutput, finalBlob, outputName)
+
     // Download
     const handleDownload = () => {
         if (!finalBlob || !file) return
@@ -153,6 +157,7 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
 
     // Reset
     const handleReset = () => {
+        removal.cancel()
         if (preview) URL.revokeObjectURL(preview)
         if (processedPreview) URL.revokeObjectURL(processedPreview)
         if (finalPreview && finalPreview !== processedPreview) URL.revokeObjectURL(finalPreview)
@@ -164,7 +169,6 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
         setProcessedPreview(null)
         setFinalBlob(null)
         setFinalPreview(null)
-        setProgress(0)
         setApplyBg(false)
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
@@ -222,9 +226,9 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
                         <button
                             className="download-button"
                             onClick={handleRemoveBackground}
-                            disabled={isProcessing}
+                            disabled={removal.isRunning}
                         >
-                            {isProcessing ? `⏳ Processing... ${progress}%` : '🎭 Remove Background'}
+                            {removal.isRunning ? `⏳ Processing... ${removal.percent}%` : '🎭 Remove Background'}
                         </button>
                     </div>
 
@@ -347,15 +351,15 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
             )}
 
             {/* Processing Overlay */}
-            {isProcessing && (
+            {removal.isRunning && (
                 <div className="processing-overlay">
                     <div className="processing-content">
                         <div className="processing-spinner" />
                         <div className="processing-text">Removing Background...</div>
                         <div className="processing-hint">
-                            {progress < 30 ? 'Loading AI model...' :
-                                progress < 70 ? 'Analyzing image...' :
-                                    progress < 90 ? 'Removing background...' :
+                            {removal.percent < 30 ? 'Loading AI model...' :
+                                removal.percent < 70 ? 'Analyzing image...' :
+                                    removal.percent < 90 ? 'Removing background...' :
                                         'Finishing up...'}
                         </div>
                         <div style={{
@@ -367,14 +371,17 @@ export default function BackgroundRemover({ onBack }: BackgroundRemoverProps) {
                             overflow: 'hidden'
                         }}>
                             <div style={{
-                                width: `${progress}%`,
+                                width: `${removal.percent}%`,
                                 height: '100%',
                                 background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
                                 borderRadius: '4px',
                                 transition: 'width 0.3s ease'
                             }} />
                         </div>
-                        <div style={{ marginTop: '0.5rem', color: 'rgba(255,255,255,0.5)' }}>{progress}%</div>
+                        <div style={{ marginTop: '0.5rem', color: 'rgba(255,255,255,0.5)' }}>{removal.percent}%</div>
+                        <button className="secondary-button" onClick={removal.cancel} style={{ marginTop: '1rem' }}>
+                            ✖ Cancel
+                        </button>
                     </div>
                 </div>
             )}
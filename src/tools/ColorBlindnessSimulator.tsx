@@ -1,7 +1,13 @@
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
+import { canDaltonize, CVD_MODELS, cvdTransform, daltonizeTransform, IDENTITY_TRANSFORM, type CvdModel, type Deficiency } from '../utils/colorVision'
 import { downloadBlob, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import { runWorkerJob } from '../utils/imageWorkerClient'
+import { stepProgress, type ProgressCallback } from '../utils/taskProgress'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ColorBlindnessSimulatorProps {
+interface ColorBlindnessSimulatorProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -9,168 +15,122 @@ interface ColorBlindnessType {
     id: string
     name: string
     description: string
-    matrix: number[][]
+    deficiency: Deficiency | null
+    // Anomalous trichromacies follow the severity slider; dichromacies are always 100%
+    anomalous: boolean
 }
 
 const COLOR_BLINDNESS_TYPES: ColorBlindnessType[] = [
-    {
-        id: 'normal',
-        name: 'Normal Vision',
-        description: 'Original image',
-        matrix: [
-            [1, 0, 0],
-            [0, 1, 0],
-            [0, 0, 1]
-        ]
-    },
-    {
-        id: 'protanopia',
-        name: 'Protanopia',
-        description: 'Red-blind (~1% of males)',
-        matrix: [
-            [0.567, 0.433, 0],
-            [0.558, 0.442, 0],
-            [0, 0.242, 0.758]
-        ]
-    },
-    {
-        id: 'deuteranopia',
-        name: 'Deuteranopia',
-        description: 'Green-blind (~1% of males)',
-        matrix: [
-            [0.625, 0.375, 0],
-            [0.7, 0.3, 0],
-            [0, 0.3, 0.7]
-        ]
-    },
-    {
-        id: 'tritanopia',
-        name: 'Tritanopia',
-        description: 'Blue-blind (~0.01%)',
-        matrix: [
-            [0.95, 0.05, 0],
-            [0, 0.433, 0.567],
-            [0, 0.475, 0.525]
-        ]
-    },
-    {
-        id: 'achromatopsia',
-        name: 'Achromatopsia',
-        description: 'Complete color blindness',
-        matrix: [
-            [0.299, 0.587, 0.114],
-            [0.299, 0.587, 0.114],
-            [0.299, 0.587, 0.114]
-        ]
-    },
-    {
-        id: 'protanomaly',
-        name: 'Protanomaly',
-        description: 'Red-weak (~1% of males)',
-        matrix: [
-            [0.817, 0.183, 0],
-            [0.333, 0.667, 0],
-            [0, 0.125, 0.875]
-        ]
-    },
-    {
-        id: 'deuteranomaly',
-        name: 'Deuteranomaly',
-        description: 'Green-weak (~5% of males)',
-        matrix: [
-            [0.8, 0.2, 0],
-            [0.258, 0.742, 0],
-            [0, 0.142, 0.858]
-        ]
-    },
-    {
-        id: 'tritanomaly',
-        name: 'Tritanomaly',
-        description: 'Blue-weak (~0.01%)',
-        matrix: [
-            [0.967, 0.033, 0],
-            [0, 0.733, 0.267],
-            [0, 0.183, 0.817]
-        ]
-    }
+    { id: 'normal', name: 'Normal Vision', description: 'Original image', deficiency: null, anomalous: false },
+    { id: 'protanopia', name: 'Protanopia', description: 'Red-blind (~1% of males)', deficiency: 'protan', anomalous: false },
+    { id: 'deuteranopia', name: 'Deuteranopia', description: 'Green-blind (~1% of males)', deficiency: 'deutan', anomalous: false },
+    { id: 'tritanopia', name: 'Tritanopia', description: 'Blue-blind (~0.01%)', deficiency: 'tritan', anomalous: false },
+    { id: 'achromatopsia', name: 'Achromatopsia', description: 'Complete color blindness', deficiency: 'achromat', anomalous: false },
+    { id: 'protanomaly', name: 'Protanomaly', description: 'Red-weak (~1% of males)', deficiency: 'protan', anomalous: true },
+    { id: 'deuteranomaly', name: 'Deuteranomaly', description: 'Green-weak (~5% of males)', deficiency: 'deutan', anomalous: true },
+    { id: 'tritanomaly', name: 'Tritanomaly', description: 'Blue-weak (~0.01%)', deficiency: 'tritan', anomalous: true }
 ]
 
-export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimulatorProps) {
+const CORRECTABLE_TYPES = COLOR_BLINDNESS_TYPES.filter(type => canDaltonize(type.deficiency))
+
+interface RenderedImage {
+    blob: Blob
+    url: string
+}
+
+interface Correction {
+    typeId: string
+    corrected: RenderedImage
+    // The corrected image run back through the simulation
+    perceived: RenderedImage
+}
+
+// Lets the severity slider settle before re-simulating
+const RESIMULATE_DELAY_MS = 300
+
+export default function ColorBlindnessSimulator({ onBack, initialFile, onOutput }: ColorBlindnessSimulatorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
-    const [simulatedImages, setSimulatedImages] = useState<Map<string, { blob: Blob; url: string }>>(new Map())
+    const [simulatedImages, setSimulatedImages] = useState<Map<string, RenderedImage>>(new Map())
     const [selectedType, setSelectedType] = useState<ColorBlindnessType>(COLOR_BLINDNESS_TYPES[0])
-    const [isProcessing, setIsProcessing] = useState(false)
+    const simulation = useCancellableTask()
     const [isDragging, setIsDragging] = useState(false)
     const [viewMode, setViewMode] = useState<'single' | 'grid'>('single')
+    const [model, setModel] = useState<CvdModel>('machado')
+    const [severity, setSeverity] = useState(60)
+    const [mode, setMode] = useState<'simulate' | 'correct'>('simulate')
+    const [correction, setCorrection] = useState<Correction | null>(null)
+    const correcting = useCancellableTask()
     const fileInputRef = useRef<HTMLInputElement>(null)
 
-    // Apply color blindness simulation
-    const simulateColorBlindness = async (imageFile: File, type: ColorBlindnessType): Promise<Blob> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image()
-            const url = URL.createObjectURL(imageFile)
-
-            img.onload = () => {
-                URL.revokeObjectURL(url)
-
-                const canvas = document.createElement('canvas')
-                canvas.width = img.width
-                canvas.height = img.height
-
-                const ctx = canvas.getContext('2d')
-                if (!ctx) {
-                    reject(new Error('Failed to get canvas context'))
-                    return
-                }
-
-                ctx.drawImage(img, 0, 0)
-                const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-                const data = imageData.data
-
-                const matrix = type.matrix
-
-                for (let i = 0; i < data.length; i += 4) {
-                    const r = data[i]
-                    const g = data[i + 1]
-                    const b = data[i + 2]
-
-                    data[i] = Math.min(255, Math.max(0, r * matrix[0][0] + g * matrix[0][1] + b * matrix[0][2]))
-                    data[i + 1] = Math.min(255, Math.max(0, r * matrix[1][0] + g * matrix[1][1] + b * matrix[1][2]))
-                    data[i + 2] = Math.min(255, Math.max(0, r * matrix[2][0] + g * matrix[2][1] + b * matrix[2][2]))
-                }
+    // Simulate in linear RGB in the image worker
+    const simulateColorBlindness = async (
+        imageFile: File,
+        type: ColorBlindnessType,
+        signal: AbortSignal,
+        onProgress: ProgressCallback
+    ): Promise<Blob> => {
+        const transform = type.deficiency
+            ? cvdTransform(type.deficiency, model, type.anomalous ? severity / 100 : 1)
+            : IDENTITY_TRANSFORM
+        const bitmap = await createImageBitmap(imageFile)
+        return runWorkerJob({ type: 'colorVision', bitmap, transform }, { signal, onProgress })
+    }
 
-                ctx.putImageData(imageData, 0, 0)
+    // Generate all simulations
+    const generateAllSimulations = async (imageFile: File, signal: AbortSignal, onProgress: ProgressCallback) => {
+        const newImages = new Map<string, RenderedImage>()
 
-                canvas.toBlob(
-                    (blob) => {
-                        if (blob) resolve(blob)
-                        else reject(new Error('Failed to create simulated image'))
-                    },
-                    'image/png'
+        try {
+            for (let i = 0; i < COLOR_BLINDNESS_TYPES.length; i++) {
+                const blob = await simulateColorBlindness(
+                    imageFile,
+                    COLOR_BLINDNESS_TYPES[i],
+                    signal,
+                    stepProgress(onProgress, i, COLOR_BLINDNESS_TYPES.length, COLOR_BLINDNESS_TYPES[i].name)
                 )
+                newImages.set(COLOR_BLINDNESS_TYPES[i].id, { blob, url: URL.createObjectURL(blob) })
             }
+        } catch (error) {
+            // Drop partial results so a cancelled run leaves no stray object URLs
+            newImages.forEach(img => URL.revokeObjectURL(img.url))
+            throw error
+        }
 
-            img.onerror = () => {
-                URL.revokeObjectURL(url)
-                reject(new Error('Failed to load image'))
-            }
-
-            img.src = url
-        })
+        return newImages
     }
 
-    // Generate all simulations
-    const generateAllSimulations = async (imageFile: File) => {
-        const newImages = new Map<string, { blob: Blob; url: string }>()
+    const revokeCorrection = (target: Correction | null) => {
+        if (!target) return
+        URL.revokeObjectURL(target.corrected.url)
+        URL.revokeObjectURL(target.perceived.url)
+    }
 
-        for (const type of COLOR_BLINDNESS_TYPES) {
-            const blob = await simulateColorBlindness(imageFile, type)
-            newImages.set(type.id, { blob, url: URL.createObjectURL(blob) })
+    // Daltonize, then simulate the result to show what the viewer actually gets
+    const correctImage = async (
+        imageFile: File,
+        type: ColorBlindnessType,
+        signal: AbortSignal,
+        onProgress: ProgressCallback
+    ): Promise<Correction> => {
+        if (!canDaltonize(type.deficiency)) throw new Error(`${type.name} cannot be corrected`)
+        const typeSeverity = type.anomalous ? severity / 100 : 1
+
+        const corrected = await runWorkerJob(
+            { type: 'colorVision', bitmap: await createImageBitmap(imageFile), transform: daltonizeTransform(type.deficiency, model, typeSeverity) },
+            { signal, onProgress: stepProgress(onProgress, 0, 2, 'Correcting') }
+        )
+        const perceived = await runWorkerJob(
+            { type: 'colorVision', bitmap: await createImageBitmap(corrected), transform: cvdTransform(type.deficiency, model, typeSeverity) },
+            { signal, onProgress: stepProgress(onProgress, 1, 2, 'Simulating') }
+        )
+
+        return {
+            typeId: type.id,
+            corrected: { blob: corrected, url: URL.createObjectURL(corrected) },
+            perceived: { blob: perceived, url: URL.createObjectURL(perceived) }
         }
-
-        return newImages
     }
 
     // Handle file selection
@@ -192,19 +152,65 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
         }
 
         // Clear old simulations
-        simulatedImages.forEach(img => URL.revokeObjectURL(img.url))
+        setSimulatedImages(prev => {
+            prev.forEach(img => URL.revokeObjectURL(img.url))
+            return new Map()
+        })
+        setCorrection(prev => {
+            revokeCorrection(prev)
+            return null
+        })
+    }, [])
 
-        // Generate all simulations
-        setIsProcessing(true)
-        try {
-            const images = await generateAllSimulations(selectedFile)
-            setSimulatedImages(images)
-        } catch (error) {
-            console.error('Error generating simulations:', error)
-        } finally {
-            setIsProcessing(false)
-        }
-    }, [simulatedImages])
+    useInitialFile(initialFile, handleFile)
+
+    // Generate all simulations for the current image, model and severity
+    useEffect(() => {
+        if (!file) return
+
+        const timer = setTimeout(async () => {
+            try {
+                const images = await simulation.run((signal, onProgress) => generateAllSimulations(file, signal, onProgress))
+                if (images) {
+                    setSimulatedImages(prev => {
+                        prev.forEach(img => URL.revokeObjectURL(img.url))
+                        return images
+                    })
+                }
+            } catch (error) {
+                console.error('Error generating simulations:', error)
+            }
+        }, RESIMULATE_DELAY_MS)
+
+        return () => clearTimeout(timer)
+    }, [file, model, severity])
+
+    // Correct the selected type while in correction mode
+    useEffect(() => {
+        if (!file || mode !== 'correct' || !canDaltonize(selectedType.deficiency)) return
+
+        const timer = setTimeout(async () => {
+            try {
+                const result = await correcting.run((signal, onProgress) => correctImage(file, selectedType, signal, onProgress))
+                if (result) {
+                    setCorrection(prev => {
+                        revokeCorrection(prev)
+                        return result
+                    })
+                }
+            } catch (error) {
+                console.error('Error daltonizing image:', error)
+            }
+        }, RESIMULATE_DELAY_MS)
+
+        return () => clearTimeout(timer)
+    }, [file, mode, selectedType, model, severity])
+
+    // Correction needs a deficiency with color left to work with
+    const handleModeChange = (next: 'simulate' | 'correct') => {
+        setMode(next)
+        if (next === 'correct' && !canDaltonize(selectedType.deficiency)) setSelectedType(CORRECTABLE_TYPES[0])
+    }
 
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -224,18 +230,36 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
         if (droppedFile) handleFile(droppedFile)
     }, [handleFile])
 
-    // Download current simulation
+    const currentImage = simulatedImages.get(selectedType.id)
+    const currentCorrection = correction?.typeId === selectedType.id ? correction : null
+    const outputImage = mode === 'correct' ? currentCorrection?.corrected : currentImage
+
+    // Publish the selected simulation or correction for handoff to other tools
+    const outputSuffix = mode === 'correct' ? `${selectedType.id}_daltonized` : selectedType.id
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_${outputSuffix}.png` : ''
+    usePublishOutput(onOutput, outputImage?.blob ?? null, outputName)
+
+    // Download current simulation or correction
     const handleDownload = () => {
-        const simulated = simulatedImages.get(selectedType.id)
-        if (!simulated || !file) return
-        const baseName = file.name.replace(/\.[^/.]+$/, '')
-        downloadBlob(simulated.blob, `${baseName}_${selectedType.id}.png`)
+        if (!outputImage || !file) return
+        downloadBlob(outputImage.blob, outputName)
+    }
+
+    // Cancel a running job; with nothing to show yet, go back to the upload screen
+    const handleCancel = () => {
+        simulation.cancel()
+        correcting.cancel()
+        if (simulatedImages.size === 0) handleReset()
     }
 
     // Reset
     const handleReset = () => {
+        simulation.cancel()
+        correcting.cancel()
         if (preview) URL.revokeObjectURL(preview)
         simulatedImages.forEach(img => URL.revokeObjectURL(img.url))
+        revokeCorrection(correction)
+        setCorrection(null)
         setFile(null)
         setPreview(null)
         setOriginalInfo(null)
@@ -243,8 +267,6 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
-    const currentImage = simulatedImages.get(selectedType.id)
-
     return (
         <div className="tool-page">
             <div className="tool-header">
@@ -275,34 +297,86 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
                 </div>
             ) : (
                 <>
-                    {/* View Mode Toggle */}
+                    {/* Mode & View Toggles */}
                     <div className="controls-panel">
                         <div className="select-buttons" style={{ marginBottom: '1rem' }}>
                             <button
-                                className={`select-button ${viewMode === 'single' ? 'active' : ''}`}
-                                onClick={() => setViewMode('single')}
+                                className={`select-button ${mode === 'simulate' ? 'active' : ''}`}
+                                onClick={() => handleModeChange('simulate')}
                             >
-                                Single View
+                                👁️ Simulate
                             </button>
                             <button
-                                className={`select-button ${viewMode === 'grid' ? 'active' : ''}`}
-                                onClick={() => setViewMode('grid')}
+                                className={`select-button ${mode === 'correct' ? 'active' : ''}`}
+                                onClick={() => handleModeChange('correct')}
                             >
-                                Grid View (All Types)
+                                🛠️ Correct (Daltonize)
                             </button>
                         </div>
 
-                        {viewMode === 'single' && (
+                        {mode === 'simulate' && (
+                            <div className="select-buttons" style={{ marginBottom: '1rem' }}>
+                                <button
+                                    className={`select-button ${viewMode === 'single' ? 'active' : ''}`}
+                                    onClick={() => setViewMode('single')}
+                                >
+                                    Single View
+                                </button>
+                                <button
+                                    className={`select-button ${viewMode === 'grid' ? 'active' : ''}`}
+                                    onClick={() => setViewMode('grid')}
+                                >
+                                    Grid View (All Types)
+                                </button>
+                            </div>
+                        )}
+
+                        <div className="control-group">
+                            <label className="control-label">
+                                <span>Simulation Model</span>
+                            </label>
+                            <div className="select-buttons">
+                                {CVD_MODELS.map(m => (
+                                    <button
+                                        key={m.id}
+                                        className={`select-button ${model === m.id ? 'active' : ''}`}
+                                        onClick={() => setModel(m.id)}
+                                        title={m.description}
+                                    >
+                                        {m.name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="control-group">
+                            <label className="control-label">
+                                <span>Anomaly Severity</span>
+                                <span className="control-value">{severity}%</span>
+                            </label>
+                            <div className="slider-container">
+                                <div className="slider-fill" style={{ width: `${severity}%` }} />
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    value={severity}
+                                    onChange={(e) => setSeverity(Number(e.target.value))}
+                                />
+                            </div>
+                        </div>
+
+                        {(viewMode === 'single' || mode === 'correct') && (
                             <div className="control-group">
                                 <label className="control-label">
-                                    <span>Color Blindness Type</span>
+                                    <span>{mode === 'correct' ? 'Correct For' : 'Color Blindness Type'}</span>
                                 </label>
                                 <div style={{
                                     display: 'grid',
                                     gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
                                     gap: '0.5rem'
                                 }}>
-                                    {COLOR_BLINDNESS_TYPES.map(type => (
+                                    {(mode === 'correct' ? CORRECTABLE_TYPES : COLOR_BLINDNESS_TYPES).map(type => (
                                         <button
                                             key={type.id}
                                             className={`select-button ${selectedType.id === type.id ? 'active' : ''}`}
@@ -310,7 +384,9 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
                                             style={{ textAlign: 'left', padding: '0.75rem' }}
                                         >
                                             <div style={{ fontWeight: 600 }}>{type.name}</div>
-                                            <div style={{ fontSize: '0.75rem', opacity: 0.7 }}>{type.description}</div>
+                                            <div style={{ fontSize: '0.75rem', opacity: 0.7 }}>
+                                                {type.description}{type.anomalous ? ` · ${severity}%` : ''}
+                                            </div>
                                         </button>
                                     ))}
                                 </div>
@@ -319,7 +395,48 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
                     </div>
 
                     {/* Image Display */}
-                    {viewMode === 'single' ? (
+                    {mode === 'correct' ? (
+                        <>
+                            <div className="comparison-container" style={{ marginTop: '1.5rem' }}>
+                                <div className="comparison-panel">
+                                    <div className="comparison-label">Before</div>
+                                    <img src={preview!} alt="Original" className="comparison-image" />
+                                </div>
+                                <div className="comparison-panel">
+                                    <div className="comparison-label">After (Daltonized)</div>
+                                    {currentCorrection ? (
+                                        <img src={currentCorrection.corrected.url} alt="Daltonized" className="comparison-image" />
+                                    ) : (
+                                        <div style={{ textAlign: 'center', padding: '2rem', color: 'rgba(255,255,255,0.5)' }}>
+                                            Processing...
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="comparison-container" style={{ marginTop: '1rem' }}>
+                                <div className="comparison-panel">
+                                    <div className="comparison-label">Before, as seen with {selectedType.name}</div>
+                                    {currentImage ? (
+                                        <img src={currentImage.url} alt={`${selectedType.name} before`} className="comparison-image" />
+                                    ) : (
+                                        <div style={{ textAlign: 'center', padding: '2rem', color: 'rgba(255,255,255,0.5)' }}>
+                                            Processing...
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="comparison-panel">
+                                    <div className="comparison-label">After, as seen with {selectedType.name}</div>
+                                    {currentCorrection ? (
+                                        <img src={currentCorrection.perceived.url} alt={`${selectedType.name} after`} className="comparison-image" />
+                                    ) : (
+                                        <div style={{ textAlign: 'center', padding: '2rem', color: 'rgba(255,255,255,0.5)' }}>
+                                            Processing...
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </>
+                    ) : viewMode === 'single' ? (
                         <div className="comparison-container" style={{ marginTop: '1.5rem' }}>
                             <div className="comparison-panel">
                                 <div className="comparison-label">Original</div>
@@ -373,6 +490,15 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
                             💡 Use this tool to ensure your designs are accessible to people with color vision deficiencies.
                             About 8% of men and 0.5% of women have some form of color blindness.
                         </p>
+                        <p style={{ fontSize: '0.875rem', color: 'rgba(255,255,255,0.7)', marginTop: '0.5rem' }}>
+                            Simulations run in linear RGB using Machado et al. (2009), Brettel et al. (1997) or Viénot et al. (1999).
+                            Viénot covers protan/deutan only, so tritan types use Brettel under that model.
+                        </p>
+                        {mode === 'correct' && (
+                            <p style={{ fontSize: '0.875rem', color: 'rgba(255,255,255,0.7)', marginTop: '0.5rem' }}>
+                                Daltonization moves the contrast a viewer loses into channels they can still see. Achromatopsia has no color channel left, so it can't be corrected.
+                            </p>
+                        )}
                     </div>
 
                     {/* Action Buttons */}
@@ -380,9 +506,9 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
                         <button className="secondary-button" onClick={handleReset}>
                             🔄 Upload New Image
                         </button>
-                        {viewMode === 'single' && currentImage && (
+                        {(viewMode === 'single' || mode === 'correct') && outputImage && (
                             <button className="download-button" onClick={handleDownload}>
-                                ⬇️ Download {selectedType.name}
+                                ⬇️ Download {selectedType.name}{mode === 'correct' ? ' (Daltonized)' : ''}
                             </button>
                         )}
                     </div>
@@ -390,11 +516,18 @@ export default function ColorBlindnessSimulator({ onBack }: ColorBlindnessSimula
             )}
 
             {/* Processing Overlay */}
-            {isProcessing && (
+            {(simulation.isRunning || correcting.isRunning) && (
                 <div className="processing-overlay">
                     <div className="processing-content">
                         <div className="processing-spinner" />
-                        <div className="processing-text">Generating Simulations...</div>
+                        <div className="processing-text">
+                            {simulation.isRunning
+                                ? `Generating Simulations... ${simulation.percent}%`
+                                : `Daltonizing... ${correcting.percent}%`}
+                        </div>
+                        <button className="secondary-button" onClick={handleCancel} style={{ marginTop: '1rem' }}>
+                            ✖ Cancel
+                        </button>
                     </div>
                 </div>
             )}
@@ -1,30 +1,53 @@
-import { useCallback, useRef, useState } from 'react'
-import { getImageInfo, type ImageInfo } from '../utils/imageProcessing'
-
-interface ColorPaletteExtractorProps {
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import { apcaContrast, apcaUsage, wcagContrast } from '../utils/contrast'
+import { quantizePixels, type QuantizeMethod } from '../utils/colorQuantization'
+import { downloadBlob, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import { exportPalette, PALETTE_FORMATS, slugify, swatchSlugs, type NamedSwatch, type PaletteFormat } from '../utils/paletteExport'
+import type { HandoffProps } from '../utils/toolHandoff'
+
+interface ColorPaletteExtractorProps extends HandoffProps {
     onBack: () => void
 }
 
 interface ColorInfo {
     hex: string
     rgb: string
+    r: number
+    g: number
+    b: number
     count: number
     percentage: number
 }
 
-export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorProps) {
+// Longest side of the sampling canvas; aspect ratio is preserved
+const SAMPLE_SIZE = 200
+
+const defaultSwatchName = (index: number) => `Color ${index + 1}`
+
+// WCAG level met, given the AAA and AA results for one text size
+const wcagLevel = (aaa: boolean, aa: boolean) => aaa ? 'AAA' : aa ? 'AA' : 'Fail'
+
+const inputStyle = { width: '100%', padding: '0.5rem 0.75rem', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: 'white' }
+
+export default function ColorPaletteExtractor({ onBack, initialFile }: ColorPaletteExtractorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
     const [colors, setColors] = useState<ColorInfo[]>([])
     const [colorCount, setColorCount] = useState(6)
+    const [method, setMethod] = useState<QuantizeMethod>('median-cut')
+    const [ignoreTransparent, setIgnoreTransparent] = useState(true)
+    const [samplePixels, setSamplePixels] = useState<Uint8ClampedArray | null>(null)
     const [isProcessing, setIsProcessing] = useState(false)
     const [isDragging, setIsDragging] = useState(false)
     const [copiedIndex, setCopiedIndex] = useState<number | null>(null)
+    const [swatchNames, setSwatchNames] = useState<string[]>([])
+    const [paletteName, setPaletteName] = useState('Extracted Palette')
     const fileInputRef = useRef<HTMLInputElement>(null)
 
-    // Extract dominant colors from image
-    const extractColors = async (imageFile: File, numColors: number): Promise<ColorInfo[]> => {
+    // Downsample the image once; palettes are recomputed from these pixels
+    const loadSamplePixels = async (imageFile: File): Promise<Uint8ClampedArray> => {
         return new Promise((resolve, reject) => {
             const img = new Image()
             const url = URL.createObjectURL(imageFile)
@@ -32,11 +55,10 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
             img.onload = () => {
                 URL.revokeObjectURL(url)
 
-                // Create small canvas for sampling
+                const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.width, img.height))
                 const canvas = document.createElement('canvas')
-                const size = 100 // Sample at lower resolution
-                canvas.width = size
-                canvas.height = size
+                canvas.width = Math.max(1, Math.round(img.width * scale))
+                canvas.height = Math.max(1, Math.round(img.height * scale))
 
                 const ctx = canvas.getContext('2d')
                 if (!ctx) {
@@ -44,39 +66,8 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
                     return
                 }
 
-                ctx.drawImage(img, 0, 0, size, size)
-                const imageData = ctx.getImageData(0, 0, size, size)
-                const pixels = imageData.data
-
-                // Color quantization using median cut algorithm (simplified)
-                const colorMap: Map<string, number> = new Map()
-
-                for (let i = 0; i < pixels.length; i += 4) {
-                    const r = Math.round(pixels[i] / 16) * 16
-                    const g = Math.round(pixels[i + 1] / 16) * 16
-                    const b = Math.round(pixels[i + 2] / 16) * 16
-                    const key = `${r},${g},${b}`
-                    colorMap.set(key, (colorMap.get(key) || 0) + 1)
-                }
-
-                // Sort by frequency
-                const sorted = Array.from(colorMap.entries())
-                    .sort((a, b) => b[1] - a[1])
-                    .slice(0, numColors)
-
-                const totalPixels = pixels.length / 4
-                const colorInfos: ColorInfo[] = sorted.map(([key, count]) => {
-                    const [r, g, b] = key.split(',').map(Number)
-                    const hex = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`
-                    return {
-                        hex: hex.toUpperCase(),
-                        rgb: `rgb(${r}, ${g}, ${b})`,
-                        count,
-                        percentage: Math.round((count / totalPixels) * 100)
-                    }
-                })
-
-                resolve(colorInfos)
+                ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+                resolve(ctx.getImageData(0, 0, canvas.width, canvas.height).data)
             }
 
             img.onerror = () => {
@@ -88,6 +79,24 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
         })
     }
 
+    // Quantize in OKLab whenever the sample or settings change
+    useEffect(() => {
+        if (!samplePixels) return
+
+        const palette = quantizePixels(samplePixels, { colorCount, method, ignoreTransparent })
+        setColors(palette.map(color => ({
+            hex: color.hex,
+            rgb: `rgb(${color.r}, ${color.g}, ${color.b})`,
+            r: color.r,
+            g: color.g,
+            b: color.b,
+            count: Math.round(color.weight),
+            percentage: color.coverage * 100
+        })))
+        // Keep names the user already typed for slots that still exist
+        setSwatchNames(prev => palette.map((_, i) => prev[i] ?? defaultSwatchName(i)))
+    }, [samplePixels, colorCount, method, ignoreTransparent])
+
     // Handle file selection
     const handleFile = useCallback(async (selectedFile: File) => {
         if (!selectedFile.type.startsWith('image/')) {
@@ -99,36 +108,23 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
         const url = URL.createObjectURL(selectedFile)
         setPreview(url)
         setColors([])
+        setSamplePixels(null)
+        setSwatchNames([])
 
         try {
             const info = await getImageInfo(selectedFile)
             setOriginalInfo(info)
 
             setIsProcessing(true)
-            const extractedColors = await extractColors(selectedFile, colorCount)
-            setColors(extractedColors)
+            setSamplePixels(await loadSamplePixels(selectedFile))
         } catch (error) {
             console.error('Error processing image:', error)
         } finally {
             setIsProcessing(false)
         }
-    }, [colorCount])
+    }, [])
 
-    // Re-extract with different color count
-    const handleColorCountChange = async (count: number) => {
-        setColorCount(count)
-        if (file) {
-            setIsProcessing(true)
-            try {
-                const extractedColors = await extractColors(file, count)
-                setColors(extractedColors)
-            } catch (error) {
-                console.error('Error extracting colors:', error)
-            } finally {
-                setIsProcessing(false)
-            }
-        }
-    }
+    useInitialFile(initialFile, handleFile)
 
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -155,13 +151,39 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
         setTimeout(() => setCopiedIndex(null), 1500)
     }
 
+    const namedSwatches = (): NamedSwatch[] => colors.map((c, i) => ({
+        name: swatchNames[i]?.trim() || defaultSwatchName(i),
+        r: c.r,
+        g: c.g,
+        b: c.b,
+        hex: c.hex
+    }))
+
+    const renameSwatch = (index: number, name: string) => {
+        setSwatchNames(prev => prev.map((n, i) => i === index ? name : n))
+    }
+
     // Copy all as CSS
     const copyAsCss = () => {
-        const css = colors.map((c, i) => `--color-${i + 1}: ${c.hex};`).join('\n')
+        const swatches = namedSwatches()
+        const slugs = swatchSlugs(swatches)
+        const css = swatches.map((c, i) => `--${slugs[i]}: ${c.hex};`).join('\n')
         navigator.clipboard.writeText(css)
         alert('CSS variables copied to clipboard!')
     }
 
+    // Download the palette for a design tool
+    const handleExport = async (format: PaletteFormat) => {
+        const info = PALETTE_FORMATS.find(f => f.id === format)!
+        try {
+            const blob = await exportPalette(format, paletteName.trim() || 'Palette', namedSwatches())
+            downloadBlob(blob, info.fileName(slugify(paletteName, 'palette')))
+        } catch (error) {
+            console.error('Error exporting palette:', error)
+            alert('Error exporting palette')
+        }
+    }
+
     // Generate gradient
     const generateGradient = () => {
         if (colors.length < 2) return ''
@@ -175,6 +197,8 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
         setPreview(null)
         setOriginalInfo(null)
         setColors([])
+        setSamplePixels(null)
+        setSwatchNames([])
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
@@ -230,7 +254,7 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
                                         <button
                                             key={n}
                                             className={`select-button ${colorCount === n ? 'active' : ''}`}
-                                            onClick={() => handleColorCountChange(n)}
+                                            onClick={() => setColorCount(n)}
                                         >
                                             {n}
                                         </button>
@@ -238,6 +262,34 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
                                 </div>
                             </div>
 
+                            <div className="control-group">
+                                <label className="control-label">
+                                    <span>Method</span>
+                                </label>
+                                <div className="select-buttons">
+                                    <button
+                                        className={`select-button ${method === 'median-cut' ? 'active' : ''}`}
+                                        onClick={() => setMethod('median-cut')}
+                                    >
+                                        Median Cut
+                                    </button>
+                                    <button
+                                        className={`select-button ${method === 'k-means' ? 'active' : ''}`}
+                                        onClick={() => setMethod('k-means')}
+                                    >
+                                        K-Means
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="toggle-container">
+                                <span style={{ color: ignoreTransparent ? '#667eea' : 'rgba(255,255,255,0.5)' }}>Ignore transparent pixels</span>
+                                <div
+                                    className={`toggle ${ignoreTransparent ? 'active' : ''}`}
+                                    onClick={() => setIgnoreTransparent(!ignoreTransparent)}
+                                />
+                            </div>
+
                             {/* Color Palette */}
                             <div style={{ marginTop: '1.5rem' }}>
                                 <h4 style={{ marginBottom: '1rem' }}>Extracted Palette</h4>
@@ -273,12 +325,21 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
                                                         border: '2px solid rgba(255,255,255,0.1)'
                                                     }}
                                                 />
-                                                <div style={{ flex: 1 }}>
-                                                    <div style={{ fontWeight: 600, fontFamily: 'monospace' }}>{color.hex}</div>
-                                                    <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>{color.rgb}</div>
+                                                <div style={{ flex: 1, minWidth: 0 }}>
+                                                    <input
+                                                        type="text"
+                                                        value={swatchNames[index] ?? ''}
+                                                        placeholder={defaultSwatchName(index)}
+                                                        onChange={(e) => renameSwatch(index, e.target.value)}
+                                                        onClick={(e) => e.stopPropagation()}
+                                                        style={{ ...inputStyle, marginBottom: '0.25rem' }}
+                                                    />
+                                                    <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                                                        <span style={{ fontWeight: 600, fontFamily: 'monospace', color: 'white' }}>{color.hex}</span> · {color.rgb}
+                                                    </div>
                                                 </div>
                                                 <div style={{ fontSize: '0.875rem', color: 'rgba(255,255,255,0.5)' }}>
-                                                    {copiedIndex === index ? '✓ Copied!' : `${color.percentage}%`}
+                                                    {copiedIndex === index ? '✓ Copied!' : `${color.percentage.toFixed(1)}%`}
                                                 </div>
                                             </div>
                                         ))
@@ -313,6 +374,85 @@ export default function ColorPaletteExtractor({ onBack }: ColorPaletteExtractorP
                         </div>
                     )}
 
+                    {/* Contrast Matrix */}
+                    {colors.length >= 2 && (
+                        <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
+                            <h4 style={{ marginBottom: '0.5rem' }}>Contrast Matrix</h4>
+                            <p style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.5)', marginBottom: '1rem' }}>
+                                Rows are text colors, columns are backgrounds. WCAG 2.x: normal text needs 4.5:1 (AA) or 7:1 (AAA); large text 3:1 or 4.5:1. APCA Lc 75+ suits body text, 60+ content text, 45+ headlines.
+                            </p>
+                            <div style={{ overflowX: 'auto' }}>
+                                <table style={{ borderCollapse: 'separate', borderSpacing: '0.375rem', fontSize: '0.75rem' }}>
+                                    <thead>
+                                        <tr>
+                                            <th style={{ color: 'rgba(255,255,255,0.5)', fontWeight: 500, textAlign: 'left' }}>Text ↓ / Bg →</th>
+                                            {colors.map((bg, col) => (
+                                                <th key={col} style={{ fontWeight: 600, minWidth: '110px' }}>
+                                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', justifyContent: 'center' }}>
+                                                        <span style={{ width: 12, height: 12, borderRadius: 3, background: bg.hex, border: '1px solid rgba(255,255,255,0.2)' }} />
+                                                        {swatchNames[col] || defaultSwatchName(col)}
+                                                    </div>
+                                                </th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {colors.map((fg, row) => (
+                                            <tr key={row}>
+                                                <th style={{ fontWeight: 600, textAlign: 'left', whiteSpace: 'nowrap' }}>
+                                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.375rem' }}>
+                                                        <span style={{ width: 12, height: 12, borderRadius: 3, background: fg.hex, border: '1px solid rgba(255,255,255,0.2)' }} />
+                                                        {swatchNames[row] || defaultSwatchName(row)}
+                                                    </div>
+                                                </th>
+                                                {colors.map((bg, col) => {
+                                                    if (row === col) {
+                                                        return <td key={col} style={{ textAlign: 'center', color: 'rgba(255,255,255,0.3)' }}>—</td>
+                                                    }
+                                                    const wcag = wcagContrast([fg.r, fg.g, fg.b], [bg.r, bg.g, bg.b])
+                                                    const lc = apcaContrast([fg.r, fg.g, fg.b], [bg.r, bg.g, bg.b])
+                                                    const normal = wcagLevel(wcag.aaaNormal, wcag.aaNormal)
+                                                    const large = wcagLevel(wcag.aaaLarge, wcag.aaLarge)
+                                                    return (
+                                                        <td key={col} style={{ padding: 0 }}>
+                                                            <div style={{ background: bg.hex, color: fg.hex, borderRadius: '8px 8px 0 0', padding: '0.5rem', textAlign: 'center' }}>
+                                                                <div style={{ fontSize: '1.125rem', fontWeight: 700 }}>Aa</div>
+                                                                <div style={{ fontWeight: 600 }}>{wcag.ratio.toFixed(2)}:1</div>
+                                                            </div>
+                                                            <div style={{ background: 'rgba(255,255,255,0.04)', borderRadius: '0 0 8px 8px', padding: '0.375rem 0.5rem', lineHeight: 1.5 }}>
+                                                                <div style={{ color: normal === 'Fail' ? '#f5576c' : '#38ef7d' }}>Normal: {normal}</div>
+                                                                <div style={{ color: large === 'Fail' ? '#f5576c' : '#38ef7d' }}>Large: {large}</div>
+                                                                <div style={{ color: 'rgba(255,255,255,0.6)' }} title={apcaUsage(lc)}>Lc {lc.toFixed(1)}</div>
+                                                            </div>
+                                                        </td>
+                                                    )
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Export */}
+                    {colors.length > 0 && (
+                        <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
+                            <h4 style={{ marginBottom: '1rem' }}>Export Palette</h4>
+                            <div className="control-group">
+                                <label className="control-label"><span>Palette Name</span></label>
+                                <input type="text" value={paletteName} onChange={(e) => setPaletteName(e.target.value)} style={inputStyle} />
+                            </div>
+                            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '0.5rem' }}>
+                                {PALETTE_FORMATS.map(format => (
+                                    <button key={format.id} className="secondary-button" onClick={() => handleExport(format.id)}>
+                                        ⬇️ {format.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Action Buttons */}
                     <div className="actions-bar">
                         <button className="secondary-button" onClick={handleReset}>
@@ -1,7 +1,9 @@
 import { useCallback, useRef, useState } from 'react'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
 import { downloadBlob, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface DeviceMockupGeneratorProps {
+interface DeviceMockupGeneratorProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -121,7 +123,7 @@ const DEVICE_FRAMES: DeviceFrame[] = [
     }
 ]
 
-export default function DeviceMockupGenerator({ onBack }: DeviceMockupGeneratorProps) {
+export default function DeviceMockupGenerator({ onBack, initialFile, onOutput }: DeviceMockupGeneratorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
@@ -321,6 +323,8 @@ export default function DeviceMockupGenerator({ onBack }: DeviceMockupGeneratorP
         setMockupBlob(null)
     }, [mockupUrl])
 
+    useInitialFile(initialFile, handleFile)
+
     // Generate mockup when device/color changes
     const handleGenerate = async () => {
         if (!file) return
@@ -357,6 +361,10 @@ export default function DeviceMockupGenerator({ onBack }: DeviceMockupGeneratorP
         if (droppedFile) handleFile(droppedFile)
     }, [handleFile])
 
+    // Publish the mockup for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_${selectedDevice.id}_mockup.png` : ''
+    usePublishOutput(onOutput, mockupBlob, outputName)
+
     // Download mockup
     const handleDownload = () => {
         if (!mockupBlob || !file) return
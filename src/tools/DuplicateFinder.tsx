@@ -1,165 +1,265 @@
-import { useCallback, useRef, useState } from 'react'
-import { formatFileSize, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
-
-interface DuplicateFinderProps {
+import JSZip from 'jszip'
+import { useCallback, useMemo, useRef, useState } from 'react'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import { formatCleanupReport, KEEP_CRITERIA, pickBest, type CleanupReportRow, type KeepCriterion, type ReportFormat } from '../utils/duplicateCleanup'
+import { ingestDataTransfer, ingestFileList, type IngestedFile, type IngestResult } from '../utils/fileIngestion'
+import { groupByDistance, HASH_METHODS, PERCEPTUAL_HASH_BITS, sha256, similarityToDistance, type HashMethod } from '../utils/imageHash'
+import { downloadBlob, formatFileSize, getImageInfo, uniqueFileNames, type ImageInfo } from '../utils/imageProcessing'
+import { runWorkerJob } from '../utils/imageWorkerClient'
+import { isAbortError, throwIfAborted, type ProgressCallback } from '../utils/taskProgress'
+import type { HandoffProps } from '../utils/toolHandoff'
+
+interface DuplicateFinderProps extends HandoffProps {
     onBack: () => void
 }
 
 interface ImageWithHash {
     file: File
+    // Path relative to the picked folder, or the file name
+    path: string
     url: string
     info: ImageInfo
-    hash: string
+    // Bit-packed hashes, filled in per method as the user switches
+    hashes: Partial<Record<HashMethod, Uint8Array>>
+    // Laplacian variance, measured when sharpness is first used to pick
+    sharpness?: number
 }
 
 interface DuplicateGroup {
-    hash: string
+    // URL of the first image, which identifies the group for manual picks
+    key: string
     images: ImageWithHash[]
+    // Similarity of each image to the first one, in percent
+    similarities: number[]
+    keepIndex: number
 }
 
-export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
+// Sharpness is compared at this size so bigger copies don't score higher just for being bigger
+const SHARPNESS_MAX_SIDE = 512
+
+export default function DuplicateFinder({ onBack, initialFile }: DuplicateFinderProps) {
     const [images, setImages] = useState<ImageWithHash[]>([])
-    const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([])
-    const [isProcessing, setIsProcessing] = useState(false)
+    const [method, setMethod] = useState<HashMethod>('phash')
+    const [similarity, setSimilarity] = useState(90)
+    const [criterion, setCriterion] = useState<KeepCriterion>('resolution')
+    // Manual keep picks: group key → URL of the image to keep
+    const [keepOverrides, setKeepOverrides] = useState<Record<string, string>>({})
+    const [isExporting, setIsExporting] = useState(false)
+    const [skippedCount, setSkippedCount] = useState(0)
     const [isDragging, setIsDragging] = useState(false)
-    const [progress, setProgress] = useState(0)
+    const hashing = useCancellableTask()
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const folderInputRef = useRef<HTMLInputElement>(null)
 
-    // Generate perceptual hash for an image
-    const generateImageHash = async (file: File): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image()
-            const url = URL.createObjectURL(file)
-
-            img.onload = () => {
-                URL.revokeObjectURL(url)
-
-                // Create small canvas for hash generation (8x8)
-                const canvas = document.createElement('canvas')
-                const size = 8
-                canvas.width = size
-                canvas.height = size
-
-                const ctx = canvas.getContext('2d')
-                if (!ctx) {
-                    reject(new Error('Failed to get canvas context'))
-                    return
-                }
-
-                // Draw image to small size
-                ctx.drawImage(img, 0, 0, size, size)
-                const imageData = ctx.getImageData(0, 0, size, size)
-                const pixels = imageData.data
+    // Perceptual hashes are computed in the image worker; exact hashes from the file bytes
+    const generateImageHash = async (file: File, hashMethod: HashMethod, signal: AbortSignal): Promise<Uint8Array> => {
+        if (hashMethod === 'sha256') return sha256(file)
+        const bitmap = await createImageBitmap(file)
+        return runWorkerJob({ type: 'perceptualHash', bitmap, method: hashMethod }, { signal })
+    }
 
-                // Calculate average brightness
-                let total = 0
-                const grayscale: number[] = []
+    // Load and hash a batch of files; a failed or cancelled batch leaves no object URLs behind
+    // Files the browser can't decode (e.g. HEIC or TIFF in most browsers) are left out and counted
+    const hashImages = async (imageFiles: IngestedFile[], hashMethod: HashMethod, signal: AbortSignal, onProgress: ProgressCallback) => {
+        const newImages: ImageWithHash[] = []
+        let failed = 0
 
-                for (let i = 0; i < pixels.length; i += 4) {
-                    const gray = pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114
-                    grayscale.push(gray)
-                    total += gray
+        try {
+            for (let i = 0; i < imageFiles.length; i++) {
+                throwIfAborted(signal)
+                const { file, path } = imageFiles[i]
+                try {
+                    const info = await getImageInfo(file)
+                    const hash = await generateImageHash(file, hashMethod, signal)
+                    const url = URL.createObjectURL(file)
+                    newImages.push({ file, path, url, info, hashes: { [hashMethod]: hash } })
+                } catch (error) {
+                    if (isAbortError(error)) throw error
+                    console.error(`Error reading ${path}:`, error)
+                    failed++
                 }
+                onProgress({ fraction: (i + 1) / imageFiles.length, label: path })
+            }
+            // Cancelled during the last file: its URLs go here rather than to a dropped result
+            throwIfAborted(signal)
+        } catch (error) {
+            newImages.forEach(img => URL.revokeObjectURL(img.url))
+            throw error
+        }
 
-                const average = total / grayscale.length
-
-                // Generate hash based on whether each pixel is above/below average
-                let hash = ''
-                for (const gray of grayscale) {
-                    hash += gray >= average ? '1' : '0'
-                }
+        return { images: newImages, failed }
+    }
 
-                resolve(hash)
-            }
+    // Fill in a method's hash for images loaded under another method
+    const rehashImages = async (imageList: ImageWithHash[], hashMethod: HashMethod, signal: AbortSignal, onProgress: ProgressCallback) => {
+        const updated: ImageWithHash[] = []
+        for (let i = 0; i < imageList.length; i++) {
+            throwIfAborted(signal)
+            const img = imageList[i]
+            const hash = img.hashes[hashMethod] ?? await generateImageHash(img.file, hashMethod, signal)
+            updated.push({ ...img, hashes: { ...img.hashes, [hashMethod]: hash } })
+            onProgress({ fraction: (i + 1) / imageList.length, label: img.path })
+        }
+        return updated
+    }
 
-            img.onerror = () => {
-                URL.revokeObjectURL(url)
-                reject(new Error('Failed to load image'))
+    // Group images within the similarity threshold using a BK-tree over the packed hashes
+    const duplicateGroups = useMemo((): DuplicateGroup[] => {
+        const hashed = images.filter(img => img.hashes[method])
+        const hashes = hashed.map(img => img.hashes[method]!)
+        const maxDistance = method === 'sha256' ? 0 : similarityToDistance(similarity)
+
+        return groupByDistance(hashes, maxDistance).map(group => {
+            const groupImages = [hashed[group.anchor], ...group.members.map(member => hashed[member.index])]
+            const key = groupImages[0].url
+            const override = groupImages.findIndex(img => img.url === keepOverrides[key])
+            const keepIndex = override >= 0 ? override : pickBest(groupImages.map(img => ({
+                width: img.info.width,
+                height: img.info.height,
+                size: img.file.size,
+                lastModified: img.file.lastModified,
+                sharpness: img.sharpness
+            })), criterion)
+
+            return {
+                key,
+                images: groupImages,
+                similarities: [100, ...group.members.map(member => ((PERCEPTUAL_HASH_BITS - member.distance) / PERCEPTUAL_HASH_BITS) * 100)],
+                keepIndex
             }
-
-            img.src = url
         })
+    }, [images, method, similarity, criterion, keepOverrides])
+
+    // Images that are a non-kept member of some group
+    const toDelete = useMemo(() => {
+        const urls = new Set<string>()
+        duplicateGroups.forEach(group => group.images.forEach((img, i) => {
+            if (i !== group.keepIndex) urls.add(img.url)
+        }))
+        return urls
+    }, [duplicateGroups])
+
+    const measureSharpness = async (imageList: ImageWithHash[], signal: AbortSignal, onProgress: ProgressCallback) => {
+        const updated: ImageWithHash[] = []
+        for (let i = 0; i < imageList.length; i++) {
+            throwIfAborted(signal)
+            const img = imageList[i]
+            const sharpness = img.sharpness ?? await runWorkerJob(
+                { type: 'sharpness', bitmap: await createImageBitmap(img.file), maxSide: SHARPNESS_MAX_SIDE },
+                { signal }
+            )
+            updated.push({ ...img, sharpness })
+            onProgress({ fraction: (i + 1) / imageList.length, label: img.path })
+        }
+        return updated
     }
 
-    // Calculate similarity between two hashes (Hamming distance)
-    const calculateSimilarity = (hash1: string, hash2: string): number => {
-        let differences = 0
-        for (let i = 0; i < hash1.length; i++) {
-            if (hash1[i] !== hash2[i]) differences++
+    // Changing the rule re-picks every group automatically, dropping manual picks
+    const handleCriterionChange = async (next: KeepCriterion) => {
+        if (next === 'sharpness' && images.some(img => img.sharpness === undefined)) {
+            try {
+                const updated = await hashing.run((signal, onProgress) => measureSharpness(images, signal, onProgress))
+                if (!updated) return
+                setImages(updated)
+            } catch (error) {
+                console.error('Error measuring sharpness:', error)
+                alert('Error measuring sharpness of some images')
+                return
+            }
         }
-        return ((hash1.length - differences) / hash1.length) * 100
+        setCriterion(next)
+        setKeepOverrides({})
     }
 
-    // Find duplicates in the image list
-    const findDuplicates = (imageList: ImageWithHash[]): DuplicateGroup[] => {
-        const groups: DuplicateGroup[] = []
-        const processed = new Set<number>()
-
-        for (let i = 0; i < imageList.length; i++) {
-            if (processed.has(i)) continue
+    const handleKeep = (group: DuplicateGroup, index: number) => {
+        setKeepOverrides(prev => ({ ...prev, [group.key]: group.images[index].url }))
+    }
 
-            const group: ImageWithHash[] = [imageList[i]]
-            processed.add(i)
+    // ZIP of everything except the copies marked for deletion
+    const handleDownloadUnique = async () => {
+        const keep = images.filter(img => !toDelete.has(img.url))
+        if (keep.length === 0) return
 
-            for (let j = i + 1; j < imageList.length; j++) {
-                if (processed.has(j)) continue
+        setIsExporting(true)
+        try {
+            const zip = new JSZip()
+            const names = uniqueFileNames(keep.map(img => img.path))
+            keep.forEach((img, i) => zip.file(names[i], img.file))
 
-                const similarity = calculateSimilarity(imageList[i].hash, imageList[j].hash)
+            const content = await zip.generateAsync({ type: 'blob' })
+            downloadBlob(content, 'unique_images.zip')
+        } catch (error) {
+            console.error('Error creating ZIP:', error)
+            alert('Error creating ZIP file')
+        } finally {
+            setIsExporting(false)
+        }
+    }
 
-                // Consider images as duplicates if similarity >= 90%
-                if (similarity >= 90) {
-                    group.push(imageList[j])
-                    processed.add(j)
-                }
-            }
+    // Keep/delete report for every image in a duplicate group
+    const handleDownloadReport = (format: ReportFormat) => {
+        const rows: CleanupReportRow[] = []
+        duplicateGroups.forEach((group, groupIndex) => {
+            const kept = group.images[group.keepIndex]
+            group.images.forEach((img, i) => rows.push({
+                group: groupIndex + 1,
+                action: i === group.keepIndex ? 'keep' : 'delete',
+                path: img.path,
+                keptPath: kept.path,
+                width: img.info.width,
+                height: img.info.height,
+                sizeBytes: img.file.size,
+                modified: new Date(img.file.lastModified).toISOString(),
+                similarity: Math.round(group.similarities[i] * 10) / 10
+            }))
+        })
+        downloadBlob(formatCleanupReport(rows, format), `duplicate_report.${format}`)
+    }
 
-            // Only add to groups if there are duplicates
-            if (group.length > 1) {
-                groups.push({ hash: imageList[i].hash, images: group })
-            }
+    // Switch hashing method, hashing existing images first; a cancelled switch keeps the old method
+    const handleMethodChange = async (next: HashMethod) => {
+        if (next === method) return
+        if (images.every(img => img.hashes[next])) {
+            setMethod(next)
+            return
         }
 
-        return groups
+        try {
+            const updated = await hashing.run((signal, onProgress) => rehashImages(images, next, signal, onProgress))
+            if (!updated) return
+            setImages(updated)
+            setMethod(next)
+        } catch (error) {
+            console.error('Error hashing images:', error)
+            alert('Error hashing some images')
+        }
     }
 
-    // Handle file selection
-    const handleFiles = useCallback(async (selectedFiles: FileList) => {
-        const imageFiles = Array.from(selectedFiles).filter(f => f.type.startsWith('image/'))
+    // Handle picked files, folders or a dropped directory tree
+    const handleFiles = useCallback(async ({ files: imageFiles, skipped }: IngestResult) => {
+        setSkippedCount(prev => prev + skipped)
 
         if (imageFiles.length === 0) {
-            alert('Please select image files')
+            alert(skipped > 0 ? `No images found (${skipped} other file${skipped > 1 ? 's' : ''} skipped)` : 'Please select image files')
             return
         }
 
-        setIsProcessing(true)
-        setProgress(0)
-
-        const newImages: ImageWithHash[] = []
-
         try {
-            for (let i = 0; i < imageFiles.length; i++) {
-                const file = imageFiles[i]
-                const url = URL.createObjectURL(file)
-                const info = await getImageInfo(file)
-                const hash = await generateImageHash(file)
-
-                newImages.push({ file, url, info, hash })
-                setProgress(Math.round(((i + 1) / imageFiles.length) * 100))
-            }
-
-            const allImages = [...images, ...newImages]
-            setImages(allImages)
+            const hashed = await hashing.run((signal, onProgress) => hashImages(imageFiles, method, signal, onProgress))
+            if (!hashed) return
 
-            // Find duplicates
-            const groups = findDuplicates(allImages)
-            setDuplicateGroups(groups)
+            setSkippedCount(prev => prev + hashed.failed)
+            setImages(prev => [...prev, ...hashed.images])
+            if (hashed.images.length === 0) alert('None of these images could be read by your browser')
         } catch (error) {
             console.error('Error processing images:', error)
             alert('Error processing some images')
-        } finally {
-            setIsProcessing(false)
         }
-    }, [images])
+    }, [method, hashing.run])
+
+    const handleInitialFile = useCallback((selectedFile: File) => handleFiles(ingestFileList([selectedFile])), [handleFiles])
+    useInitialFile(initialFile, handleInitialFile)
 
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -175,8 +275,11 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault()
         setIsDragging(false)
-        if (e.dataTransfer.files.length > 0) {
-            handleFiles(e.dataTransfer.files)
+        if (e.dataTransfer.items.length > 0) {
+            ingestDataTransfer(e.dataTransfer).then(handleFiles).catch(error => {
+                console.error('Error reading dropped files:', error)
+                alert('Error reading dropped files')
+            })
         }
     }, [handleFiles])
 
@@ -186,20 +289,22 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
         URL.revokeObjectURL(newImages[index].url)
         newImages.splice(index, 1)
         setImages(newImages)
-        setDuplicateGroups(findDuplicates(newImages))
     }
 
     // Reset
     const handleReset = () => {
         images.forEach(img => URL.revokeObjectURL(img.url))
         setImages([])
-        setDuplicateGroups([])
-        setProgress(0)
+        setKeepOverrides({})
+        setSkippedCount(0)
+        hashing.cancel()
         if (fileInputRef.current) fileInputRef.current.value = ''
+        if (folderInputRef.current) folderInputRef.current.value = ''
     }
 
-    const uniqueCount = images.length - duplicateGroups.reduce((acc, g) => acc + g.images.length - 1, 0)
-    const duplicateCount = duplicateGroups.reduce((acc, g) => acc + g.images.length - 1, 0)
+    const uniqueCount = images.length - toDelete.size
+    const duplicateCount = toDelete.size
+    const reclaimableBytes = images.filter(img => toDelete.has(img.url)).reduce((acc, img) => acc + img.file.size, 0)
 
     return (
         <div className="tool-page">
@@ -219,18 +324,78 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                 <div className="dropzone-content">
                     <div className="dropzone-icon">🔍</div>
                     <p className="dropzone-text">Drop multiple images here or click to browse</p>
-                    <p className="dropzone-hint">Uses perceptual hashing to find visually similar images</p>
+                    <p className="dropzone-hint">Uses perceptual hashing to find visually similar images • Folders and subfolders work too</p>
+                    <button
+                        className="secondary-button"
+                        onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click() }}
+                        style={{ marginTop: '1rem' }}
+                    >
+                        📁 Select Folder
+                    </button>
                 </div>
                 <input
                     ref={fileInputRef}
                     type="file"
                     accept="image/*"
                     multiple
-                    onChange={(e) => e.target.files && handleFiles(e.target.files)}
+                    onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
+                    style={{ display: 'none' }}
+                />
+                <input
+                    ref={folderInputRef}
+                    type="file"
+                    {...{ webkitdirectory: '' }}
+                    onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
                     style={{ display: 'none' }}
                 />
             </div>
 
+            {/* Matching Options */}
+            <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
+                <div className="control-group">
+                    <label className="control-label">
+                        <span>Hashing Method</span>
+                    </label>
+                    <div className="select-buttons">
+                        {HASH_METHODS.map(m => (
+                            <button
+                                key={m.id}
+                                className={`select-button ${method === m.id ? 'active' : ''}`}
+                                onClick={() => handleMethodChange(m.id)}
+                                title={m.description}
+                            >
+                                {m.name}
+                            </button>
+                        ))}
+                    </div>
+                    <p style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)', marginTop: '0.5rem' }}>
+                        {HASH_METHODS.find(m => m.id === method)?.description}
+                    </p>
+                </div>
+
+                {method !== 'sha256' && (
+                    <div className="control-group">
+                        <label className="control-label">
+                            <span>Similarity Threshold</span>
+                            <span className="control-value">{similarity}%</span>
+                        </label>
+                        <div className="slider-container">
+                            <div className="slider-fill" style={{ width: `${((similarity - 70) / 30) * 100}%` }} />
+                            <input
+                                type="range"
+                                min="70"
+                                max="100"
+                                value={similarity}
+                                onChange={(e) => setSimilarity(Number(e.target.value))}
+                            />
+                        </div>
+                        <p style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)', marginTop: '0.5rem' }}>
+                            Up to {similarityToDistance(similarity)} of {PERCEPTUAL_HASH_BITS} bits may differ
+                        </p>
+                    </div>
+                )}
+            </div>
+
             {/* Stats */}
             {images.length > 0 && (
                 <div className="image-info" style={{ marginTop: '1.5rem', justifyContent: 'center' }}>
@@ -248,6 +413,18 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                             <span className="info-badge-value" style={{ color: '#f5576c' }}>{duplicateCount}</span>
                         </span>
                     )}
+                    {skippedCount > 0 && (
+                        <span className="info-badge">
+                            <span className="info-badge-label">Skipped:</span>
+                            <span className="info-badge-value">{skippedCount} non-image or unreadable</span>
+                        </span>
+                    )}
+                    {duplicateCount > 0 && (
+                        <span className="info-badge">
+                            <span className="info-badge-label">Reclaimable:</span>
+                            <span className="info-badge-value">{formatFileSize(reclaimableBytes)}</span>
+                        </span>
+                    )}
                 </div>
             )}
 
@@ -258,6 +435,35 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                         ⚠️ Found {duplicateGroups.length} Duplicate Group{duplicateGroups.length > 1 ? 's' : ''}
                     </h4>
 
+                    <div className="control-group">
+                        <label className="control-label">
+                            <span>Keep the Best Copy By</span>
+                        </label>
+                        <div className="select-buttons">
+                            {KEEP_CRITERIA.map(c => (
+                                <button
+                                    key={c.id}
+                                    className={`select-button ${criterion === c.id ? 'active' : ''}`}
+                                    onClick={() => handleCriterionChange(c.id)}
+                                    title={c.description}
+                                >
+                                    {c.name}
+                                </button>
+                            ))}
+                        </div>
+                        <p style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)', marginTop: '0.5rem' }}>
+                            Click an image to keep it instead.
+                            {Object.keys(keepOverrides).length > 0 && (
+                                <button
+                                    onClick={() => setKeepOverrides({})}
+                                    style={{ marginLeft: '0.5rem', background: 'none', border: 'none', color: '#667eea', cursor: 'pointer', fontSize: '0.75rem', padding: 0 }}
+                                >
+                                    Reset picks
+                                </button>
+                            )}
+                        </p>
+                    </div>
+
                     {duplicateGroups.map((group, groupIndex) => (
                         <div key={groupIndex} style={{
                             marginBottom: '1rem',
@@ -267,23 +473,28 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                             border: '1px solid rgba(245, 87, 108, 0.3)'
                         }}>
                             <div style={{ marginBottom: '0.75rem', fontSize: '0.875rem', color: 'rgba(255,255,255,0.7)' }}>
-                                Group {groupIndex + 1} - {group.images.length} similar images
+                                Group {groupIndex + 1} - {group.images.length} {method === 'sha256' ? 'identical' : 'similar'} images
                             </div>
                             <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
                                 {group.images.map((img, imgIndex) => (
-                                    <div key={imgIndex} style={{ position: 'relative' }}>
+                                    <div
+                                        key={imgIndex}
+                                        onClick={() => handleKeep(group, imgIndex)}
+                                        title={`${img.path} — ${img.info.width}×${img.info.height}`}
+                                        style={{ position: 'relative', cursor: 'pointer' }}
+                                    >
                                         <img
                                             src={img.url}
-                                            alt={img.file.name}
+                                            alt={img.path}
                                             style={{
                                                 width: '100px',
                                                 height: '100px',
                                                 objectFit: 'cover',
                                                 borderRadius: '8px',
-                                                border: imgIndex === 0 ? '2px solid #38ef7d' : '2px solid #f5576c'
+                                                border: imgIndex === group.keepIndex ? '2px solid #38ef7d' : '2px solid #f5576c'
                                             }}
                                         />
-                                        {imgIndex === 0 && (
+                                        {imgIndex === group.keepIndex && (
                                             <div style={{
                                                 position: 'absolute',
                                                 top: '-8px',
@@ -298,7 +509,7 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                                                 Keep
                                             </div>
                                         )}
-                                        {imgIndex > 0 && (
+                                        {imgIndex !== group.keepIndex && (
                                             <div style={{
                                                 position: 'absolute',
                                                 top: '-8px',
@@ -323,6 +534,10 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                                             width: '100px'
                                         }}>
                                             {formatFileSize(img.info.size)}
+                                            {imgIndex > 0 && method !== 'sha256' && ` · ${group.similarities[imgIndex].toFixed(0)}%`}
+                                        </div>
+                                        <div style={{ fontSize: '0.7rem', color: 'rgba(255,255,255,0.4)' }}>
+                                            {img.info.width}×{img.info.height}
                                         </div>
                                     </div>
                                 ))}
@@ -333,7 +548,7 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
             )}
 
             {/* All Images Grid */}
-            {images.length > 0 && duplicateGroups.length === 0 && !isProcessing && (
+            {images.length > 0 && duplicateGroups.length === 0 && !hashing.isRunning && (
                 <div style={{
                     marginTop: '1.5rem',
                     padding: '1rem',
@@ -356,7 +571,7 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                             <div key={index} style={{ position: 'relative' }}>
                                 <img
                                     src={img.url}
-                                    alt={img.file.name}
+                                    alt={img.path}
                                     style={{
                                         width: '60px',
                                         height: '60px',
@@ -397,6 +612,19 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                     <button className="secondary-button" onClick={handleReset}>
                         🔄 Clear All
                     </button>
+                    {duplicateGroups.length > 0 && (
+                        <>
+                            <button className="secondary-button" onClick={() => handleDownloadReport('csv')}>
+                                📄 Report (CSV)
+                            </button>
+                            <button className="secondary-button" onClick={() => handleDownloadReport('json')}>
+                                📄 Report (JSON)
+                            </button>
+                            <button className="secondary-button" onClick={handleDownloadUnique} disabled={isExporting}>
+                                {isExporting ? '⏳ Zipping...' : `📦 Unique Images (${uniqueCount})`}
+                            </button>
+                        </>
+                    )}
                     <button
                         className="download-button"
                         onClick={() => fileInputRef.current?.click()}
@@ -407,7 +635,7 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
             )}
 
             {/* Processing Overlay */}
-            {isProcessing && (
+            {hashing.isRunning && (
                 <div className="processing-overlay">
                     <div className="processing-content">
                         <div className="processing-spinner" />
@@ -421,14 +649,17 @@ export default function DuplicateFinder({ onBack }: DuplicateFinderProps) {
                             overflow: 'hidden'
                         }}>
                             <div style={{
-                                width: `${progress}%`,
+                                width: `${hashing.percent}%`,
                                 height: '100%',
                                 background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
                                 borderRadius: '4px',
                                 transition: 'width 0.3s ease'
                             }} />
                         </div>
-                        <div style={{ marginTop: '0.5rem', color: 'rgba(255,255,255,0.5)' }}>{progress}%</div>
+                        <div style={{ marginTop: '0.5rem', color: 'rgba(255,255,255,0.5)' }}>{hashing.percent}%</div>
+                        <button className="secondary-button" onClick={hashing.cancel} style={{ marginTop: '1rem' }}>
+                            ✖ Cancel
+                        </button>
                     </div>
                 </div>
             )}
@@ -1,111 +1,40 @@
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
 import { downloadBlob, formatFileSize, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
-
-interface ExifCleanerProps {
+import { getTagValue, METADATA_GROUPS, readMetadata, type ImageMetadata } from '../utils/metadata'
+import {
+    DEFAULT_KEPT_CATEGORIES,
+    METADATA_CATEGORIES,
+    stripMetadata,
+    type MetadataCategory,
+    type StripResult
+} from '../utils/metadataStripper'
+import type { HandoffProps } from '../utils/toolHandoff'
+
+interface ExifCleanerProps extends HandoffProps {
     onBack: () => void
 }
 
-interface ExifData {
-    [key: string]: string | number | undefined
+const CLEAN_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif'
 }
 
-export default function ExifCleaner({ onBack }: ExifCleanerProps) {
+export default function ExifCleaner({ onBack, initialFile, onOutput }: ExifCleanerProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
-    const [exifData, setExifData] = useState<ExifData | null>(null)
-    const [cleanedBlob, setCleanedBlob] = useState<Blob | null>(null)
+    const [metadata, setMetadata] = useState<ImageMetadata | null>(null)
+    const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null)
+    const [keepCategories, setKeepCategories] = useState<MetadataCategory[]>(DEFAULT_KEPT_CATEGORIES)
+    const [cleanResult, setCleanResult] = useState<StripResult | null>(null)
+    const [remainingTags, setRemainingTags] = useState(0)
     const [isProcessing, setIsProcessing] = useState(false)
     const [isDragging, setIsDragging] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
-    // Parse EXIF data from image
-    const parseExifData = async (imageFile: File): Promise<ExifData> => {
-        return new Promise((resolve) => {
-            const reader = new FileReader()
-            reader.onload = (e) => {
-                const view = new DataView(e.target?.result as ArrayBuffer)
-
-                // Check for JPEG SOI marker
-                if (view.getUint16(0) !== 0xFFD8) {
-                    resolve({})
-                    return
-                }
-
-                const exif: ExifData = {}
-                let offset = 2
-
-                while (offset < view.byteLength) {
-                    if (view.getUint16(offset) === 0xFFE1) {
-                        // Found EXIF APP1 marker
-                        const exifHeader = view.getUint32(offset + 4)
-                        if (exifHeader === 0x45786966) {
-                            // "Exif" header found
-                            exif['Has EXIF Data'] = 'Yes'
-                            exif['⚠️ Location Data'] = 'Potentially present'
-                            exif['⚠️ Camera Info'] = 'Potentially present'
-                            exif['⚠️ Date/Time'] = 'Potentially present'
-                            exif['⚠️ Software'] = 'Potentially present'
-                        }
-                        break
-                    }
-
-                    // Move to next marker
-                    const markerLength = view.getUint16(offset + 2)
-                    offset += 2 + markerLength
-                }
-
-                if (Object.keys(exif).length === 0) {
-                    exif['Has EXIF Data'] = 'No metadata found'
-                }
-
-                resolve(exif)
-            }
-            reader.readAsArrayBuffer(imageFile)
-        })
-    }
-
-    // Remove EXIF data by re-encoding the image
-    const removeExifData = async (imageFile: File): Promise<Blob> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image()
-            const url = URL.createObjectURL(imageFile)
-
-            img.onload = () => {
-                URL.revokeObjectURL(url)
-
-                const canvas = document.createElement('canvas')
-                canvas.width = img.width
-                canvas.height = img.height
-
-                const ctx = canvas.getContext('2d')
-                if (!ctx) {
-                    reject(new Error('Failed to get canvas context'))
-                    return
-                }
-
-                ctx.drawImage(img, 0, 0)
-
-                // Convert to blob without EXIF
-                canvas.toBlob(
-                    (blob) => {
-                        if (blob) resolve(blob)
-                        else reject(new Error('Failed to create clean image'))
-                    },
-                    imageFile.type === 'image/png' ? 'image/png' : 'image/jpeg',
-                    0.95
-                )
-            }
-
-            img.onerror = () => {
-                URL.revokeObjectURL(url)
-                reject(new Error('Failed to load image'))
-            }
-
-            img.src = url
-        })
-    }
-
     // Handle file selection
     const handleFile = useCallback(async (selectedFile: File) => {
         if (!selectedFile.type.startsWith('image/')) {
@@ -116,19 +45,31 @@ export default function ExifCleaner({ onBack }: ExifCleanerProps) {
         setFile(selectedFile)
         const url = URL.createObjectURL(selectedFile)
         setPreview(url)
-        setCleanedBlob(null)
+        setCleanResult(null)
 
         try {
             const info = await getImageInfo(selectedFile)
             setOriginalInfo(info)
 
-            const exif = await parseExifData(selectedFile)
-            setExifData(exif)
+            setMetadata(await readMetadata(selectedFile))
         } catch (error) {
             console.error('Error processing image:', error)
         }
     }, [])
 
+    useInitialFile(initialFile, handleFile)
+
+    // Show the embedded EXIF thumbnail, which can reveal the uncropped original
+    useEffect(() => {
+        if (!metadata?.thumbnail) {
+            setThumbnailUrl(null)
+            return
+        }
+        const url = URL.createObjectURL(metadata.thumbnail)
+        setThumbnailUrl(url)
+        return () => URL.revokeObjectURL(url)
+    }, [metadata])
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -147,14 +88,22 @@ export default function ExifCleaner({ onBack }: ExifCleanerProps) {
         if (droppedFile) handleFile(droppedFile)
     }, [handleFile])
 
-    // Clean the image
+    // Changing what to keep invalidates a previous clean
+    const toggleKeep = (category: MetadataCategory) => {
+        setKeepCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category])
+        setCleanResult(null)
+    }
+
+    // Clean the image by dropping metadata blocks; pixel data is copied as-is
     const handleClean = async () => {
         if (!file) return
 
         setIsProcessing(true)
         try {
-            const blob = await removeExifData(file)
-            setCleanedBlob(blob)
+            const result = await stripMetadata(file, keepCategories)
+            const remaining = await readMetadata(result.blob)
+            setCleanResult(result)
+            setRemainingTags(remaining.tags.length)
         } catch (error) {
             console.error('Error cleaning image:', error)
             alert('Error processing image')
@@ -163,22 +112,45 @@ export default function ExifCleaner({ onBack }: ExifCleanerProps) {
         }
     }
 
+    // Keep the original format; only the PNG fallback changes the extension
+    const cleanedBlob = cleanResult?.blob ?? null
+    const originalExt = file?.name.split('.').pop() ?? 'jpg'
+    const outputName = file && cleanedBlob
+        ? `${file.name.replace(/\.[^/.]+$/, '')}_clean.${CLEAN_EXTENSIONS[cleanedBlob.type] ?? originalExt}`
+        : ''
+
+    // Publish the cleaned image for handoff to other tools
+    usePublishOutput(onOutput, cleanedBlob, outputName)
+
     // Download cleaned image
     const handleDownload = () => {
-        if (!cleanedBlob || !file) return
-        const baseName = file.name.replace(/\.[^/.]+$/, '')
-        const ext = file.type === 'image/png' ? 'png' : 'jpg'
-        downloadBlob(cleanedBlob, `${baseName}_clean.${ext}`)
+        if (!cleanedBlob) return
+        downloadBlob(cleanedBlob, outputName)
     }
 
+    const categoryLabel = (id: MetadataCategory) => METADATA_CATEGORIES.find(c => c.id === id)?.label ?? id
+
+    // Summary of the most revealing fields
+    const hasMetadata = !!metadata && metadata.tags.length > 0
+    const highlights = metadata ? [
+        { label: 'Location', value: metadata.gps ? `${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}${metadata.gps.altitude !== undefined ? ` · ${Math.round(metadata.gps.altitude)} m` : ''}` : undefined },
+        { label: 'Camera', value: [getTagValue(metadata, 'Make'), getTagValue(metadata, 'Model')].filter(Boolean).join(' ') || undefined },
+        { label: 'Lens', value: getTagValue(metadata, 'LensModel') ?? getTagValue(metadata, 'LensSpecification') },
+        { label: 'Taken', value: getTagValue(metadata, 'DateTimeOriginal') ?? getTagValue(metadata, 'DateTime') ?? getTagValue(metadata, 'DateCreated') },
+        { label: 'Software', value: getTagValue(metadata, 'Software') ?? getTagValue(metadata, 'xmp:CreatorTool') },
+        { label: 'Author', value: getTagValue(metadata, 'Artist') ?? getTagValue(metadata, 'By-line') ?? getTagValue(metadata, 'dc:creator') },
+        { label: 'Serial Number', value: getTagValue(metadata, 'BodySerialNumber') },
+        { label: 'Orientation', value: getTagValue(metadata, 'Orientation') }
+    ].filter((item): item is { label: string; value: string } => !!item.value) : []
+
     // Reset
     const handleReset = () => {
         if (preview) URL.revokeObjectURL(preview)
         setFile(null)
         setPreview(null)
         setOriginalInfo(null)
-        setExifData(null)
-        setCleanedBlob(null)
+        setMetadata(null)
+        setCleanResult(null)
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
@@ -227,44 +199,127 @@ export default function ExifCleaner({ onBack }: ExifCleanerProps) {
                         </div>
                     </div>
 
-                    {/* EXIF Data Display */}
-                    {exifData && (
+                    {/* Metadata Display */}
+                    {metadata && (
                         <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
-                            <h3 style={{ marginBottom: '1rem', color: exifData['Has EXIF Data'] === 'Yes' ? '#f5576c' : '#38ef7d' }}>
-                                {exifData['Has EXIF Data'] === 'Yes' ? '⚠️ Metadata Found' : '✅ No Metadata Found'}
+                            <h3 style={{ marginBottom: '1rem', color: hasMetadata ? '#f5576c' : '#38ef7d' }}>
+                                {hasMetadata ? `⚠️ ${metadata.tags.length} Metadata Fields Found` : '✅ No Metadata Found'}
                             </h3>
 
-                            {exifData['Has EXIF Data'] === 'Yes' && (
-                                <div style={{ display: 'grid', gap: '0.75rem' }}>
-                                    {Object.entries(exifData).map(([key, value]) => (
-                                        key !== 'Has EXIF Data' && (
-                                            <div key={key} className="info-badge" style={{ justifyContent: 'space-between', width: '100%' }}>
-                                                <span className="info-badge-label">{key}</span>
-                                                <span className="info-badge-value" style={{ color: '#f5576c' }}>{String(value)}</span>
-                                            </div>
-                                        )
+                            {/* What the file reveals at a glance */}
+                            {highlights.length > 0 && (
+                                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '0.75rem', marginBottom: '1rem' }}>
+                                    {highlights.map(item => (
+                                        <div key={item.label} style={{ padding: '0.75rem 1rem', background: 'rgba(245, 87, 108, 0.1)', borderRadius: '12px' }}>
+                                            <div style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.5)' }}>{item.label}</div>
+                                            <div style={{ fontWeight: 600, color: '#f5576c', wordBreak: 'break-word' }}>{item.value}</div>
+                                        </div>
                                     ))}
                                 </div>
                             )}
 
-                            {!cleanedBlob && exifData['Has EXIF Data'] === 'Yes' && (
+                            {metadata.gps && (
+                                <p style={{ marginBottom: '1rem', fontSize: '0.9rem' }}>
+                                    📍 <a
+                                        href={`https://www.openstreetmap.org/?mlat=${metadata.gps.latitude}&mlon=${metadata.gps.longitude}#map=15/${metadata.gps.latitude}/${metadata.gps.longitude}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        style={{ color: '#667eea' }}
+                                    >
+                                        View where this photo was taken
+                                    </a>
+                                </p>
+                            )}
+
+                            {thumbnailUrl && (
+                                <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '1rem' }}>
+                                    <img src={thumbnailUrl} alt="Embedded thumbnail" style={{ maxWidth: 120, maxHeight: 120, borderRadius: '8px' }} />
+                                    <p style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.6)' }}>
+                                        Embedded preview image. It is stored separately from the main picture and may still show content you cropped or edited out.
+                                    </p>
+                                </div>
+                            )}
+
+                            {/* Every decoded tag, grouped by where it lives in the file */}
+                            {METADATA_GROUPS.map(group => {
+                                const tags = metadata.tags.filter(tag => tag.group === group.id)
+                                if (tags.length === 0) return null
+                                return (
+                                    <details key={group.id} open={group.id === 'GPS'} style={{ marginBottom: '0.75rem' }}>
+                                        <summary style={{ cursor: 'pointer', fontWeight: 600, marginBottom: '0.5rem' }}>
+                                            {group.label} ({tags.length})
+                                        </summary>
+                                        <div style={{ display: 'grid', gap: '0.5rem' }}>
+                                            {tags.map((tag, i) => (
+                                                <div key={`${tag.name}-${i}`} className="info-badge" style={{ justifyContent: 'space-between', width: '100%', gap: '1rem' }}>
+                                                    <span className="info-badge-label">{tag.name}</span>
+                                                    <span className="info-badge-value" style={{ color: tag.sensitive ? '#f5576c' : undefined, textAlign: 'right', wordBreak: 'break-word' }}>
+                                                        {tag.value}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </details>
+                                )
+                            })}
+
+                            {!cleanedBlob && hasMetadata && (
                                 <div style={{ marginTop: '1rem', padding: '1rem', background: 'rgba(245, 87, 108, 0.1)', borderRadius: '12px' }}>
                                     <p style={{ color: '#f5576c', fontSize: '0.9rem' }}>
-                                        🚨 This image may contain sensitive data like your location, device info, and when it was taken!
+                                        🚨 Fields in red can identify you, your device, or where and when this image was taken!
                                     </p>
                                 </div>
                             )}
 
-                            {cleanedBlob && (
+                            {cleanResult && (
                                 <div style={{ marginTop: '1rem', padding: '1rem', background: 'rgba(56, 239, 125, 0.1)', borderRadius: '12px' }}>
                                     <p style={{ color: '#38ef7d', fontSize: '0.9rem' }}>
-                                        ✅ Image cleaned! All metadata has been removed. Safe to share.
+                                        {cleanResult.lossless
+                                            ? `✅ Image cleaned without re-encoding. Pixel data is untouched (${formatFileSize(file.size)} → ${formatFileSize(cleanResult.blob.size)}).`
+                                            : '✅ Image cleaned. This format has no lossless path, so it was redrawn and saved as PNG.'}
                                     </p>
+                                    {cleanResult.removed.length > 0 && (
+                                        <p style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.7)', marginTop: '0.5rem' }}>
+                                            Removed: {cleanResult.removed.map(categoryLabel).join(', ')}
+                                        </p>
+                                    )}
+                                    {keepCategories.length > 0 && (
+                                        <p style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.7)', marginTop: '0.25rem' }}>
+                                            Kept on request: {keepCategories.map(categoryLabel).join(', ')} · {remainingTags} fields remain
+                                        </p>
+                                    )}
                                 </div>
                             )}
                         </div>
                     )}
 
+                    {/* Categories to keep */}
+                    {hasMetadata && !cleanResult && (
+                        <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
+                            <div className="control-group">
+                                <label className="control-label">
+                                    <span>Keep These Categories</span>
+                                    <span className="control-value">{keepCategories.length === 0 ? 'Remove everything' : `${keepCategories.length} kept`}</span>
+                                </label>
+                                <div className="select-buttons" style={{ flexWrap: 'wrap' }}>
+                                    {METADATA_CATEGORIES.map(category => (
+                                        <button
+                                            key={category.id}
+                                            className={`select-button ${keepCategories.includes(category.id) ? 'active' : ''}`}
+                                            onClick={() => toggleKeep(category.id)}
+                                            title={category.description}
+                                        >
+                                            {category.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <p style={{ marginTop: '0.75rem', fontSize: '0.8rem', color: 'rgba(255,255,255,0.5)' }}>
+                                    Highlighted categories stay in the file. Everything else is cut out byte-for-byte, with no re-compression.
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Action Buttons */}
                     <div className="actions-bar">
                         <button className="secondary-button" onClick={handleReset}>
@@ -276,7 +331,7 @@ export default function ExifCleaner({ onBack }: ExifCleanerProps) {
                                 onClick={handleClean}
                                 disabled={isProcessing}
                             >
-                                {isProcessing ? '⏳ Cleaning...' : '🧹 Remove All Metadata'}
+                                {isProcessing ? '⏳ Cleaning...' : keepCategories.length > 0 ? '🧹 Remove Metadata' : '🧹 Remove All Metadata'}
                             </button>
                         ) : (
                             <button className="download-button" onClick={handleDownload}>
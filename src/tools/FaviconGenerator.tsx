@@ -1,8 +1,22 @@
 import JSZip from 'jszip'
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import { encodeIco, ICO_OPTIONAL_SIZE, ICO_SIZES, type IcoEntryFormat } from '../utils/icoEncoder'
 import { downloadBlob } from '../utils/imageProcessing'
-
-interface FaviconGeneratorProps {
+import type { HandoffProps } from '../utils/toolHandoff'
+import {
+    buildBrowserConfig,
+    buildHtmlSnippet,
+    buildManifest,
+    DEFAULT_MANIFEST_CONFIG,
+    DISPLAY_MODES,
+    MASKABLE_SIZES,
+    maskableIconName,
+    MS_TILES,
+    type ManifestConfig
+} from '../utils/webManifest'
+
+interface FaviconGeneratorProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -25,16 +39,33 @@ const FAVICON_SIZES: FaviconSize[] = [
     { size: 512, name: 'android-chrome-512x512.png', description: 'Android splash' }
 ]
 
-export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
+interface RenderOptions {
+    // Fraction of the shorter side left empty around the logo
+    padding?: number
+    background?: string
+}
+
+// Windows tiles sit on TileColor, so the logo gets breathing room and no fill
+const MSTILE_PADDING = 0.15
+
+const inputStyle = { width: '100%', padding: '0.75rem', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: 'white' }
+
+export default function FaviconGenerator({ onBack, initialFile }: FaviconGeneratorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [generatedFavicons, setGeneratedFavicons] = useState<Map<number, { blob: Blob; url: string }>>(new Map())
     const [isProcessing, setIsProcessing] = useState(false)
     const [isDragging, setIsDragging] = useState(false)
+    const [icoFormat, setIcoFormat] = useState<IcoEntryFormat>('png')
+    const [icoInclude64, setIcoInclude64] = useState(false)
+    const [manifestConfig, setManifestConfig] = useState<ManifestConfig>(DEFAULT_MANIFEST_CONFIG)
+    const [maskablePadding, setMaskablePadding] = useState(20)
+    const [maskableBackground, setMaskableBackground] = useState('#ffffff')
+    const [maskablePreview, setMaskablePreview] = useState<string | null>(null)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
-    // Generate favicon at specific size
-    const generateFavicon = async (imageFile: File, size: number): Promise<Blob> => {
+    // Render the center-cropped logo into a width×height canvas
+    const renderIcon = async (imageFile: File, width: number, height: number, options: RenderOptions = {}): Promise<Blob> => {
         return new Promise((resolve, reject) => {
             const img = new Image()
             const url = URL.createObjectURL(imageFile)
@@ -43,8 +74,8 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
                 URL.revokeObjectURL(url)
 
                 const canvas = document.createElement('canvas')
-                canvas.width = size
-                canvas.height = size
+                canvas.width = width
+                canvas.height = height
 
                 const ctx = canvas.getContext('2d')
                 if (!ctx) {
@@ -56,12 +87,23 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
                 ctx.imageSmoothingEnabled = true
                 ctx.imageSmoothingQuality = 'high'
 
-                // Center crop to square
-                const minDim = Math.min(img.width, img.height)
-                const sx = (img.width - minDim) / 2
-                const sy = (img.height - minDim) / 2
+                if (options.background) {
+                    ctx.fillStyle = options.background
+                    ctx.fillRect(0, 0, width, height)
+                }
 
-                ctx.drawImage(img, sx, sy, minDim, minDim, 0, 0, size, size)
+                // Center crop to square; SVGs without intrinsic size report 0
+                const imgWidth = img.naturalWidth || width
+                const imgHeight = img.naturalHeight || height
+                const minDim = Math.min(imgWidth, imgHeight)
+                const sx = (imgWidth - minDim) / 2
+                const sy = (imgHeight - minDim) / 2
+
+                const logoSize = Math.min(width, height) * (1 - 2 * (options.padding ?? 0))
+                const dx = (width - logoSize) / 2
+                const dy = (height - logoSize) / 2
+
+                ctx.drawImage(img, sx, sy, minDim, minDim, dx, dy, logoSize, logoSize)
 
                 canvas.toBlob(
                     (blob) => {
@@ -86,7 +128,7 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
         const newFavicons = new Map<number, { blob: Blob; url: string }>()
 
         for (const { size } of FAVICON_SIZES) {
-            const blob = await generateFavicon(imageFile, size)
+            const blob = await renderIcon(imageFile, size, size)
             newFavicons.set(size, { blob, url: URL.createObjectURL(blob) })
         }
 
@@ -121,6 +163,32 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
         }
     }, [generatedFavicons])
 
+    useInitialFile(initialFile, handleFile)
+
+    // Live maskable preview, re-rendered as padding and fill change
+    useEffect(() => {
+        if (!file) return
+        let url: string | null = null
+        let cancelled = false
+
+        renderIcon(file, 192, 192, { padding: maskablePadding / 100, background: maskableBackground })
+            .then(blob => {
+                if (cancelled) return
+                url = URL.createObjectURL(blob)
+                setMaskablePreview(url)
+            })
+            .catch(error => console.error('Error rendering maskable preview:', error))
+
+        return () => {
+            cancelled = true
+            if (url) URL.revokeObjectURL(url)
+        }
+    }, [file, maskablePadding, maskableBackground])
+
+    const updateManifest = (changes: Partial<ManifestConfig>) => {
+        setManifestConfig(prev => ({ ...prev, ...changes }))
+    }
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -139,53 +207,59 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
         if (droppedFile) handleFile(droppedFile)
     }, [handleFile])
 
-    // Download all as ZIP with manifest
+    // Download all as ZIP with manifest, browserconfig and a matching HTML snippet
     const handleDownloadAll = async () => {
-        if (generatedFavicons.size === 0) return
+        if (!file || generatedFavicons.size === 0) return
 
         const zip = new JSZip()
+        setIsProcessing(true)
 
-        // Add all favicon images
-        for (const { size, name } of FAVICON_SIZES) {
-            const favicon = generatedFavicons.get(size)
-            if (favicon) {
-                zip.file(name, favicon.blob)
+        try {
+            // Add all favicon images
+            for (const { size, name } of FAVICON_SIZES) {
+                const favicon = generatedFavicons.get(size)
+                if (favicon) {
+                    zip.file(name, favicon.blob)
+                }
             }
-        }
 
-        // Add ICO file (16x16 and 32x32 combined would need special handling)
-        // For simplicity, we'll add the 32x32 as favicon.ico
-        const favicon32 = generatedFavicons.get(32)
-        if (favicon32) {
-            zip.file('favicon.ico', favicon32.blob)
-        }
+            // Pack the small renders into one multi-resolution favicon.ico
+            const icoSizes = icoInclude64 ? [...ICO_SIZES, ICO_OPTIONAL_SIZE] : ICO_SIZES
+            const icoImages = icoSizes.flatMap(size => {
+                const favicon = generatedFavicons.get(size)
+                return favicon ? [{ size, blob: favicon.blob }] : []
+            })
+            zip.file('favicon.ico', await encodeIco(icoImages, icoFormat))
+
+            // Vector logos ship as-is for browsers that support SVG favicons
+            if (file.type === 'image/svg+xml') {
+                zip.file('favicon.svg', file)
+            }
+
+            // Maskable icons keep the logo inside the safe zone on a solid fill
+            for (const size of MASKABLE_SIZES) {
+                const blob = await renderIcon(file, size, size, { padding: maskablePadding / 100, background: maskableBackground })
+                zip.file(maskableIconName(size), blob)
+            }
+
+            for (const tile of MS_TILES) {
+                zip.file(tile.name, await renderIcon(file, tile.width, tile.height, { padding: MSTILE_PADDING }))
+            }
+            zip.file('browserconfig.xml', buildBrowserConfig(manifestConfig.themeColor, Object.keys(zip.files)))
+
+            zip.file('manifest.json', buildManifest(manifestConfig, Object.keys(zip.files)))
+
+            // Built last so it only references files already in the ZIP
+            zip.file('favicon-html.txt', buildHtmlSnippet(manifestConfig, Object.keys(zip.files)))
 
-        // Generate manifest.json
-        const manifest = {
-            name: 'Your App Name',
-            short_name: 'App',
-            icons: [
-                { src: '/android-chrome-192x192.png', sizes: '192x192', type: 'image/png' },
-                { src: '/android-chrome-512x512.png', sizes: '512x512', type: 'image/png' }
-            ],
-            theme_color: '#ffffff',
-            background_color: '#ffffff',
-            display: 'standalone'
+            const content = await zip.generateAsync({ type: 'blob' })
+            downloadBlob(content, 'favicons.zip')
+        } catch (error) {
+            console.error('Error building favicon package:', error)
+            alert('Error creating favicon package')
+        } finally {
+            setIsProcessing(false)
         }
-        zip.file('manifest.json', JSON.stringify(manifest, null, 2))
-
-        // Generate HTML snippet
-        const htmlSnippet = `<!-- Favicons -->
-<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">
-<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">
-<link rel="icon" type="image/png" sizes="48x48" href="/favicon-48x48.png">
-<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">
-<link rel="manifest" href="/manifest.json">
-<meta name="theme-color" content="#ffffff">`
-        zip.file('favicon-html.txt', htmlSnippet)
-
-        const content = await zip.generateAsync({ type: 'blob' })
-        downloadBlob(content, 'favicons.zip')
     }
 
     // Reset
@@ -195,6 +269,7 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
         setFile(null)
         setPreview(null)
         setGeneratedFavicons(new Map())
+        setMaskablePreview(null)
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
@@ -315,13 +390,44 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
                                 })}
                             </div>
 
+                            {/* ICO Options */}
+                            <div className="control-group" style={{ marginTop: '1.5rem' }}>
+                                <label className="control-label">
+                                    <span>favicon.ico Entries</span>
+                                </label>
+                                <div className="select-buttons">
+                                    <button
+                                        className={`select-button ${icoFormat === 'png' ? 'active' : ''}`}
+                                        onClick={() => setIcoFormat('png')}
+                                    >
+                                        PNG (smaller)
+                                    </button>
+                                    <button
+                                        className={`select-button ${icoFormat === 'bmp' ? 'active' : ''}`}
+                                        onClick={() => setIcoFormat('bmp')}
+                                    >
+                                        BMP (legacy Windows)
+                                    </button>
+                                </div>
+                                <div className="toggle-container" style={{ marginTop: '0.75rem' }}>
+                                    <span style={{ color: icoInclude64 ? '#667eea' : 'rgba(255,255,255,0.5)' }}>Include 64×64</span>
+                                    <div
+                                        className={`toggle ${icoInclude64 ? 'active' : ''}`}
+                                        onClick={() => setIcoInclude64(!icoInclude64)}
+                                    />
+                                </div>
+                            </div>
+
                             <div style={{ marginTop: '1.5rem', padding: '1rem', background: 'rgba(102, 126, 234, 0.1)', borderRadius: '12px' }}>
                                 <h5 style={{ marginBottom: '0.5rem' }}>📦 ZIP includes:</h5>
                                 <ul style={{ fontSize: '0.875rem', color: 'rgba(255,255,255,0.7)', listStyle: 'none', display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '0.25rem' }}>
                                     <li>• All favicon sizes (PNG)</li>
-                                    <li>• favicon.ico</li>
+                                    <li>• favicon.ico ({(icoInclude64 ? [...ICO_SIZES, ICO_OPTIONAL_SIZE] : ICO_SIZES).join('/')}px, {icoFormat.toUpperCase()})</li>
                                     <li>• apple-touch-icon.png</li>
                                     <li>• android-chrome icons</li>
+                                    <li>• maskable icons (192/512)</li>
+                                    {file.type === 'image/svg+xml' && <li>• favicon.svg</li>}
+                                    <li>• mstile icons + browserconfig.xml</li>
                                     <li>• manifest.json</li>
                                     <li>• HTML snippet</li>
                                 </ul>
@@ -329,6 +435,75 @@ export default function FaviconGenerator({ onBack }: FaviconGeneratorProps) {
                         </div>
                     )}
 
+                    {/* Web App Manifest */}
+                    {generatedFavicons.size > 0 && (
+                        <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
+                            <h4 style={{ marginBottom: '1rem' }}>Web App Manifest</h4>
+                            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                                <div className="control-group">
+                                    <label className="control-label"><span>App Name</span></label>
+                                    <input type="text" value={manifestConfig.name} onChange={(e) => updateManifest({ name: e.target.value })} style={inputStyle} />
+                                </div>
+                                <div className="control-group">
+                                    <label className="control-label"><span>Short Name</span></label>
+                                    <input type="text" value={manifestConfig.shortName} onChange={(e) => updateManifest({ shortName: e.target.value })} style={inputStyle} />
+                                </div>
+                                <div className="control-group">
+                                    <label className="control-label"><span>Start URL</span></label>
+                                    <input type="text" value={manifestConfig.startUrl} onChange={(e) => updateManifest({ startUrl: e.target.value })} style={inputStyle} />
+                                </div>
+                                <div className="control-group">
+                                    <label className="control-label"><span>Theme / Background</span></label>
+                                    <div style={{ display: 'flex', gap: '0.75rem' }}>
+                                        <input type="color" value={manifestConfig.themeColor} onChange={(e) => updateManifest({ themeColor: e.target.value })} className="color-picker" title="Theme color (also the Windows tile color)" />
+                                        <input type="color" value={manifestConfig.backgroundColor} onChange={(e) => updateManifest({ backgroundColor: e.target.value })} className="color-picker" title="Splash background color" />
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="control-group">
+                                <label className="control-label"><span>Display Mode</span></label>
+                                <div className="select-buttons">
+                                    {DISPLAY_MODES.map(mode => (
+                                        <button key={mode} className={`select-button ${manifestConfig.display === mode ? 'active' : ''}`} onClick={() => updateManifest({ display: mode })}>{mode}</button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Maskable Icon */}
+                            <div style={{ display: 'flex', gap: '1.5rem', alignItems: 'center', marginTop: '1rem' }}>
+                                {maskablePreview && (
+                                    <img
+                                        src={maskablePreview}
+                                        alt="Maskable preview"
+                                        style={{ width: 96, height: 96, borderRadius: '50%', flexShrink: 0 }}
+                                    />
+                                )}
+                                <div style={{ flex: 1 }}>
+                                    <div className="control-group">
+                                        <label className="control-label">
+                                            <span>Maskable Safe-Zone Padding</span>
+                                            <span className="control-value">{maskablePadding}%</span>
+                                        </label>
+                                        <div className="slider-container">
+                                            <div className="slider-fill" style={{ width: `${(maskablePadding / 40) * 100}%` }} />
+                                            <input
+                                                type="range"
+                                                min="0"
+                                                max="40"
+                                                value={maskablePadding}
+                                                onChange={(e) => setMaskablePadding(Number(e.target.value))}
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="control-group">
+                                        <label className="control-label"><span>Maskable Background</span></label>
+                                        <input type="color" value={maskableBackground} onChange={(e) => setMaskableBackground(e.target.value)} className="color-picker" />
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Action Buttons */}
                     <div className="actions-bar">
                         <button className="secondary-button" onClick={handleReset}>
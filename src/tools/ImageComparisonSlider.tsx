@@ -1,11 +1,13 @@
 import { useCallback, useRef, useState } from 'react';
+import { useInitialFile } from '../hooks/useToolHandoff'
 import { getImageInfo, type ImageInfo } from '../utils/imageProcessing';
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ImageComparisonSliderProps {
+interface ImageComparisonSliderProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function ImageComparisonSlider({ onBack }: ImageComparisonSliderProps) {
+export default function ImageComparisonSlider({ onBack, initialFile }: ImageComparisonSliderProps) {
     const [image1, setImage1] = useState<{ file: File; url: string; info: ImageInfo } | null>(null)
     const [image2, setImage2] = useState<{ file: File; url: string; info: ImageInfo } | null>(null)
     const [sliderPosition, setSliderPosition] = useState(50)
@@ -35,6 +37,8 @@ export default function ImageComparisonSlider({ onBack }: ImageComparisonSliderP
         }
     }, [activeUpload, image1, image2])
 
+    useInitialFile(initialFile, handleFile)
+
     // Handle drag and drop on dropzones
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -1,27 +1,54 @@
+import JSZip from 'jszip'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { compressImage, downloadBlob, formatFileSize, getExtension, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
+import { ingestDataTransfer, ingestFileList, isImageFile, type IngestResult } from '../utils/fileIngestion'
+import { compressImage, compressToTargetSize, downloadBlob, formatFileSize, getExtension, getImageInfo, uniqueFileNames, type ImageInfo, type TargetSizeResult } from '../utils/imageProcessing'
+import { isAbortError, stepProgress, throwIfAborted } from '../utils/taskProgress'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ImageCompressorProps {
+interface ImageCompressorProps extends HandoffProps {
     onBack: () => void
 }
 
 type Format = 'image/jpeg' | 'image/png' | 'image/webp'
 
-export default function ImageCompressor({ onBack }: ImageCompressorProps) {
+type Mode = 'quality' | 'target'
+
+interface BatchResult {
+    file: File
+    blob: Blob | null
+    error?: string
+    target?: TargetSizeResult
+    /** Settings of the run that made it, so later edits don't relabel the table */
+    mode: Mode
+    targetBytes: number
+}
+
+export default function ImageCompressor({ onBack, initialFile, onOutput }: ImageCompressorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
     const [quality, setQuality] = useState(80)
     const [format, setFormat] = useState<Format>('image/jpeg')
+    const [mode, setMode] = useState<Mode>('quality')
+    const [targetKb, setTargetKb] = useState(200)
+    const [allowDownscale, setAllowDownscale] = useState(true)
+    const [targetResult, setTargetResult] = useState<TargetSizeResult | null>(null)
     const [compressedBlob, setCompressedBlob] = useState<Blob | null>(null)
     const [compressedPreview, setCompressedPreview] = useState<string | null>(null)
     const [isProcessing, setIsProcessing] = useState(false)
     const [isDragging, setIsDragging] = useState(false)
+    const [batchFiles, setBatchFiles] = useState<File[]>([])
+    const [batchResults, setBatchResults] = useState<BatchResult[]>([])
+    const [skippedCount, setSkippedCount] = useState(0)
+    const batch = useCancellableTask()
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const folderInputRef = useRef<HTMLInputElement>(null)
 
     // Handle file selection
     const handleFile = useCallback(async (selectedFile: File) => {
-        if (!selectedFile.type.startsWith('image/')) {
+        if (!isImageFile(selectedFile)) {
             alert('Please select an image file')
             return
         }
@@ -40,8 +67,30 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
         // Reset compressed state
         setCompressedBlob(null)
         setCompressedPreview(null)
+        setTargetResult(null)
     }, [])
 
+    useInitialFile(initialFile, handleFile)
+
+    // A single image opens the comparison view; several, a picked folder or a dropped directory
+    // tree switch to batch mode
+    const handleFiles = useCallback(({ files: imageFiles, skipped }: IngestResult) => {
+        setSkippedCount(prev => prev + skipped)
+
+        if (imageFiles.length === 0) {
+            alert(skipped > 0 ? `No images found (${skipped} other file${skipped > 1 ? 's' : ''} skipped)` : 'Please select image files')
+            return
+        }
+
+        if (imageFiles.length === 1 && batchFiles.length === 0) {
+            handleFile(imageFiles[0].file)
+            return
+        }
+
+        setBatchFiles(prev => [...prev, ...imageFiles.map(entry => entry.file)])
+        setBatchResults([])
+    }, [batchFiles, handleFile])
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -56,34 +105,59 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault()
         setIsDragging(false)
-        const droppedFile = e.dataTransfer.files[0]
-        if (droppedFile) handleFile(droppedFile)
-    }, [handleFile])
+        if (e.dataTransfer.items.length > 0) {
+            ingestDataTransfer(e.dataTransfer).then(handleFiles).catch(error => {
+                console.error('Error reading dropped files:', error)
+                alert('Error reading dropped files')
+            })
+        }
+    }, [handleFiles])
+
+    // Compress with either the fixed quality or the target-size search
+    const runCompression = useCallback(async (source: File, signal?: AbortSignal): Promise<{ blob: Blob; target?: TargetSizeResult }> => {
+        if (mode === 'target') {
+            const target = await compressToTargetSize(source, targetKb * 1024, format, allowDownscale, undefined, signal)
+            return { blob: target.blob, target }
+        }
+        return { blob: await compressImage(source, quality, format) }
+    }, [mode, targetKb, allowDownscale, quality, format])
 
-    // Compress image when quality or format changes
+    // Compress image when the settings change. A change aborts the run in flight, so an older
+    // target-size search can't finish last and overwrite the newer result.
     useEffect(() => {
         if (!file) return
+        const controller = new AbortController()
 
         const processImage = async () => {
             setIsProcessing(true)
             try {
-                const blob = await compressImage(file, quality, format)
+                const { blob, target } = await runCompression(file, controller.signal)
+                throwIfAborted(controller.signal)
                 setCompressedBlob(blob)
+                setTargetResult(target ?? null)
 
-                if (compressedPreview) {
-                    URL.revokeObjectURL(compressedPreview)
-                }
-                setCompressedPreview(URL.createObjectURL(blob))
+                const url = URL.createObjectURL(blob)
+                setCompressedPreview(prev => {
+                    if (prev) URL.revokeObjectURL(prev)
+                    return url
+                })
             } catch (error) {
-                console.error('Error compressing image:', error)
+                if (!isAbortError(error)) console.error('Error compressing image:', error)
             } finally {
-                setIsProcessing(false)
+                if (!controller.signal.aborted) setIsProcessing(false)
             }
         }
 
         const debounce = setTimeout(processImage, 300)
-        return () => clearTimeout(debounce)
-    }, [file, quality, format])
+        return () => {
+            clearTimeout(debounce)
+            controller.abort()
+        }
+    }, [file, runCompression])
+
+    // Publish the compressed result for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_compressed.${getExtension(format)}` : ''
+    usePublishOutput(onOutput, compressedBlob, outputName)
 
     // Download compressed image
     const handleDownload = () => {
@@ -94,16 +168,71 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
         downloadBlob(compressedBlob, `${baseName}_compressed.${extension}`)
     }
 
+    // Compress every queued file with the current settings. Failed files are reported in the
+    // table; cancelling discards the whole run.
+    const handleBatchCompress = async () => {
+        if (batchFiles.length === 0) return
+        setBatchResults([])
+
+        try {
+            const results = await batch.run(async (signal, onProgress) => {
+                const results: BatchResult[] = []
+                const settings = { mode, targetBytes: targetKb * 1024 }
+                for (let i = 0; i < batchFiles.length; i++) {
+                    throwIfAborted(signal)
+                    const batchFile = batchFiles[i]
+                    const fileProgress = stepProgress(onProgress, i, batchFiles.length, `Image ${i + 1} of ${batchFiles.length}`)
+                    fileProgress({ fraction: 0 })
+                    try {
+                        const { blob, target } = await runCompression(batchFile, signal)
+                        results.push({ file: batchFile, blob, target, ...settings })
+                    } catch (error) {
+                        if (isAbortError(error)) throw error
+                        console.error('Error compressing image:', error)
+                        results.push({ file: batchFile, blob: null, error: error instanceof Error ? error.message : 'Failed to compress', ...settings })
+                    }
+                    fileProgress({ fraction: 1 })
+                }
+                return results
+            })
+            if (results) setBatchResults(results)
+        } catch (error) {
+            console.error('Error compressing images:', error)
+            alert('Error compressing images')
+        }
+    }
+
+    // Download all compressed images as ZIP
+    const handleDownloadZip = async () => {
+        const done = batchResults.filter(r => r.blob)
+        if (done.length === 0) return
+
+        const zip = new JSZip()
+        // Named after what each blob holds; the format may have changed since the run
+        const names = uniqueFileNames(done.map(result => `${result.file.name.replace(/\.[^/.]+$/, '')}_compressed.${getExtension(result.blob!.type)}`))
+        done.forEach((result, i) => zip.file(names[i], result.blob!))
+
+        const content = await zip.generateAsync({ type: 'blob' })
+        downloadBlob(content, 'compressed_images.zip')
+    }
+
     // Reset and upload new image
     const handleReset = () => {
+        batch.cancel()
         if (preview) URL.revokeObjectURL(preview)
         if (compressedPreview) URL.revokeObjectURL(compressedPreview)
         setFile(null)
+        setIsProcessing(false)
         setPreview(null)
         setOriginalInfo(null)
         setCompressedBlob(null)
         setCompressedPreview(null)
+        setTargetResult(null)
+        setBatchFiles([])
+        setBatchResults([])
+        setSkippedCount(0)
         if (fileInputRef.current) fileInputRef.current.value = ''
+        if (folderInputRef.current) folderInputRef.current.value = ''
     }
 
     // Calculate compression percentage
@@ -111,6 +240,102 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
         ? Math.round((1 - compressedBlob.size / originalInfo.size) * 100)
         : 0
 
+    // Batch totals
+    const batchOriginalSize = batchResults.reduce((sum, r) => sum + (r.blob ? r.file.size : 0), 0)
+    const batchCompressedSize = batchResults.reduce((sum, r) => sum + (r.blob?.size ?? 0), 0)
+    const batchFailures = batchResults.filter(r => !r.blob).length
+    const batchTargeted = batchResults.some(r => r.mode === 'target')
+
+    const controlsPanel = (
+        <div className="controls-panel">
+            <div className="control-group">
+                <label className="control-label">
+                    <span>Mode</span>
+                </label>
+                <div className="select-buttons">
+                    <button
+                        className={`select-button ${mode === 'quality' ? 'active' : ''}`}
+                        onClick={() => setMode('quality')}
+                    >
+                        Fixed Quality
+                    </button>
+                    <button
+                        className={`select-button ${mode === 'target' ? 'active' : ''}`}
+                        onClick={() => setMode('target')}
+                    >
+                        Target Size
+                    </button>
+                </div>
+            </div>
+
+            {mode === 'quality' ? (
+                <div className="control-group">
+                    <label className="control-label">
+                        <span>Compression Quality</span>
+                        <span className="control-value">{quality}%</span>
+                    </label>
+                    <div className="slider-container">
+                        <div className="slider-fill" style={{ width: `${quality}%` }} />
+                        <input
+                            type="range"
+                            min="1"
+                            max="100"
+                            value={quality}
+                            onChange={(e) => setQuality(Number(e.target.value))}
+                        />
+                    </div>
+                </div>
+            ) : (
+                <div className="control-group">
+                    <label className="control-label">
+                        <span>Maximum File Size</span>
+                        <span className="control-value">{targetKb} KB</span>
+                    </label>
+                    <input
+                        type="number"
+                        min="1"
+                        value={targetKb}
+                        onChange={(e) => setTargetKb(Math.max(1, Number(e.target.value)))}
+                        style={{ width: '100%', padding: '0.75rem', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: 'white', marginBottom: '1rem' }}
+                    />
+                    <div className="toggle-container">
+                        <span style={{ color: allowDownscale ? '#667eea' : 'rgba(255,255,255,0.5)' }}>Downscale dimensions if quality alone is not enough</span>
+                        <div
+                            className={`toggle ${allowDownscale ? 'active' : ''}`}
+                            onClick={() => setAllowDownscale(!allowDownscale)}
+                        />
+                    </div>
+                </div>
+            )}
+
+            <div className="control-group">
+                <label className="control-label">
+                    <span>Output Format</span>
+                </label>
+                <div className="select-buttons">
+                    <button
+                        className={`select-button ${format === 'image/jpeg' ? 'active' : ''}`}
+                        onClick={() => setFormat('image/jpeg')}
+                    >
+                        JPEG
+                    </button>
+                    <button
+                        className={`select-button ${format === 'image/png' ? 'active' : ''}`}
+                        onClick={() => setFormat('image/png')}
+                    >
+                        PNG
+                    </button>
+                    <button
+                        className={`select-button ${format === 'image/webp' ? 'active' : ''}`}
+                        onClick={() => setFormat('image/webp')}
+                    >
+                        WEBP
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+
     return (
         <div className="tool-page">
             <div className="tool-header">
@@ -118,7 +343,7 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
                 <h1 className="tool-title">Image Compressor</h1>
             </div>
 
-            {!file ? (
+            {!file && batchFiles.length === 0 ? (
                 // Upload dropzone
                 <div
                     className={`dropzone ${isDragging ? 'dragging' : ''}`}
@@ -129,64 +354,124 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
                 >
                     <div className="dropzone-content">
                         <div className="dropzone-icon">📦</div>
-                        <p className="dropzone-text">Drop your image here or click to browse</p>
-                        <p className="dropzone-hint">Supports JPG, PNG, WEBP • Max 50MB</p>
+                        <p className="dropzone-text">Drop your images here or click to browse</p>
+                        <p className="dropzone-hint">Supports JPG, PNG, WEBP • Max 50MB • Drop many files for batch mode</p>
+                        <button
+                            className="secondary-button"
+                            onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click() }}
+                            style={{ marginTop: '1rem' }}
+                        >
+                            📁 Select Folder
+                        </button>
                     </div>
                     <input
                         ref={fileInputRef}
                         type="file"
                         accept="image/*"
-                        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                        multiple
+                        onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
+                        style={{ display: 'none' }}
+                    />
+                    <input
+                        ref={folderInputRef}
+                        type="file"
+                        {...{ webkitdirectory: '' }}
+                        onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
                         style={{ display: 'none' }}
                     />
                 </div>
-            ) : (
+            ) : batchFiles.length > 0 ? (
                 <>
-                    {/* Controls */}
-                    <div className="controls-panel">
-                        <div className="control-group">
-                            <label className="control-label">
-                                <span>Compression Quality</span>
-                                <span className="control-value">{quality}%</span>
-                            </label>
-                            <div className="slider-container">
-                                <div className="slider-fill" style={{ width: `${quality}%` }} />
-                                <input
-                                    type="range"
-                                    min="1"
-                                    max="100"
-                                    value={quality}
-                                    onChange={(e) => setQuality(Number(e.target.value))}
-                                />
-                            </div>
-                        </div>
+                    {controlsPanel}
 
-                        <div className="control-group">
-                            <label className="control-label">
-                                <span>Output Format</span>
-                            </label>
-                            <div className="select-buttons">
-                                <button
-                                    className={`select-button ${format === 'image/jpeg' ? 'active' : ''}`}
-                                    onClick={() => setFormat('image/jpeg')}
-                                >
-                                    JPEG
-                                </button>
-                                <button
-                                    className={`select-button ${format === 'image/png' ? 'active' : ''}`}
-                                    onClick={() => setFormat('image/png')}
-                                >
-                                    PNG
+                    {/* Batch Results */}
+                    <div className="controls-panel" style={{ marginTop: '1.5rem', overflowX: 'auto' }}>
+                        <h4 style={{ marginBottom: '1rem' }}>
+                            {batchResults.length > 0
+                                ? `${batchResults.length - batchFailures} of ${batchResults.length} compressed • ${formatFileSize(batchOriginalSize)} → ${formatFileSize(batchCompressedSize)}`
+                                : `${batchFiles.length} images queued`}
+                            {skippedCount > 0 && (
+                                <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', fontWeight: 400, color: 'rgba(255,255,255,0.5)' }}>
+                                    {skippedCount} non-image file{skippedCount > 1 ? 's' : ''} skipped
+                                </span>
+                            )}
+                        </h4>
+                        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                            <thead>
+                                <tr style={{ textAlign: 'left', color: 'rgba(255,255,255,0.5)' }}>
+                                    <th style={{ padding: '0.5rem' }}>File</th>
+                                    <th style={{ padding: '0.5rem' }}>Original</th>
+                                    <th style={{ padding: '0.5rem' }}>Compressed</th>
+                                    <th style={{ padding: '0.5rem' }}>Savings</th>
+                                    {batchTargeted && <th style={{ padding: '0.5rem' }}>Settings</th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {batchFiles.map((batchFile, index) => {
+                                    const result = batchResults[index]
+                                    const savings = result?.blob ? Math.round((1 - result.blob.size / batchFile.size) * 100) : null
+                                    return (
+                                        <tr key={index} style={{ borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                                            <td style={{ padding: '0.5rem', wordBreak: 'break-all' }}>{batchFile.name}</td>
+                                            <td style={{ padding: '0.5rem' }}>{formatFileSize(batchFile.size)}</td>
+                                            <td style={{ padding: '0.5rem' }}>
+                                                {result?.blob ? formatFileSize(result.blob.size) : result?.error ? <span style={{ color: '#f5576c' }}>⚠️ {result.error}</span> : '-'}
+                                            </td>
+                                            <td style={{ padding: '0.5rem', color: savings !== null && savings > 0 ? '#38ef7d' : undefined }}>
+                                                {savings === null ? '-' : savings > 0 ? `-${savings}%` : `+${Math.abs(savings)}%`}
+                                            </td>
+                                            {batchTargeted && (
+                                                <td style={{ padding: '0.5rem', color: result?.target && result.target.blob.size > result.targetBytes ? '#f5576c' : undefined }}>
+                                                    {result?.target ? `Q${result.target.quality} • ${result.target.width}×${result.target.height}` : '-'}
+                                                </td>
+                                            )}
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {/* Action Buttons */}
+                    <div className="actions-bar">
+                        <button className="secondary-button" onClick={handleReset}>
+                            🔄 Start Over
+                        </button>
+                        <button className="secondary-button" onClick={() => fileInputRef.current?.click()} disabled={batch.isRunning}>
+                            ➕ Add More
+                        </button>
+                        {batch.isRunning ? (
+                            <>
+                                <button className="download-button" disabled>
+                                    ⏳ {batch.progress?.label ?? 'Compressing...'} · {batch.percent}%
                                 </button>
-                                <button
-                                    className={`select-button ${format === 'image/webp' ? 'active' : ''}`}
-                                    onClick={() => setFormat('image/webp')}
-                                >
-                                    WEBP
+                                <button className="secondary-button" onClick={batch.cancel}>
+                                    ✖ Cancel
                                 </button>
-                            </div>
-                        </div>
+                            </>
+                        ) : (
+                            <button className="download-button" onClick={handleBatchCompress}>
+                                📦 Compress {batchFiles.length} Images
+                            </button>
+                        )}
+                        {batchResults.length > batchFailures && (
+                            <button className="download-button" onClick={handleDownloadZip} disabled={batch.isRunning}>
+                                ⬇️ Download All as ZIP
+                            </button>
+                        )}
                     </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
+                        style={{ display: 'none' }}
+                    />
+                </>
+            ) : (
+                <>
+                    {controlsPanel}
 
                     {/* Comparison View */}
                     <div className="comparison-container">
@@ -223,6 +508,14 @@ export default function ImageCompressor({ onBack }: ImageCompressorProps) {
                                     </div>
                                     <div className="stat-label">Size Change</div>
                                 </div>
+                                {mode === 'target' && targetResult && (
+                                    <div className="stat">
+                                        <div className={`stat-value ${targetResult.blob.size <= targetKb * 1024 ? 'success' : ''}`}>
+                                            {format === 'image/png' ? '' : `Q${targetResult.quality} • `}{targetResult.width}×{targetResult.height}
+                                        </div>
+                                        <div className="stat-label">{targetResult.blob.size <= targetKb * 1024 ? 'Chosen Settings' : 'Target Not Reached'}</div>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -1,29 +1,13 @@
 import { useCallback, useRef, useState } from 'react'
-import { downloadBlob } from '../utils/imageProcessing'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
+import { ASPECT_RATIOS, cropImage, downloadBlob, type CropArea } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ImageCropperProps {
+interface ImageCropperProps extends HandoffProps {
     onBack: () => void
 }
 
-interface CropArea {
-    x: number
-    y: number
-    width: number
-    height: number
-}
-
-const ASPECT_RATIOS = [
-    { label: 'Free', value: null },
-    { label: '1:1', value: 1 },
-    { label: '16:9', value: 16 / 9 },
-    { label: '9:16', value: 9 / 16 },
-    { label: '4:3', value: 4 / 3 },
-    { label: '3:4', value: 3 / 4 },
-    { label: '3:2', value: 3 / 2 },
-    { label: '2:3', value: 2 / 3 }
-]
-
-export default function ImageCropper({ onBack }: ImageCropperProps) {
+export default function ImageCropper({ onBack, initialFile, onOutput }: ImageCropperProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null)
@@ -32,6 +16,7 @@ export default function ImageCropper({ onBack }: ImageCropperProps) {
     const [isDragging, setIsDragging] = useState(false)
     const [dragType, setDragType] = useState<'move' | 'resize' | null>(null)
     const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
+    const [croppedBlob, setCroppedBlob] = useState<Blob | null>(null)
     const containerRef = useRef<HTMLDivElement>(null)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -43,6 +28,7 @@ export default function ImageCropper({ onBack }: ImageCropperProps) {
         }
 
         setFile(selectedFile)
+        setCroppedBlob(null)
         const url = URL.createObjectURL(selectedFile)
         setPreview(url)
 
@@ -56,6 +42,8 @@ export default function ImageCropper({ onBack }: ImageCropperProps) {
         img.src = url
     }, [])
 
+    useInitialFile(initialFile, handleFile)
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -141,33 +129,16 @@ export default function ImageCropper({ onBack }: ImageCropperProps) {
     const handleCrop = async () => {
         if (!file || !imageDimensions) return
 
-        const img = new Image()
-        img.src = preview!
-
-        await new Promise(resolve => img.onload = resolve)
-
-        const canvas = document.createElement('canvas')
-        const sourceX = (cropArea.x / 100) * imageDimensions.width
-        const sourceY = (cropArea.y / 100) * imageDimensions.height
-        const sourceWidth = (cropArea.width / 100) * imageDimensions.width
-        const sourceHeight = (cropArea.height / 100) * imageDimensions.height
-
-        canvas.width = sourceWidth
-        canvas.height = sourceHeight
-
-        const ctx = canvas.getContext('2d')
-        if (!ctx) return
-
-        ctx.drawImage(img, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, sourceWidth, sourceHeight)
-
-        canvas.toBlob((blob) => {
-            if (blob) {
-                const baseName = file.name.replace(/\.[^/.]+$/, '')
-                downloadBlob(blob, `${baseName}_cropped.png`)
-            }
-        }, 'image/png')
+        const blob = await cropImage(file, cropArea)
+        setCroppedBlob(blob)
+        const baseName = file.name.replace(/\.[^/.]+$/, '')
+        downloadBlob(blob, `${baseName}_cropped.png`)
     }
 
+    // Publish the last crop for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_cropped.png` : ''
+    usePublishOutput(onOutput, croppedBlob, outputName)
+
     // Reset
     const handleReset = () => {
         if (preview) URL.revokeObjectURL(preview)
@@ -175,6 +146,7 @@ export default function ImageCropper({ onBack }: ImageCropperProps) {
         setPreview(null)
         setImageDimensions(null)
         setCropArea({ x: 0, y: 0, width: 100, height: 100 })
+        setCroppedBlob(null)
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
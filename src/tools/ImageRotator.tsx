@@ -1,17 +1,20 @@
 import { useCallback, useRef, useState } from 'react'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
 import { downloadBlob, formatFileSize, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ImageRotatorProps {
+interface ImageRotatorProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function ImageRotator({ onBack }: ImageRotatorProps) {
+export default function ImageRotator({ onBack, initialFile, onOutput }: ImageRotatorProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
     const [rotation, setRotation] = useState(0)
     const [flipH, setFlipH] = useState(false)
     const [flipV, setFlipV] = useState(false)
+    const [transformedBlob, setTransformedBlob] = useState<Blob | null>(null)
     const [isDragging, setIsDragging] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -28,6 +31,7 @@ export default function ImageRotator({ onBack }: ImageRotatorProps) {
         setRotation(0)
         setFlipH(false)
         setFlipV(false)
+        setTransformedBlob(null)
 
         try {
             const info = await getImageInfo(selectedFile)
@@ -37,6 +41,8 @@ export default function ImageRotator({ onBack }: ImageRotatorProps) {
         }
     }, [])
 
+    useInitialFile(initialFile, handleFile)
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -85,12 +91,17 @@ export default function ImageRotator({ onBack }: ImageRotatorProps) {
 
         canvas.toBlob((blob) => {
             if (blob) {
+                setTransformedBlob(blob)
                 const baseName = file.name.replace(/\.[^/.]+$/, '')
                 downloadBlob(blob, `${baseName}_transformed.png`)
             }
         }, 'image/png')
     }
 
+    // Publish the last transformed image for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_transformed.png` : ''
+    usePublishOutput(onOutput, transformedBlob, outputName)
+
     // Reset transformations
     const resetTransforms = () => {
         setRotation(0)
@@ -107,6 +118,7 @@ export default function ImageRotator({ onBack }: ImageRotatorProps) {
         setRotation(0)
         setFlipH(false)
         setFlipV(false)
+        setTransformedBlob(null)
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
@@ -1,46 +1,64 @@
 import { jsPDF } from 'jspdf'
 import { useCallback, useRef, useState } from 'react'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import { ingestDataTransfer, ingestFileList, type IngestResult } from '../utils/fileIngestion'
 import { formatFileSize, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ImageToPdfProps {
+interface ImageToPdfProps extends HandoffProps {
     onBack: () => void
 }
 
 interface ImageFile {
     file: File
+    // Path relative to the picked folder, or the file name
+    path: string
     url: string
     info: ImageInfo
 }
 
-export default function ImageToPdf({ onBack }: ImageToPdfProps) {
+export default function ImageToPdf({ onBack, initialFile }: ImageToPdfProps) {
     const [images, setImages] = useState<ImageFile[]>([])
     const [isProcessing, setIsProcessing] = useState(false)
     const [isDragging, setIsDragging] = useState(false)
     const [pageSize, setPageSize] = useState<'a4' | 'letter' | 'fit'>('a4')
     const [orientation, setOrientation] = useState<'portrait' | 'landscape'>('portrait')
     const [margin, setMargin] = useState(10)
+    const [skippedCount, setSkippedCount] = useState(0)
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const folderInputRef = useRef<HTMLInputElement>(null)
 
-    // Handle file selection
-    const handleFiles = useCallback(async (selectedFiles: FileList) => {
-        const imageFiles = Array.from(selectedFiles).filter(f => f.type.startsWith('image/'))
+    // Handle picked files, folders or a dropped directory tree; folders come in path order
+    const handleFiles = useCallback(async ({ files: imageFiles, skipped }: IngestResult) => {
+        setSkippedCount(prev => prev + skipped)
 
         if (imageFiles.length === 0) {
-            alert('Please select image files')
+            alert(skipped > 0 ? `No images found (${skipped} other file${skipped > 1 ? 's' : ''} skipped)` : 'Please select image files')
             return
         }
 
+        // Files the browser can't decode (e.g. HEIC or TIFF in most browsers) are left out and counted
         const newImages: ImageFile[] = []
-
-        for (const file of imageFiles) {
-            const url = URL.createObjectURL(file)
-            const info = await getImageInfo(file)
-            newImages.push({ file, url, info })
+        let failed = 0
+
+        for (const { file, path } of imageFiles) {
+            try {
+                const info = await getImageInfo(file)
+                newImages.push({ file, path, url: URL.createObjectURL(file), info })
+            } catch (error) {
+                console.error(`Error reading ${path}:`, error)
+                failed++
+            }
         }
 
+        setSkippedCount(prev => prev + failed)
         setImages([...images, ...newImages])
+        if (newImages.length === 0) alert('None of these images could be read by your browser')
     }, [images])
 
+    const handleInitialFile = useCallback((selectedFile: File) => handleFiles(ingestFileList([selectedFile])), [handleFiles])
+    useInitialFile(initialFile, handleInitialFile)
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
@@ -55,8 +73,11 @@ export default function ImageToPdf({ onBack }: ImageToPdfProps) {
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault()
         setIsDragging(false)
-        if (e.dataTransfer.files.length > 0) {
-            handleFiles(e.dataTransfer.files)
+        if (e.dataTransfer.items.length > 0) {
+            ingestDataTransfer(e.dataTransfer).then(handleFiles).catch(error => {
+                console.error('Error reading dropped files:', error)
+                alert('Error reading dropped files')
+            })
         }
     }, [handleFiles])
 
@@ -157,7 +178,9 @@ export default function ImageToPdf({ onBack }: ImageToPdfProps) {
     const handleReset = () => {
         images.forEach(img => URL.revokeObjectURL(img.url))
         setImages([])
+        setSkippedCount(0)
         if (fileInputRef.current) fileInputRef.current.value = ''
+        if (folderInputRef.current) folderInputRef.current.value = ''
     }
 
     return (
@@ -178,14 +201,28 @@ export default function ImageToPdf({ onBack }: ImageToPdfProps) {
                 <div className="dropzone-content">
                     <div className="dropzone-icon">📄</div>
                     <p className="dropzone-text">Drop images here or click to browse</p>
-                    <p className="dropzone-hint">Convert multiple images into a single PDF document</p>
+                    <p className="dropzone-hint">Convert multiple images into a single PDF document • Folders add pages in path order</p>
+                    <button
+                        className="secondary-button"
+                        onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click() }}
+                        style={{ marginTop: '1rem' }}
+                    >
+                        📁 Select Folder
+                    </button>
                 </div>
                 <input
                     ref={fileInputRef}
                     type="file"
                     accept="image/*"
                     multiple
-                    onChange={(e) => e.target.files && handleFiles(e.target.files)}
+                    onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
+                    style={{ display: 'none' }}
+                />
+                <input
+                    ref={folderInputRef}
+                    type="file"
+                    {...{ webkitdirectory: '' }}
+                    onChange={(e) => e.target.files && handleFiles(ingestFileList(e.target.files))}
                     style={{ display: 'none' }}
                 />
             </div>
@@ -194,7 +231,14 @@ export default function ImageToPdf({ onBack }: ImageToPdfProps) {
             {images.length > 0 && (
                 <>
                     <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
-                        <h4 style={{ marginBottom: '1rem' }}>Images ({images.length})</h4>
+                        <h4 style={{ marginBottom: '1rem' }}>
+                            Images ({images.length})
+                            {skippedCount > 0 && (
+                                <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', fontWeight: 400, color: 'rgba(255,255,255,0.5)' }}>
+                                    {skippedCount} non-image or unreadable file{skippedCount > 1 ? 's' : ''} skipped
+                                </span>
+                            )}
+                        </h4>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
                             {images.map((img, index) => (
                                 <div
@@ -215,6 +259,9 @@ export default function ImageToPdf({ onBack }: ImageToPdfProps) {
                                     />
                                     <div style={{ flex: 1 }}>
                                         <div style={{ fontWeight: 600, fontSize: '0.875rem' }}>Page {index + 1}</div>
+                                        <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.7)', wordBreak: 'break-all' }}>
+                                            {img.path}
+                                        </div>
                                         <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
                                             {img.info.width}×{img.info.height} • {formatFileSize(img.info.size)}
                                         </div>
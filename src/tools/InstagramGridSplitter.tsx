@@ -1,8 +1,10 @@
 import JSZip from 'jszip'
 import { useCallback, useRef, useState } from 'react'
+import { useInitialFile } from '../hooks/useToolHandoff'
 import { downloadBlob } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface InstagramGridSplitterProps {
+interface InstagramGridSplitterProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -15,7 +17,7 @@ interface GridTile {
     url: string
 }
 
-export default function InstagramGridSplitter({ onBack }: InstagramGridSplitterProps) {
+export default function InstagramGridSplitter({ onBack, initialFile }: InstagramGridSplitterProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [gridType, setGridType] = useState<GridType>('3x3')
@@ -141,6 +143,8 @@ export default function InstagramGridSplitter({ onBack }: InstagramGridSplitterP
         setTiles([])
     }, [tiles])
 
+    useInitialFile(initialFile, handleFile)
+
     // Generate grid
     const handleGenerate = async () => {
         if (!file) return
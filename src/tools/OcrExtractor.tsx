@@ -1,74 +1,655 @@
-import { useCallback, useRef, useState } from 'react'
-import Tesseract from 'tesseract.js'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useOcrLanguagePacks } from '../hooks/useOcrLanguagePacks'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import { isImageFile } from '../utils/fileIngestion'
+import { downloadBlob, formatFileSize, getImageInfo, rotateImageQuarter } from '../utils/imageProcessing'
+import { runWorkerJob } from '../utils/imageWorkerClient'
+import { createDetector, createRecognizer, detectOrientation, type OcrWorker, type PageOrientation } from '../utils/ocrEngine'
+import { exportOcr, OCR_EXPORT_FORMATS, type OcrExportFormat } from '../utils/ocrExport'
+import { correctWord, deskewBox, LOW_CONFIDENCE, mergePages, pageFromTesseract, pageLines, pageText, pageWords, resizePage, rotateBox, type BoundingBox, type OcrPage } from '../utils/ocrLayout'
+import { languageName, languagesForScript, OCR_LANGUAGES, OSD_PACK, packDownloadSize } from '../utils/ocrLanguages'
+import { BINARIZE_METHODS, DEFAULT_OCR_PREPROCESS, outputsGrayscale, UPSCALE_FACTORS } from '../utils/ocrPreprocess'
+import { exportTables, extractTable, formatTables, TABLE_FORMATS, wordsInRegion, type Table, type TableFormat } from '../utils/ocrTable'
+import { isPdfFile, PDF_POINTS_PER_INCH, renderPdfPages } from '../utils/pdfRender'
+import { buildSearchablePdf } from '../utils/searchablePdf'
+import { abortable, stepProgress, type ProgressCallback } from '../utils/taskProgress'
+import type { HandoffProps } from '../utils/toolHandoff'
+import type { OcrPreprocessOptions } from '../workers/protocol'
 
-interface OcrExtractorProps {
+interface OcrExtractorProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function OcrExtractor({ onBack }: OcrExtractorProps) {
-    const [file, setFile] = useState<File | null>(null)
-    const [preview, setPreview] = useState<string | null>(null)
-    const [extractedText, setExtractedText] = useState<string>('')
-    const [isProcessing, setIsProcessing] = useState(false)
-    const [progress, setProgress] = useState(0)
+// One image to recognize: a dropped image, or a page rendered from a PDF
+interface OcrPageItem {
+    id: number
+    /** File name, or "file.pdf — page 3" for PDF pages */
+    name: string
+    /** The file the page came from */
+    source: string
+    image: Blob
+    url: string
+    width: number
+    height: number
+    /** Known resolution of rendered PDF pages */
+    dpi?: number
+    /** Parts of the page to read, in pixels of the page as loaded; empty reads the whole page */
+    regions: BoundingBox[]
+    /** Preprocessed copy for the options it was made with */
+    processed: ProcessedImage | null
+    /** The deskewed original the OCR boxes line up with, and the skew it corrects; null when
+     *  they fit the original */
+    ocrImage: { image: Blob; url: string; angle: number } | null
+    ocr: OcrPage | null
+    text: string
+    /** Orientation and script found by auto-detection; the page is already turned upright */
+    detected: PageOrientation | null
+}
+
+interface ProcessedImage {
+    key: string
+    image: Blob
+    url: string
+    /** The original rotated by the corrected skew, at its own size */
+    aligned: Blob | null
+    angle: number
+    scale: number
+}
+
+type RenderedPage = Omit<OcrPageItem, 'id' | 'url' | 'regions' | 'processed' | 'ocrImage' | 'ocr' | 'text' | 'detected'>
+
+type TextView = 'text' | 'table'
+
+// Wait for option changes to settle before preprocessing the preview again
+const PREVIEW_DELAY_MS = 300
+
+type CleanupStep = 'grayscale' | 'contrast' | 'denoise' | 'deskew'
+
+const CLEANUP_STEPS: { id: CleanupStep; label: string; hint: string }[] = [
+    { id: 'grayscale', label: 'Grayscale', hint: 'Drop color' },
+    { id: 'contrast', label: 'Contrast', hint: 'Stretch faded text and gray paper to full black and white' },
+    { id: 'denoise', label: 'Denoise', hint: 'Median filter against speckle and JPEG noise' },
+    { id: 'deskew', label: 'Deskew', hint: 'Straighten tilted text lines' }
+]
+
+// Tesseract is tuned for 300 DPI scans; PDF pages are rendered at that resolution
+const PDF_RENDER_DPI = 300
+
+const baseName = (name: string) => name.replace(/\.[^/.]+$/, '')
+
+type BoxLayer = 'words' | 'lines' | 'blocks'
+
+const BOX_LAYERS: { id: BoxLayer; label: string; borderStyle: string }[] = [
+    { id: 'words', label: 'Words', borderStyle: 'solid' },
+    { id: 'lines', label: 'Lines', borderStyle: 'dotted' },
+    { id: 'blocks', label: 'Blocks', borderStyle: 'dashed' }
+]
+
+const confidenceColor = (confidence: number) =>
+    confidence >= 85 ? '#38ef7d' : confidence >= LOW_CONFIDENCE ? '#f7b733' : '#f5576c'
+
+// Boxes are positioned in percent of the page so they follow the image at any display size
+const percentBox = ({ x0, y0, x1, y1 }: BoundingBox, width: number, height: number): React.CSSProperties => ({
+    position: 'absolute',
+    left: `${(x0 / width) * 100}%`,
+    top: `${(y0 / height) * 100}%`,
+    width: `${((x1 - x0) / width) * 100}%`,
+    height: `${((y1 - y0) / height) * 100}%`,
+    boxSizing: 'border-box'
+})
+
+interface OcrBoxOverlayProps {
+    imageUrl: string
+    page: OcrPage
+    layers: Set<BoxLayer>
+    selectedWordId: number | null
+    onSelectWord: (id: number) => void
+    onCorrectWord: (id: number, text: string) => void
+    children?: React.ReactNode
+}
+
+function OcrBoxOverlay({ imageUrl, page, layers, selectedWordId, onSelectWord, onCorrectWord, children }: OcrBoxOverlayProps) {
+    const [draft, setDraft] = useState<{ id: number; text: string } | null>(null)
+
+    const boxStyle = (box: BoundingBox) => percentBox(box, page.width, page.height)
+
+    const outline = (layer: BoxLayer, confidence: number) =>
+        `${layer === 'words' ? 1 : 2}px ${BOX_LAYERS.find(l => l.id === layer)!.borderStyle} ${confidenceColor(confidence)}`
+
+    const commitDraft = () => {
+        if (draft && draft.text.trim()) onCorrectWord(draft.id, draft.text.trim())
+        setDraft(null)
+    }
+
+    const handleWordClick = (id: number, text: string, confidence: number) => {
+        onSelectWord(id)
+        setDraft(confidence < LOW_CONFIDENCE ? { id, text } : null)
+    }
+
+    const draftWord = draft ? pageWords(page).find(word => word.id === draft.id) : undefined
+
+    return (
+        <div style={{ position: 'relative', display: 'inline-block', maxWidth: '100%' }}>
+            <img src={imageUrl} alt="Preview" style={{ display: 'block', maxWidth: '100%', maxHeight: '400px', borderRadius: '8px' }} />
+
+            {layers.has('blocks') && page.blocks.map((block, i) => (
+                <div key={`b${i}`} style={{ ...boxStyle(block.bbox), border: outline('blocks', block.confidence), pointerEvents: 'none' }} />
+            ))}
+            {layers.has('lines') && pageLines(page).map((line, i) => (
+                <div key={`l${i}`} style={{ ...boxStyle(line.bbox), border: outline('lines', line.confidence), pointerEvents: 'none' }} />
+            ))}
+            {layers.has('words') && pageWords(page).map(word => (
+                <div
+                    key={`w${word.id}`}
+                    onClick={() => handleWordClick(word.id, word.text, word.confidence)}
+                    title={`${word.text} — ${Math.round(word.confidence)}%`}
+                    style={{
+                        ...boxStyle(word.bbox),
+                        border: outline('words', word.confidence),
+                        background: word.id === selectedWordId ? 'rgba(102, 126, 234, 0.35)' : 'transparent',
+                        cursor: 'pointer'
+                    }}
+                />
+            ))}
+
+            {/* In-place correction for low-confidence words */}
+            {draft && draftWord && (
+                <input
+                    autoFocus
+                    value={draft.text}
+                    onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                    onBlur={commitDraft}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitDraft()
+                        if (e.key === 'Escape') setDraft(null)
+                    }}
+                    style={{
+                        ...boxStyle(draftWord.bbox),
+                        top: `${(draftWord.bbox.y1 / page.height) * 100}%`,
+                        height: 'auto',
+                        minWidth: '80px',
+                        padding: '0.25rem 0.5rem',
+                        background: '#1a1a25',
+                        border: '1px solid #f5576c',
+                        borderRadius: '4px',
+                        color: 'white',
+                        fontSize: '0.875rem',
+                        zIndex: 1
+                    }}
+                />
+            )}
+            {children}
+        </div>
+    )
+}
+
+// Smallest region kept, in page pixels; anything less is a stray click
+const MIN_REGION_SIZE = 5
+
+interface RegionLayerProps {
+    width: number
+    height: number
+    regions: BoundingBox[]
+    drawing: boolean
+    onAdd: (region: BoundingBox) => void
+    onRemove: (index: number) => void
+}
+
+// Numbered rectangles over the page; while drawing, dragging adds one
+function RegionLayer({ width, height, regions, drawing, onAdd, onRemove }: RegionLayerProps) {
+    const [draft, setDraft] = useState<{ startX: number; startY: number; region: BoundingBox } | null>(null)
+
+    const toPage = (e: React.MouseEvent) => {
+        const rect = e.currentTarget.getBoundingClientRect()
+        return {
+            x: Math.max(0, Math.min(width, ((e.clientX - rect.left) / rect.width) * width)),
+            y: Math.max(0, Math.min(height, ((e.clientY - rect.top) / rect.height) * height))
+        }
+    }
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        const { x, y } = toPage(e)
+        setDraft({ startX: x, startY: y, region: { x0: x, y0: y, x1: x, y1: y } })
+    }
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!draft) return
+        const { x, y } = toPage(e)
+        setDraft({
+            ...draft,
+            region: { x0: Math.min(draft.startX, x), y0: Math.min(draft.startY, y), x1: Math.max(draft.startX, x), y1: Math.max(draft.startY, y) }
+        })
+    }
+
+    const handleMouseUp = () => {
+        if (draft) {
+            const { x0, y0, x1, y1 } = draft.region
+            if (x1 - x0 >= MIN_REGION_SIZE && y1 - y0 >= MIN_REGION_SIZE) {
+                onAdd({ x0: Math.round(x0), y0: Math.round(y0), x1: Math.round(x1), y1: Math.round(y1) })
+            }
+        }
+        setDraft(null)
+    }
+
+    return (
+        <div
+            onMouseDown={drawing ? handleMouseDown : undefined}
+            onMouseMove={drawing ? handleMouseMove : undefined}
+            onMouseUp={drawing ? handleMouseUp : undefined}
+            onMouseLeave={drawing ? handleMouseUp : undefined}
+            style={{
+                position: 'absolute',
+                inset: 0,
+                cursor: drawing ? 'crosshair' : 'default',
+                pointerEvents: drawing ? 'auto' : 'none',
+                userSelect: 'none',
+                zIndex: 2
+            }}
+        >
+            {regions.map((region, i) => (
+                <div
+                    key={i}
+                    style={{
+                        ...percentBox(region, width, height),
+                        border: '2px dashed #667eea',
+                        background: drawing ? 'rgba(102, 126, 234, 0.15)' : 'transparent'
+                    }}
+                >
+                    <span style={{ position: 'absolute', top: 0, left: 0, padding: '0 0.25rem', background: '#667eea', color: 'white', fontSize: '0.7rem' }}>
+                        {i + 1}
+                    </span>
+                    {drawing && (
+                        <button
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={() => onRemove(i)}
+                            style={{
+                                position: 'absolute',
+                                top: 2,
+                                right: 2,
+                                padding: '0 0.375rem',
+                                background: 'rgba(245, 87, 108, 0.8)',
+                                border: 'none',
+                                borderRadius: 4,
+                                cursor: 'pointer',
+                                color: 'white'
+                            }}
+                        >
+                            ×
+                        </button>
+                    )}
+                </div>
+            ))}
+            {draft && (
+                <div style={{ ...percentBox(draft.region, width, height), border: '2px dashed #667eea', background: 'rgba(102, 126, 234, 0.2)' }} />
+            )}
+        </div>
+    )
+}
+
+interface LanguagePackManagerProps {
+    packs: ReturnType<typeof useOcrLanguagePacks>
+}
+
+// Installed packs with their stored size, others with their download size from this site
+function LanguagePackManager({ packs }: LanguagePackManagerProps) {
+    const [sizes, setSizes] = useState<Record<string, number | null>>({})
+    const [installingCode, setInstallingCode] = useState<string | null>(null)
+    const installing = useCancellableTask()
+    const codes = [...OCR_LANGUAGES.map(language => language.code), OSD_PACK]
+    const storedBytes = packs.installed.reduce((sum, pack) => sum + pack.sizeBytes, 0)
+
+    useEffect(() => {
+        let cancelled = false
+        codes.filter(code => !(code in sizes)).forEach(async code => {
+            const size = await packDownloadSize(code).catch(() => null)
+            if (!cancelled) setSizes(prev => ({ ...prev, [code]: size }))
+        })
+        return () => { cancelled = true }
+    }, [])
+
+    const install = async (code: string) => {
+        setInstallingCode(code)
+        try {
+            await installing.run((signal, onProgress) => packs.install(code, signal, onProgress))
+        } catch (error) {
+            console.error('Error installing language pack:', error)
+            alert(`Could not download ${languageName(code)}. Check your connection and try again.`)
+        } finally {
+            setInstallingCode(null)
+        }
+    }
+
+    const remove = async (code: string) => {
+        try {
+            await packs.remove(code)
+        } catch (error) {
+            console.error('Error removing language pack:', error)
+        }
+    }
+
+    return (
+        <div style={{ marginTop: '0.75rem', display: 'flex', flexDirection: 'column', gap: '0.4rem' }}>
+            {codes.map(code => {
+                const pack = packs.installed.find(p => p.code === code)
+                const size = pack?.sizeBytes ?? sizes[code]
+                return (
+                    <div key={code} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem' }}>
+                        <span style={{ color: pack ? '#38ef7d' : 'rgba(255,255,255,0.4)' }}>{pack ? '✓' : '○'}</span>
+                        <span style={{ flex: 1 }}>{languageName(code)}</span>
+                        <span style={{ color: 'rgba(255,255,255,0.5)' }}>
+                            {installingCode === code ? `${installing.percent}%` : size ? formatFileSize(size) : '—'}
+                        </span>
+                        {installingCode === code ? (
+                            <button className="select-button" onClick={installing.cancel} style={{ padding: '0.25rem 0.6rem' }}>
+                                Cancel
+                            </button>
+                        ) : pack ? (
+                            <button className="select-button" onClick={() => remove(code)} style={{ padding: '0.25rem 0.6rem' }}>
+                                Remove
+                            </button>
+                        ) : (
+                            <button
+                                className="select-button"
+                                onClick={() => install(code)}
+                                disabled={installingCode !== null}
+                                style={{ padding: '0.25rem 0.6rem' }}
+                            >
+                                Install
+                            </button>
+                        )}
+                    </div>
+                )
+            })}
+            <div style={{ marginTop: '0.25rem', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                {packs.installed.length} installed · {formatFileSize(storedBytes)} stored in this browser
+            </div>
+        </div>
+    )
+}
+
+export default function OcrExtractor({ onBack, initialFile }: OcrExtractorProps) {
+    // Every image or PDF page in the batch, recognized in order
+    const [pages, setPages] = useState<OcrPageItem[]>([])
+    const [currentId, setCurrentId] = useState<number | null>(null)
+    const [isBuildingPdf, setIsBuildingPdf] = useState(false)
+    const [selectedWordId, setSelectedWordId] = useState<number | null>(null)
+    const [layers, setLayers] = useState<Set<BoxLayer>>(new Set(['words']))
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const nextPageId = useRef(0)
+    const loading = useCancellableTask()
+    const recognition = useCancellableTask()
+    const preview = useCancellableTask()
+    const [preprocessEnabled, setPreprocessEnabled] = useState(false)
+    const [preprocessOptions, setPreprocessOptions] = useState<OcrPreprocessOptions>(DEFAULT_OCR_PREPROCESS)
+    const [showProcessed, setShowProcessed] = useState(true)
+    const [regionMode, setRegionMode] = useState(false)
+    const [textView, setTextView] = useState<TextView>('text')
     const [isDragging, setIsDragging] = useState(false)
-    const [language, setLanguage] = useState('eng')
+    // Tesseract reads several languages at once when joined with "+", e.g. "eng+hin"
+    const [languages, setLanguages] = useState<string[]>(['eng'])
+    const [autoDetect, setAutoDetect] = useState(false)
+    const [showPackManager, setShowPackManager] = useState(false)
+    const packs = useOcrLanguagePacks()
     const [copied, setCopied] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
-    const languages = [
-        { code: 'eng', name: 'English' },
-        { code: 'spa', name: 'Spanish' },
-        { code: 'fra', name: 'French' },
-        { code: 'deu', name: 'German' },
-        { code: 'ita', name: 'Italian' },
-        { code: 'por', name: 'Portuguese' },
-        { code: 'rus', name: 'Russian' },
-        { code: 'jpn', name: 'Japanese' },
-        { code: 'kor', name: 'Korean' },
-        { code: 'chi_sim', name: 'Chinese (Simplified)' },
-        { code: 'ara', name: 'Arabic' },
-        { code: 'hin', name: 'Hindi' }
-    ]
-
-    // Handle file selection
-    const handleFile = useCallback(async (selectedFile: File) => {
-        if (!selectedFile.type.startsWith('image/')) {
-            alert('Please select an image file')
+    const currentIndex = Math.max(0, pages.findIndex(page => page.id === currentId))
+    const currentPage = pages[currentIndex] as OcrPageItem | undefined
+    // Word, line and block boxes with confidence; drives the overlay, exports and PDF text layer
+    const ocrPage = currentPage?.ocr ?? null
+    const extractedText = currentPage?.text ?? ''
+    const recognizedPages = pages.filter(page => page.ocr)
+    const preprocessKey = JSON.stringify(preprocessOptions)
+    const currentProcessed = preprocessEnabled && currentPage?.processed?.key === preprocessKey ? currentPage.processed : null
+
+    const updatePage = (id: number, changes: Partial<OcrPageItem>) => {
+        setPages(prev => prev.map(page => page.id === id ? { ...page, ...changes } : page))
+    }
+
+    const setExtractedText = (text: string) => {
+        if (currentPage) updatePage(currentPage.id, { text })
+    }
+
+    const toggleLanguage = (code: string) => {
+        setLanguages(prev => prev.includes(code)
+            ? (prev.length > 1 ? prev.filter(c => c !== code) : prev)
+            : [...prev, code])
+    }
+
+    // Rasterize every page of a PDF, as PDF to Image does
+    const renderPdf = async (pdfFile: File, signal: AbortSignal, onProgress: ProgressCallback): Promise<RenderedPage[]> => {
+        const rendered = await renderPdfPages(pdfFile, PDF_RENDER_DPI / PDF_POINTS_PER_INCH, signal, onProgress)
+        return rendered.map(({ pageNumber, image, width, height }) => ({
+            name: `${pdfFile.name} — page ${pageNumber}`,
+            source: pdfFile.name,
+            image,
+            width,
+            height,
+            dpi: PDF_RENDER_DPI
+        }))
+    }
+
+    // Turn images and PDFs into pages, in the order given
+    const loadPages = async (files: File[], signal: AbortSignal, onProgress: ProgressCallback) => {
+        const loaded: OcrPageItem[] = []
+        for (let i = 0; i < files.length; i++) {
+            const file = files[i]
+            const fileProgress = stepProgress(onProgress, i, files.length, files.length > 1 ? `File ${i + 1} of ${files.length}` : undefined)
+            let rendered: RenderedPage[]
+            if (isPdfFile(file)) {
+                rendered = await renderPdf(file, signal, fileProgress)
+            } else {
+                const { width, height } = await abortable(getImageInfo(file), signal)
+                rendered = [{ name: file.name, source: file.name, image: file, width, height }]
+            }
+
+            for (const { name, source, image, width, height, dpi } of rendered) {
+                loaded.push({
+                    id: nextPageId.current++,
+                    name,
+                    source,
+                    image,
+                    url: URL.createObjectURL(image),
+                    width,
+                    height,
+                    dpi,
+                    regions: [],
+                    processed: null,
+                    ocrImage: null,
+                    ocr: null,
+                    text: '',
+                    detected: null
+                })
+            }
+            fileProgress({ fraction: 1 })
+        }
+        return loaded
+    }
+
+    // Handle file selection; new pages are added after the ones already loaded
+    const handleFiles = useCallback(async (selectedFiles: File[]) => {
+        const accepted = selectedFiles.filter(file => isImageFile(file) || isPdfFile(file))
+        if (accepted.length === 0) {
+            alert('Please select image or PDF files')
             return
         }
 
-        setFile(selectedFile)
-        const url = URL.createObjectURL(selectedFile)
-        setPreview(url)
-        setExtractedText('')
-        setProgress(0)
-    }, [])
+        recognition.cancel()
+        try {
+            const loaded = await loading.run((signal, onProgress) => loadPages(accepted, signal, onProgress))
+            if (loaded && loaded.length > 0) {
+                setPages(prev => [...prev, ...loaded])
+                setCurrentId(loaded[0].id)
+                setSelectedWordId(null)
+            }
+        } catch (error) {
+            console.error('Error loading files:', error)
+            alert('Error loading files. Make sure PDFs are valid.')
+        }
+    }, [recognition.cancel, loading.run])
 
-    // Extract text using Tesseract.js
-    const extractText = async () => {
-        if (!file) return
+    const handleInitialFile = useCallback((file: File) => { handleFiles([file]) }, [handleFiles])
+    useInitialFile(initialFile, handleInitialFile)
 
-        setIsProcessing(true)
-        setProgress(0)
-        setExtractedText('')
+    // Run the preprocessing chain in the image worker, reusing the last result for the same options
+    const preparePage = async (page: OcrPageItem, signal: AbortSignal, onProgress: ProgressCallback): Promise<ProcessedImage> => {
+        if (page.processed?.key === preprocessKey) return page.processed
 
-        try {
-            const result = await Tesseract.recognize(file, language, {
-                logger: (m) => {
+        const bitmap = await createImageBitmap(page.image)
+        const result = await runWorkerJob({ type: 'ocrPreprocess', bitmap, options: preprocessOptions }, { signal, onProgress })
+        const processed = { key: preprocessKey, ...result, url: URL.createObjectURL(result.image) }
+        setPages(prev => prev.map(p => {
+            if (p.id !== page.id) return p
+            if (p.processed) URL.revokeObjectURL(p.processed.url)
+            return { ...p, processed }
+        }))
+        return processed
+    }
+
+    // Preview what Tesseract will read for the page on show
+    useEffect(() => {
+        if (!preprocessEnabled || !currentPage || currentPage.processed?.key === preprocessKey || recognition.isRunning) return
+
+        const page = currentPage
+        const timer = setTimeout(async () => {
+            try {
+                await preview.run((signal, onProgress) => preparePage(page, signal, onProgress))
+            } catch (error) {
+                console.error('Error preprocessing page:', error)
+            }
+        }, PREVIEW_DELAY_MS)
+
+        return () => clearTimeout(timer)
+    }, [currentPage?.id, preprocessEnabled, preprocessKey, recognition.isRunning])
+
+    // Turn a page upright as detected; regions turn with it and preprocessing starts over
+    const rotatePage = async (page: OcrPageItem, rotation: PageOrientation['rotation'], signal: AbortSignal): Promise<OcrPageItem> => {
+        if (rotation === 0) return page
+        const image = await abortable(rotateImageQuarter(page.image, rotation), signal)
+        const sideways = rotation !== 180
+        const rotated: OcrPageItem = {
+            ...page,
+            image,
+            url: URL.createObjectURL(image),
+            width: sideways ? page.height : page.width,
+            height: sideways ? page.width : page.height,
+            regions: page.regions.map(region => rotateBox(region, page.width, page.height, rotation)),
+            processed: null,
+            ocrImage: null
+        }
+        revokePageUrls(page)
+        setPages(prev => prev.map(p => p.id === page.id ? rotated : p))
+        return rotated
+    }
+
+    // Recognize pages in sequence, with one Tesseract worker per language combination in use,
+    // all terminated when done or cancelled. Missing language packs are installed first. Each
+    // page's result is kept as soon as it is ready, so cancelling keeps finished pages.
+    const recognizePages = async (targets: OcrPageItem[], signal: AbortSignal, onProgress: ProgressCallback) => {
+        let report = onProgress
+        const ready = new Set(packs.installed.map(pack => pack.code))
+        const ensurePacks = async (codes: string[], progress: ProgressCallback) => {
+            const missing = codes.filter(code => !ready.has(code))
+            for (let i = 0; i < missing.length; i++) {
+                await packs.install(missing[i], signal, stepProgress(progress, i, missing.length, `Installing ${languageName(missing[i])}`))
+                ready.add(missing[i])
+            }
+        }
+
+        const recognizers = new Map<string, Promise<OcrWorker>>()
+        const recognizer = (codes: string[]) => {
+            const key = codes.join('+')
+            if (!recognizers.has(key)) {
+                recognizers.set(key, createRecognizer(codes, (m) => {
                     if (m.status === 'recognizing text') {
-                        setProgress(Math.round(m.progress * 100))
+                        report({ fraction: m.progress, label: m.status })
+                    }
+                }))
+            }
+            return abortable(recognizers.get(key)!, signal)
+        }
+        let detectorPromise: Promise<OcrWorker> | null = null
+        const terminate = () => {
+            recognizers.forEach(workerPromise => workerPromise.then(worker => worker.terminate(), () => {}))
+            detectorPromise?.then(worker => worker.terminate(), () => {})
+        }
+
+        try {
+            await ensurePacks(autoDetect ? [...languages, OSD_PACK] : languages, onProgress)
+            if (autoDetect) detectorPromise = createDetector()
+
+            for (let i = 0; i < targets.length; i++) {
+                let target = targets[i]
+                const pageProgress = stepProgress(onProgress, i, targets.length, `Page ${i + 1} of ${targets.length}`)
+                pageProgress({ fraction: 0 })
+
+                // Upright the page first, and read it in its own script when the selection
+                // has no language written in it
+                let codes = languages
+                if (detectorPromise) {
+                    const detected = await detectOrientation(await abortable(detectorPromise, signal), target.image)
+                    target = await rotatePage(target, detected.rotation, signal)
+                    updatePage(target.id, { detected })
+
+                    const candidates = detected.script ? languagesForScript(detected.script) : []
+                    if (candidates.length > 0 && !candidates.some(language => languages.includes(language.code))) {
+                        codes = [candidates[0].code]
+                        await ensurePacks(codes, pageProgress)
                     }
                 }
-            })
+                const worker = await recognizer(codes)
+
+                // Tesseract reads the preprocessed copy; its boxes are mapped back onto the
+                // original, deskewed like the copy so they still line up
+                const processed = preprocessEnabled ? await preparePage(target, signal, stepProgress(pageProgress, 0, 2)) : null
+                report = processed ? stepProgress(pageProgress, 1, 2) : pageProgress
 
-            setExtractedText(result.data.text.trim())
+                const image = processed?.image ?? target.image
+                const scale = processed?.scale ?? 1
+                const width = Math.round(target.width * scale)
+                const height = Math.round(target.height * scale)
+
+                // Only the selected regions are read when there are any, turned with the page
+                // when it was deskewed; Tesseract still reports boxes in whole-image pixels
+                const angle = processed?.angle ?? 0
+                const rectangles = target.regions.map(region => deskewBox(region, target.width, target.height, angle)).map(({ x0, y0, x1, y1 }) => ({
+                    left: Math.round(x0 * scale),
+                    top: Math.round(y0 * scale),
+                    width: Math.round((x1 - x0) * scale),
+                    height: Math.round((y1 - y0) * scale)
+                }))
+                const ocrProgress = report
+                const parts: OcrPage[] = []
+                for (const [j, rectangle] of (rectangles.length > 0 ? rectangles : [undefined]).entries()) {
+                    report = stepProgress(ocrProgress, j, Math.max(1, rectangles.length))
+                    const result = await abortable(worker.recognize(image, rectangle ? { rectangle } : {}, { text: true, blocks: true }), signal)
+                    parts.push(pageFromTesseract(result.data, width, height))
+                }
+                const ocr = resizePage(mergePages(parts, width, height), target.width, target.height)
+                const ocrImage = processed?.aligned ? { image: processed.aligned, url: URL.createObjectURL(processed.aligned), angle } : null
+                if (target.ocrImage) URL.revokeObjectURL(target.ocrImage.url)
+                updatePage(target.id, { ocr, ocrImage, text: pageText(ocr).text })
+            }
+        } finally {
+            terminate()
+        }
+    }
+
+    // Extract text using Tesseract.js: pages not yet recognized, or all of them again
+    const extractText = async (all: boolean) => {
+        const targets = all ? pages : pages.filter(page => !page.ocr)
+        if (targets.length === 0) return
+
+        if (all) setPages(prev => prev.map(page => ({ ...page, ocr: null, text: '' })))
+        preview.cancel()
+        setSelectedWordId(null)
+
+        try {
+            await recognition.run((signal, onProgress) => recognizePages(targets, signal, onProgress))
         } catch (error) {
             console.error('Error extracting text:', error)
             alert('Error extracting text from image')
-        } finally {
-            setIsProcessing(false)
-            setProgress(100)
         }
     }
 
@@ -86,43 +667,174 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault()
         setIsDragging(false)
-        const droppedFile = e.dataTransfer.files[0]
-        if (droppedFile) handleFile(droppedFile)
-    }, [handleFile])
+        if (e.dataTransfer.files.length > 0) handleFiles(Array.from(e.dataTransfer.files))
+    }, [handleFiles])
+
+    const generatedText = useMemo(() => ocrPage ? pageText(ocrPage) : null, [ocrPage])
+    const currentTables = useMemo(() => currentPage ? pageTables(currentPage) : [], [currentPage?.ocr, currentPage?.regions])
+    const lowConfidenceCount = useMemo(() => ocrPage ? pageWords(ocrPage).filter(w => w.confidence < LOW_CONFIDENCE).length : 0, [ocrPage])
+
+    const revokePageUrls = (page: OcrPageItem) => {
+        URL.revokeObjectURL(page.url)
+        if (page.processed) URL.revokeObjectURL(page.processed.url)
+        if (page.ocrImage) URL.revokeObjectURL(page.ocrImage.url)
+    }
+
+    // Regions decide what is read, so changing them sends the page back for recognition
+    const setRegions = (regions: BoundingBox[]) => {
+        if (!currentPage) return
+        if (currentPage.ocrImage) URL.revokeObjectURL(currentPage.ocrImage.url)
+        updatePage(currentPage.id, { regions, ocrImage: null, ocr: null, text: '' })
+        setSelectedWordId(null)
+    }
+
+    // One table per region, or one for the whole page; the words line up with the deskewed page
+    const pageTables = (page: OcrPageItem): Table[] => {
+        if (!page.ocr) return []
+        const words = pageWords(page.ocr)
+        const angle = page.ocrImage?.angle ?? 0
+        const regions = page.regions.map(region => deskewBox(region, page.width, page.height, angle))
+        const groups = regions.length > 0 ? regions.map(region => wordsInRegion(words, region)) : [words]
+        return groups.map(extractTable).filter(table => table.length > 0)
+    }
+
+    const toggleCleanupStep = (step: CleanupStep) => {
+        setPreprocessOptions(prev => ({ ...prev, [step]: !prev[step] }))
+    }
+
+    const selectPage = (id: number) => {
+        setCurrentId(id)
+        setSelectedWordId(null)
+    }
+
+    // Removing the page on show moves to its neighbour
+    const removePage = (index: number) => {
+        const page = pages[index]
+        revokePageUrls(page)
+        setPages(prev => prev.filter(p => p.id !== page.id))
+        if (page.id === currentPage?.id) setCurrentId(pages[index + 1]?.id ?? pages[index - 1]?.id ?? null)
+        setSelectedWordId(null)
+    }
+
+    // Select a word's text in the textarea; after free-form edits, fall back to searching for it
+    const highlightWord = (page: OcrPage, id: number, text: string) => {
+        const textarea = textareaRef.current
+        const word = pageWords(page).find(w => w.id === id)
+        if (!textarea || !word) return
+
+        const generated = pageText(page)
+        const start = text === generated.text ? generated.ranges[id][0] : text.indexOf(word.text)
+        if (start < 0) return
+
+        textarea.focus()
+        textarea.setSelectionRange(start, start + word.text.length)
+    }
+
+    const handleSelectWord = (id: number) => {
+        if (!ocrPage) return
+        setSelectedWordId(id)
+        highlightWord(ocrPage, id, extractedText)
+    }
+
+    // Word corrections flow into the text unless it has been edited by hand since recognition
+    const handleCorrectWord = (id: number, text: string) => {
+        if (!currentPage || !ocrPage) return
+        const corrected = correctWord(ocrPage, id, text)
+        const textUntouched = extractedText === generatedText?.text
+        const nextText = textUntouched ? pageText(corrected).text : extractedText
+
+        updatePage(currentPage.id, { ocr: corrected, text: nextText })
+        setTimeout(() => highlightWord(corrected, id, nextText), 0)
+    }
+
+    const toggleLayer = (layer: BoxLayer) => {
+        setLayers(prev => {
+            const next = new Set(prev)
+            if (next.has(layer)) next.delete(layer)
+            else next.add(layer)
+            return next
+        })
+    }
 
-    // Copy text to clipboard
+    // Copy text to clipboard; tables go as TSV, which spreadsheets paste into cells
     const copyText = () => {
-        navigator.clipboard.writeText(extractedText)
+        navigator.clipboard.writeText(textView === 'table' ? formatTables(currentTables, 'tsv') : extractedText)
         setCopied(true)
         setTimeout(() => setCopied(false), 2000)
     }
 
-    // Download as text file
-    const downloadText = () => {
-        const blob = new Blob([extractedText], { type: 'text/plain' })
-        const url = URL.createObjectURL(blob)
-        const a = document.createElement('a')
-        a.href = url
-        a.download = 'extracted_text.txt'
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
+    // Named after the source file when the batch came from one, e.g. a multi-page PDF
+    const documentName = () => {
+        const sources = new Set(pages.map(page => page.source))
+        return sources.size === 1 ? baseName(pages[0].source) : 'extracted_text'
+    }
+
+    // The original pages with the recognized words as an invisible, selectable text layer
+    const downloadSearchablePdf = async () => {
+        if (recognizedPages.length === 0) return
+
+        setIsBuildingPdf(true)
+        try {
+            const name = documentName()
+            const pdf = await buildSearchablePdf(
+                recognizedPages.map(page => ({ image: page.ocrImage?.image ?? page.image, ocr: page.ocr!, dpi: page.dpi })),
+                { title: name }
+            )
+            downloadBlob(pdf, `${name}_searchable.pdf`)
+        } catch (error) {
+            console.error('Error creating PDF:', error)
+            alert('Error creating searchable PDF')
+        } finally {
+            setIsBuildingPdf(false)
+        }
+    }
+
+    // Every recognized page as text, Markdown, or hOCR / ALTO / JSON with word boxes
+    const downloadExport = (format: OcrExportFormat) => {
+        if (recognizedPages.length === 0) return
+        const { extension } = OCR_EXPORT_FORMATS.find(f => f.id === format)!
+        const name = documentName()
+        const documentPages = recognizedPages.map(page => ({ name: page.name, ocr: page.ocr!, text: page.text }))
+        downloadBlob(exportOcr(format, documentPages, name, languages.join('+')), `${name}.${extension}`)
+    }
+
+    // The tables of every recognized page, one after another
+    const downloadTables = (format: TableFormat) => {
+        const { extension } = TABLE_FORMATS.find(f => f.id === format)!
+        downloadBlob(exportTables(recognizedPages.flatMap(pageTables), format), `${documentName()}_tables.${extension}`)
     }
 
     // Reset
     const handleReset = () => {
-        if (preview) URL.revokeObjectURL(preview)
-        setFile(null)
-        setPreview(null)
-        setExtractedText('')
-        setProgress(0)
+        recognition.cancel()
+        loading.cancel()
+        preview.cancel()
+        pages.forEach(revokePageUrls)
+        setPages([])
+        setCurrentId(null)
+        setSelectedWordId(null)
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
     // Word and character count
     const wordCount = extractedText ? extractedText.split(/\s+/).filter(w => w).length : 0
     const charCount = extractedText.length
+    const pendingCount = pages.length - recognizedPages.length
+
+    const busyTask = loading.isRunning ? loading : recognition
+
+    // Regions are kept on the page as loaded and turned to match a deskewed image on show
+    const shownAngle = ocrPage ? currentPage?.ocrImage?.angle ?? 0 : showProcessed && currentProcessed ? currentProcessed.angle : 0
+    const regionLayer = currentPage && (
+        <RegionLayer
+            width={currentPage.width}
+            height={currentPage.height}
+            regions={currentPage.regions.map(region => deskewBox(region, currentPage.width, currentPage.height, shownAngle))}
+            drawing={regionMode}
+            onAdd={(region) => setRegions([...currentPage.regions, deskewBox(region, currentPage.width, currentPage.height, -shownAngle)])}
+            onRemove={(index) => setRegions(currentPage.regions.filter((_, i) => i !== index))}
+        />
+    )
 
     return (
         <div className="tool-page">
@@ -131,7 +843,19 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                 <h1 className="tool-title">OCR Text Extractor</h1>
             </div>
 
-            {!file ? (
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*,application/pdf"
+                multiple
+                onChange={(e) => {
+                    if (e.target.files) handleFiles(Array.from(e.target.files))
+                    e.target.value = ''
+                }}
+                style={{ display: 'none' }}
+            />
+
+            {!currentPage ? (
                 <div
                     className={`dropzone ${isDragging ? 'dragging' : ''}`}
                     onClick={() => fileInputRef.current?.click()}
@@ -141,68 +865,304 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                 >
                     <div className="dropzone-content">
                         <div className="dropzone-icon">📝</div>
-                        <p className="dropzone-text">Drop your image here or click to browse</p>
-                        <p className="dropzone-hint">Extract text from screenshots, documents, photos, or handwriting</p>
+                        <p className="dropzone-text">Drop images or a PDF here or click to browse</p>
+                        <p className="dropzone-hint">Extract text from screenshots, documents, photos, or handwriting • Multi-page PDFs and batches of images are read page by page</p>
                     </div>
-                    <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept="image/*"
-                        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
-                        style={{ display: 'none' }}
-                    />
                 </div>
             ) : (
                 <>
+                    {/* Pages */}
+                    {pages.length > 1 && (
+                        <div className="controls-panel" style={{ marginBottom: '1.5rem' }}>
+                            <h4 style={{ marginBottom: '1rem' }}>
+                                Pages ({pages.length})
+                                <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', fontWeight: 400, color: 'rgba(255,255,255,0.5)' }}>
+                                    {recognizedPages.length} of {pages.length} recognized
+                                </span>
+                            </h4>
+                            <div style={{ display: 'flex', gap: '0.75rem', overflowX: 'auto', paddingBottom: '0.5rem' }}>
+                                {pages.map((page, index) => (
+                                    <div
+                                        key={page.id}
+                                        onClick={() => selectPage(page.id)}
+                                        title={page.name}
+                                        style={{
+                                            position: 'relative',
+                                            flexShrink: 0,
+                                            width: 90,
+                                            padding: '0.375rem',
+                                            background: index === currentIndex ? 'rgba(102, 126, 234, 0.2)' : 'rgba(255,255,255,0.03)',
+                                            border: `1px solid ${index === currentIndex ? '#667eea' : 'transparent'}`,
+                                            borderRadius: '8px',
+                                            cursor: 'pointer',
+                                            textAlign: 'center'
+                                        }}
+                                    >
+                                        <img
+                                            src={page.url}
+                                            alt={`Page ${index + 1}`}
+                                            style={{ width: '100%', height: 90, objectFit: 'cover', borderRadius: 6 }}
+                                        />
+                                        <div style={{ fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                                            <span style={{ color: page.ocr ? '#38ef7d' : 'rgba(255,255,255,0.5)' }}>{page.ocr ? '✓' : '○'}</span> Page {index + 1}
+                                        </div>
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); removePage(index) }}
+                                            disabled={recognition.isRunning}
+                                            style={{
+                                                position: 'absolute',
+                                                top: 4,
+                                                right: 4,
+                                                padding: '0.125rem 0.375rem',
+                                                background: 'rgba(245, 87, 108, 0.2)',
+                                                border: 'none',
+                                                borderRadius: 6,
+                                                cursor: 'pointer',
+                                                color: '#f5576c'
+                                            }}
+                                        >
+                                            ×
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Image Preview and Controls */}
                     <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem' }}>
-                        <div className="image-preview-container" style={{ margin: 0 }}>
-                            <img src={preview!} alt="Preview" className="image-preview" />
+                        <div className="image-preview-container" style={{ margin: 0, textAlign: 'center' }}>
+                            {ocrPage ? (
+                                <>
+                                    <OcrBoxOverlay
+                                        imageUrl={currentPage.ocrImage?.url ?? currentPage.url}
+                                        page={ocrPage}
+                                        layers={layers}
+                                        selectedWordId={selectedWordId}
+                                        onSelectWord={handleSelectWord}
+                                        onCorrectWord={handleCorrectWord}
+                                    >
+                                        {regionLayer}
+                                    </OcrBoxOverlay>
+                                    <div className="select-buttons" style={{ marginTop: '0.75rem', justifyContent: 'center' }}>
+                                        {BOX_LAYERS.map(layer => (
+                                            <button
+                                                key={layer.id}
+                                                className={`select-button ${layers.has(layer.id) ? 'active' : ''}`}
+                                                onClick={() => toggleLayer(layer.id)}
+                                            >
+                                                {layer.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                                        <span style={{ color: '#38ef7d' }}>■</span> ≥85%{' '}
+                                        <span style={{ color: '#f7b733' }}>■</span> ≥{LOW_CONFIDENCE}%{' '}
+                                        <span style={{ color: '#f5576c' }}>■</span> below — click a red word to correct it
+                                    </div>
+                                </>
+                            ) : (
+                                <>
+                                    <div style={{ position: 'relative', display: 'inline-block', maxWidth: '100%' }}>
+                                        <img
+                                            src={showProcessed && currentProcessed ? currentProcessed.url : currentPage.url}
+                                            alt="Preview"
+                                            className="image-preview"
+                                            draggable={false}
+                                        />
+                                        {regionLayer}
+                                    </div>
+                                    {preprocessEnabled && (
+                                        <>
+                                            <div className="select-buttons" style={{ marginTop: '0.75rem', justifyContent: 'center' }}>
+                                                <button className={`select-button ${!showProcessed ? 'active' : ''}`} onClick={() => setShowProcessed(false)}>
+                                                    Original
+                                                </button>
+                                                <button className={`select-button ${showProcessed ? 'active' : ''}`} onClick={() => setShowProcessed(true)}>
+                                                    What OCR Reads
+                                                </button>
+                                            </div>
+                                            <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                                                {currentProcessed
+                                                    ? [
+                                                        currentProcessed.angle !== 0 ? `Straightened ${currentProcessed.angle > 0 ? '+' : ''}${currentProcessed.angle.toFixed(1)}°` : preprocessOptions.deskew ? 'No skew found' : null,
+                                                        currentProcessed.scale > 1 ? `Upscaled ${Math.round(currentProcessed.scale * 100) / 100}×` : null
+                                                    ].filter(Boolean).join(' • ') || 'Preprocessed'
+                                                    : `Preparing preview... ${preview.percent}%`}
+                                            </div>
+                                        </>
+                                    )}
+                                </>
+                            )}
+                            <div className="select-buttons" style={{ marginTop: '0.75rem', justifyContent: 'center' }}>
+                                <button
+                                    className={`select-button ${regionMode ? 'active' : ''}`}
+                                    onClick={() => setRegionMode(!regionMode)}
+                                    title="Drag rectangles on the image to read only those parts"
+                                >
+                                    ⬚ Select Regions{currentPage.regions.length > 0 ? ` (${currentPage.regions.length})` : ''}
+                                </button>
+                                {currentPage.regions.length > 0 && (
+                                    <button className="select-button" onClick={() => setRegions([])}>
+                                        Clear Regions
+                                    </button>
+                                )}
+                            </div>
+                            {regionMode && (
+                                <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                                    📌 Drag on the image to add a region; changing regions re-reads this page
+                                </div>
+                            )}
                         </div>
 
                         <div className="controls-panel" style={{ margin: 0 }}>
                             <div className="control-group">
                                 <label className="control-label">
-                                    <span>Language</span>
+                                    <span>Languages</span>
+                                    <span className="control-value">{languages.join('+')}</span>
                                 </label>
-                                <select
-                                    value={language}
-                                    onChange={(e) => setLanguage(e.target.value)}
-                                    style={{
-                                        width: '100%',
-                                        padding: '0.75rem 1rem',
-                                        background: 'rgba(255,255,255,0.05)',
-                                        border: '1px solid rgba(255,255,255,0.1)',
-                                        borderRadius: '8px',
-                                        color: 'white',
-                                        fontSize: '1rem',
-                                        cursor: 'pointer'
-                                    }}
-                                >
-                                    {languages.map(lang => (
-                                        <option key={lang.code} value={lang.code} style={{ background: '#1a1a25' }}>
-                                            {lang.name}
-                                        </option>
+                                <div className="select-buttons" style={{ flexWrap: 'wrap' }}>
+                                    {OCR_LANGUAGES.map(language => (
+                                        <button
+                                            key={language.code}
+                                            className={`select-button ${languages.includes(language.code) ? 'active' : ''}`}
+                                            onClick={() => toggleLanguage(language.code)}
+                                            title={packs.isInstalled(language.code) ? 'Installed' : 'Downloaded on first use'}
+                                        >
+                                            {language.name}{packs.isInstalled(language.code) ? '' : ' ↓'}
+                                        </button>
                                     ))}
-                                </select>
+                                </div>
+                                {languages.length > 1 && (
+                                    <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>
+                                        📌 Pages are read in all selected languages at once; each one slows recognition a little
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="control-group">
+                                <label className="control-label">
+                                    <span>Script & Orientation</span>
+                                </label>
+                                <div className="select-buttons">
+                                    <button className={`select-button ${!autoDetect ? 'active' : ''}`} onClick={() => setAutoDetect(false)}>
+                                        As Selected
+                                    </button>
+                                    <button
+                                        className={`select-button ${autoDetect ? 'active' : ''}`}
+                                        onClick={() => setAutoDetect(true)}
+                                        title="Turn sideways and upside-down pages upright, and switch language when a page is in another script"
+                                    >
+                                        Auto-detect
+                                    </button>
+                                </div>
+                            </div>
+
+                            <div className="control-group">
+                                <button className="secondary-button" onClick={() => setShowPackManager(!showPackManager)} style={{ width: '100%' }}>
+                                    {showPackManager ? 'Hide' : 'Manage'} Language Packs
+                                </button>
+                                {showPackManager && <LanguagePackManager packs={packs} />}
+                            </div>
+
+                            <div className="control-group" style={{ marginTop: '1rem' }}>
+                                <label className="control-label">
+                                    <span>Preprocessing</span>
+                                </label>
+                                <div className="select-buttons">
+                                    <button className={`select-button ${!preprocessEnabled ? 'active' : ''}`} onClick={() => setPreprocessEnabled(false)}>
+                                        Off
+                                    </button>
+                                    <button
+                                        className={`select-button ${preprocessEnabled ? 'active' : ''}`}
+                                        onClick={() => setPreprocessEnabled(true)}
+                                        title="Clean up phone photos and poor scans before recognition"
+                                    >
+                                        On
+                                    </button>
+                                </div>
                             </div>
 
-                            {!isProcessing && !extractedText && (
+                            {preprocessEnabled && (
+                                <>
+                                    <div className="control-group">
+                                        <label className="control-label">
+                                            <span>Clean-up</span>
+                                        </label>
+                                        <div className="select-buttons" style={{ flexWrap: 'wrap' }}>
+                                            {CLEANUP_STEPS.map(step => {
+                                                // Denoising and binarization need grayscale, so it stays on with them
+                                                const implied = step.id === 'grayscale' && outputsGrayscale({ ...preprocessOptions, grayscale: false })
+                                                return (
+                                                    <button
+                                                        key={step.id}
+                                                        className={`select-button ${preprocessOptions[step.id] || implied ? 'active' : ''}`}
+                                                        onClick={() => toggleCleanupStep(step.id)}
+                                                        disabled={implied}
+                                                        title={implied ? 'Needed by denoise and binarization' : step.hint}
+                                                    >
+                                                        {step.label}
+                                                    </button>
+                                                )
+                                            })}
+                                        </div>
+                                    </div>
+
+                                    <div className="control-group">
+                                        <label className="control-label">
+                                            <span>Binarization</span>
+                                        </label>
+                                        <div className="select-buttons">
+                                            {BINARIZE_METHODS.map(method => (
+                                                <button
+                                                    key={method.id}
+                                                    className={`select-button ${preprocessOptions.binarize === method.id ? 'active' : ''}`}
+                                                    onClick={() => setPreprocessOptions(prev => ({ ...prev, binarize: method.id }))}
+                                                    title={method.hint}
+                                                >
+                                                    {method.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="control-group">
+                                        <label className="control-label">
+                                            <span>Upscale</span>
+                                            <span className="control-value">{preprocessOptions.upscale}×</span>
+                                        </label>
+                                        <div className="select-buttons">
+                                            {UPSCALE_FACTORS.map(factor => (
+                                                <button
+                                                    key={factor}
+                                                    className={`select-button ${preprocessOptions.upscale === factor ? 'active' : ''}`}
+                                                    onClick={() => setPreprocessOptions(prev => ({ ...prev, upscale: factor }))}
+                                                    title={factor > 1 ? 'Enlarge small text towards the ~300 DPI Tesseract expects' : 'Keep the original size'}
+                                                >
+                                                    {factor === 1 ? 'Off' : `${factor}×`}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
+                            {!recognition.isRunning && pendingCount > 0 && (
                                 <button
                                     className="download-button"
-                                    onClick={extractText}
+                                    onClick={() => extractText(false)}
                                     style={{ width: '100%', marginTop: '1rem' }}
                                 >
-                                    🔍 Extract Text
+                                    🔍 Extract Text{pages.length > 1 ? ` (${pendingCount} page${pendingCount > 1 ? 's' : ''})` : ''}
                                 </button>
                             )}
 
-                            {isProcessing && (
+                            {recognition.isRunning && (
                                 <div style={{ marginTop: '1rem', textAlign: 'center' }}>
                                     <div style={{ marginBottom: '0.5rem', color: 'rgba(255,255,255,0.7)' }}>
-                                        {progress < 30 ? 'Loading OCR engine...' :
-                                            progress < 90 ? 'Recognizing text...' :
-                                                'Finishing up...'}
+                                        {recognition.progress?.label && recognition.progress.fraction > 0
+                                            ? recognition.progress.label
+                                            : 'Loading OCR engine...'}
                                     </div>
                                     <div style={{
                                         width: '100%',
@@ -212,18 +1172,18 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                                         overflow: 'hidden'
                                     }}>
                                         <div style={{
-                                            width: `${progress}%`,
+                                            width: `${recognition.percent}%`,
                                             height: '100%',
                                             background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
                                             borderRadius: '4px',
                                             transition: 'width 0.3s ease'
                                         }} />
                                     </div>
-                                    <div style={{ marginTop: '0.5rem', color: 'rgba(255,255,255,0.5)' }}>{progress}%</div>
+                                    <div style={{ marginTop: '0.5rem', color: 'rgba(255,255,255,0.5)' }}>{recognition.percent}%</div>
                                 </div>
                             )}
 
-                            {extractedText && (
+                            {ocrPage && (
                                 <div style={{ marginTop: '1rem' }}>
                                     <div className="image-info" style={{ justifyContent: 'flex-start', gap: '0.5rem' }}>
                                         <span className="info-badge">
@@ -232,6 +1192,18 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                                         <span className="info-badge">
                                             <span className="info-badge-value">{charCount} characters</span>
                                         </span>
+                                        {lowConfidenceCount > 0 && (
+                                            <span className="info-badge">
+                                                <span className="info-badge-value" style={{ color: '#f5576c' }}>{lowConfidenceCount} low confidence</span>
+                                            </span>
+                                        )}
+                                        {currentPage?.detected && (
+                                            <span className="info-badge">
+                                                <span className="info-badge-value">
+                                                    {currentPage.detected.script ?? 'Unknown script'}{currentPage.detected.rotation ? ` · turned ${currentPage.detected.rotation}°` : ''}
+                                                </span>
+                                            </span>
+                                        )}
                                     </div>
                                 </div>
                             )}
@@ -239,56 +1211,132 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                     </div>
 
                     {/* Extracted Text */}
-                    {extractedText && (
+                    {recognizedPages.length > 0 && (
                         <div className="controls-panel" style={{ marginTop: '1.5rem' }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
-                                <h4>Extracted Text</h4>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                                    <h4>Extracted Text{pages.length > 1 ? ` — Page ${currentIndex + 1}` : ''}</h4>
+                                    <div className="select-buttons">
+                                        <button className={`select-button ${textView === 'text' ? 'active' : ''}`} onClick={() => setTextView('text')}>
+                                            Text
+                                        </button>
+                                        <button
+                                            className={`select-button ${textView === 'table' ? 'active' : ''}`}
+                                            onClick={() => setTextView('table')}
+                                            title="Words arranged into rows and columns"
+                                        >
+                                            Table
+                                        </button>
+                                    </div>
+                                </div>
                                 <div style={{ display: 'flex', gap: '0.5rem' }}>
                                     <button
                                         className="secondary-button"
                                         onClick={copyText}
+                                        disabled={!ocrPage}
                                         style={{ padding: '0.5rem 1rem' }}
                                     >
                                         {copied ? '✓ Copied!' : '📋 Copy'}
                                     </button>
                                     <button
                                         className="secondary-button"
-                                        onClick={downloadText}
+                                        onClick={downloadSearchablePdf}
+                                        disabled={isBuildingPdf}
+                                        title="Your pages with an invisible text layer, searchable in any PDF reader"
                                         style={{ padding: '0.5rem 1rem' }}
                                     >
-                                        ⬇️ Download
+                                        {isBuildingPdf ? '⏳ Building...' : '📄 Searchable PDF'}
                                     </button>
                                 </div>
                             </div>
-                            <textarea
-                                value={extractedText}
-                                onChange={(e) => setExtractedText(e.target.value)}
-                                style={{
-                                    width: '100%',
-                                    minHeight: '200px',
-                                    padding: '1rem',
-                                    background: 'rgba(0,0,0,0.3)',
-                                    border: '1px solid rgba(255,255,255,0.1)',
-                                    borderRadius: '8px',
-                                    color: 'white',
-                                    fontSize: '1rem',
-                                    lineHeight: 1.6,
-                                    resize: 'vertical',
-                                    fontFamily: 'inherit'
-                                }}
-                            />
+                            {ocrPage && textView === 'table' ? (
+                                <div style={{ overflow: 'auto', maxHeight: '400px' }}>
+                                    {currentTables.length === 0 && (
+                                        <div style={{ padding: '1rem', color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+                                            No words found on this page.
+                                        </div>
+                                    )}
+                                    {currentTables.map((table, t) => (
+                                        <table key={t} style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', marginBottom: '1rem' }}>
+                                            <tbody>
+                                                {table.map((row, r) => (
+                                                    <tr key={r}>
+                                                        {row.map((cell, c) => (
+                                                            <td key={c} style={{ padding: '0.375rem 0.75rem', border: '1px solid rgba(255,255,255,0.1)' }}>
+                                                                {cell}
+                                                            </td>
+                                                        ))}
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    ))}
+                                </div>
+                            ) : ocrPage ? (
+                                <textarea
+                                    ref={textareaRef}
+                                    value={extractedText}
+                                    onChange={(e) => setExtractedText(e.target.value)}
+                                    style={{
+                                        width: '100%',
+                                        minHeight: '200px',
+                                        padding: '1rem',
+                                        background: 'rgba(0,0,0,0.3)',
+                                        border: '1px solid rgba(255,255,255,0.1)',
+                                        borderRadius: '8px',
+                                        color: 'white',
+                                        fontSize: '1rem',
+                                        lineHeight: 1.6,
+                                        resize: 'vertical',
+                                        fontFamily: 'inherit'
+                                    }}
+                                />
+                            ) : (
+                                <div style={{ padding: '1rem', color: 'rgba(255,255,255,0.5)', fontSize: '0.875rem' }}>
+                                    This page hasn't been recognized yet.
+                                </div>
+                            )}
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '1rem', flexWrap: 'wrap' }}>
+                                <span style={{ fontSize: '0.875rem', color: 'rgba(255,255,255,0.7)' }}>
+                                    Download{recognizedPages.length > 1 ? ` all ${recognizedPages.length} pages` : ''}:
+                                </span>
+                                {textView === 'table'
+                                    ? TABLE_FORMATS.map(format => (
+                                        <button
+                                            key={format.id}
+                                            className="secondary-button"
+                                            onClick={() => downloadTables(format.id)}
+                                            style={{ padding: '0.5rem 1rem' }}
+                                        >
+                                            {format.label}
+                                        </button>
+                                    ))
+                                    : OCR_EXPORT_FORMATS.map(format => (
+                                        <button
+                                            key={format.id}
+                                            className="secondary-button"
+                                            onClick={() => downloadExport(format.id)}
+                                            style={{ padding: '0.5rem 1rem' }}
+                                        >
+                                            {format.label}
+                                        </button>
+                                    ))}
+                            </div>
                         </div>
                     )}
 
                     {/* Action Buttons */}
                     <div className="actions-bar">
                         <button className="secondary-button" onClick={handleReset}>
-                            🔄 Upload New Image
+                            🔄 Start Over
+                        </button>
+                        <button className="secondary-button" onClick={() => fileInputRef.current?.click()}>
+                            ➕ Add More
                         </button>
-                        {extractedText && (
+                        {recognizedPages.length > 0 && (
                             <button
                                 className="download-button"
-                                onClick={extractText}
+                                onClick={() => extractText(true)}
                             >
                                 🔄 Re-extract Text
                             </button>
@@ -296,7 +1344,7 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                     </div>
 
                     {/* Info Note */}
-                    {!extractedText && !isProcessing && (
+                    {recognizedPages.length === 0 && !recognition.isRunning && (
                         <div style={{
                             marginTop: '1.5rem',
                             padding: '1rem',
@@ -306,21 +1354,26 @@ export default function OcrExtractor({ onBack }: OcrExtractorProps) {
                             color: 'rgba(255,255,255,0.7)',
                             fontSize: '0.875rem'
                         }}>
-                            ℹ️ First use downloads the OCR model (~15MB). Processing happens locally in your browser.
+                            ℹ️ Language packs download once from this site and stay in your browser for offline use. Processing happens locally.
                         </div>
                     )}
                 </>
             )}
 
             {/* Processing Overlay */}
-            {isProcessing && (
+            {busyTask.isRunning && (
                 <div className="processing-overlay">
                     <div className="processing-content">
                         <div className="processing-spinner" />
-                        <div className="processing-text">Extracting Text...</div>
+                        <div className="processing-text">{loading.isRunning ? 'Loading Pages...' : 'Extracting Text...'}</div>
                         <div className="processing-hint">
-                            {progress < 30 ? 'Loading OCR engine...' : 'Recognizing text...'}
+                            {busyTask.progress?.label && busyTask.progress.fraction > 0
+                                ? `${busyTask.progress.label} • ${busyTask.percent}%`
+                                : loading.isRunning ? 'Reading files...' : 'Loading OCR engine...'}
                         </div>
+                        <button className="secondary-button" onClick={busyTask.cancel} style={{ marginTop: '1rem' }}>
+                            ✖ Cancel
+                        </button>
                     </div>
                 </div>
             )}
@@ -1,23 +1,26 @@
 import { saveAs } from 'file-saver'
 import JSZip from 'jszip'
-import { PDFDocument } from 'pdf-lib'
 import { useCallback, useRef, useState } from 'react'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useInitialFile } from '../hooks/useToolHandoff'
+import { isPdfFile, renderPdfPages, type RenderedPdfPage } from '../utils/pdfRender'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface PdfToImageProps {
+interface PdfToImageProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function PdfToImage({ onBack }: PdfToImageProps) {
+export default function PdfToImage({ onBack, initialFile }: PdfToImageProps) {
     const [file, setFile] = useState<File | null>(null)
-    const [pages, setPages] = useState<string[]>([])
-    const [isProcessing, setIsProcessing] = useState(false)
-    const [progress, setProgress] = useState(0)
+    // Rendered PNGs with object URLs for the previews
+    const [pages, setPages] = useState<(RenderedPdfPage & { url: string })[]>([])
+    const conversion = useCancellableTask()
     const [scale, setScale] = useState(2)
     const [isDragging, setIsDragging] = useState(false)
     const fileInputRef = useRef<HTMLInputElement>(null)
 
     const handleFile = useCallback(async (selectedFile: File) => {
-        if (selectedFile.type !== 'application/pdf') {
+        if (!isPdfFile(selectedFile)) {
             alert('Please select a PDF file')
             return
         }
@@ -25,48 +28,25 @@ export default function PdfToImage({ onBack }: PdfToImageProps) {
         await convertPdfToImages(selectedFile)
     }, [scale])
 
-    const convertPdfToImages = async (pdfFile: File) => {
-        setIsProcessing(true)
-        setProgress(0)
-        setPages([])
-
-        try {
-            const arrayBuffer = await pdfFile.arrayBuffer()
-            const pdfDoc = await PDFDocument.load(arrayBuffer)
-            const pageCount = pdfDoc.getPageCount()
-            const pageImages: string[] = []
-
-            // Create a canvas for rendering
-            const canvas = document.createElement('canvas')
-            const ctx = canvas.getContext('2d')
-            if (!ctx) throw new Error('Canvas not supported')
-
-            // We'll use pdf.js for actual rendering
-            const pdfjsLib = await import('pdfjs-dist')
-            pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
-
-            const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
+    useInitialFile(initialFile, handleFile)
 
-            for (let i = 1; i <= pageCount; i++) {
-                const page = await pdf.getPage(i)
-                const viewport = page.getViewport({ scale })
-
-                canvas.width = viewport.width
-                canvas.height = viewport.height
-
-                await page.render({ canvasContext: ctx, viewport }).promise
+    const clearPages = () => {
+        setPages(prev => {
+            prev.forEach(page => URL.revokeObjectURL(page.url))
+            return []
+        })
+    }
 
-                const dataUrl = canvas.toDataURL('image/png')
-                pageImages.push(dataUrl)
-                setProgress(Math.round((i / pageCount) * 100))
-            }
+    // Render each page to a PNG, checking for cancellation between pages
+    const convertPdfToImages = async (pdfFile: File) => {
+        clearPages()
 
-            setPages(pageImages)
+        try {
+            const rendered = await conversion.run((signal, onProgress) => renderPdfPages(pdfFile, scale, signal, onProgress))
+            if (rendered) setPages(rendered.map(page => ({ ...page, url: URL.createObjectURL(page.image) })))
         } catch (error) {
             console.error('Error converting PDF:', error)
             alert('Error converting PDF. Make sure it is a valid PDF file.')
-        } finally {
-            setIsProcessing(false)
         }
     }
 
@@ -74,26 +54,23 @@ export default function PdfToImage({ onBack }: PdfToImageProps) {
     const handleDragLeave = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(false) }, [])
     const handleDrop = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(false); if (e.dataTransfer.files[0]) handleFile(e.dataTransfer.files[0]) }, [handleFile])
 
-    const downloadSingle = (dataUrl: string, index: number) => {
-        const link = document.createElement('a')
-        link.href = dataUrl
-        link.download = `page_${index + 1}.png`
-        link.click()
+    const downloadSingle = (page: RenderedPdfPage) => {
+        saveAs(page.image, `page_${page.pageNumber}.png`)
     }
 
     const downloadAll = async () => {
         const zip = new JSZip()
-        for (let i = 0; i < pages.length; i++) {
-            const data = pages[i].split(',')[1]
-            zip.file(`page_${i + 1}.png`, data, { base64: true })
+        for (const page of pages) {
+            zip.file(`page_${page.pageNumber}.png`, page.image)
         }
         const content = await zip.generateAsync({ type: 'blob' })
         saveAs(content, `${file?.name.replace('.pdf', '')}_pages.zip`)
     }
 
     const handleReset = () => {
+        conversion.cancel()
         setFile(null)
-        setPages([])
+        clearPages()
         if (fileInputRef.current) fileInputRef.current.value = ''
     }
 
@@ -115,14 +92,17 @@ export default function PdfToImage({ onBack }: PdfToImageProps) {
                 </div>
             ) : (
                 <>
-                    {isProcessing ? (
+                    {conversion.isRunning ? (
                         <div className="controls-panel" style={{ textAlign: 'center', padding: '3rem' }}>
                             <div className="processing-spinner" style={{ margin: '0 auto 1.5rem' }} />
                             <h3>Converting PDF...</h3>
-                            <p style={{ color: 'rgba(255,255,255,0.5)' }}>{progress}% complete</p>
+                            <p style={{ color: 'rgba(255,255,255,0.5)' }}>
+                                {conversion.progress?.label ? `${conversion.progress.label} · ` : ''}{conversion.percent}% complete
+                            </p>
                             <div style={{ width: '100%', height: 8, background: 'rgba(255,255,255,0.1)', borderRadius: 4, marginTop: '1rem' }}>
-                                <div style={{ width: `${progress}%`, height: '100%', background: 'linear-gradient(135deg, #667eea, #764ba2)', borderRadius: 4, transition: 'width 0.3s' }} />
+                                <div style={{ width: `${conversion.percent}%`, height: '100%', background: 'linear-gradient(135deg, #667eea, #764ba2)', borderRadius: 4, transition: 'width 0.3s' }} />
                             </div>
+                            <button className="secondary-button" onClick={handleReset} style={{ marginTop: '1.5rem' }}>✖ Cancel</button>
                         </div>
                     ) : (
                         <>
@@ -144,11 +124,11 @@ export default function PdfToImage({ onBack }: PdfToImageProps) {
                             </div>
 
                             <div className="results-grid" style={{ marginTop: '1.5rem' }}>
-                                {pages.map((page, i) => (
-                                    <div key={i} className="result-card">
-                                        <img src={page} alt={`Page ${i + 1}`} className="result-image" />
-                                        <div className="result-title">Page {i + 1}</div>
-                                        <button className="secondary-button" onClick={() => downloadSingle(page, i)} style={{ width: '100%', marginTop: '0.5rem' }}>⬇️ Download</button>
+                                {pages.map(page => (
+                                    <div key={page.pageNumber} className="result-card">
+                                        <img src={page.url} alt={`Page ${page.pageNumber}`} className="result-image" />
+                                        <div className="result-title">Page {page.pageNumber}</div>
+                                        <button className="secondary-button" onClick={() => downloadSingle(page)} style={{ width: '100%', marginTop: '0.5rem' }}>⬇️ Download</button>
                                     </div>
                                 ))}
                             </div>
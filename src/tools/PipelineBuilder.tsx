@@ -0,0 +1,370 @@
+import JSZip from 'jszip'
+import { useCallback, useRef, useState } from 'react'
+import { usePipelineRecipes } from '../hooks/usePipelineRecipes'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
+import { ASPECT_RATIOS, downloadBlob, formatFileSize, uniqueFileNames, type WatermarkPosition } from '../utils/imageProcessing'
+import {
+    createStep,
+    describeStep,
+    runPipeline,
+    STEP_META,
+    type OutputFormat,
+    type PipelineRecipe,
+    type PipelineStep,
+    type PipelineStepType
+} from '../utils/pipeline'
+import type { HandoffProps } from '../utils/toolHandoff'
+
+interface PipelineBuilderProps extends HandoffProps {
+    onBack: () => void
+}
+
+interface PipelineOutput {
+    source: File
+    blob: Blob | null
+    url: string | null
+    filename: string
+    error?: string
+}
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right']
+
+const inputStyle = { width: '100%', padding: '0.75rem', background: 'rgba(255,255,255,0.05)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: 'white' }
+
+const smallButtonStyle = { padding: '0.5rem', background: 'rgba(255,255,255,0.1)', border: 'none', borderRadius: 6, cursor: 'pointer', color: 'white' }
+
+function newRecipe(): PipelineRecipe {
+    return { id: Date.now().toString(36), name: 'My Recipe', steps: [createStep('crop'), createStep('resize'), createStep('watermark'), createStep('compress')] }
+}
+
+export default function PipelineBuilder({ onBack, initialFile, onOutput }: PipelineBuilderProps) {
+    const { recipes, saveRecipe, deleteRecipe } = usePipelineRecipes()
+    const [recipe, setRecipe] = useState<PipelineRecipe>(newRecipe)
+    const [files, setFiles] = useState<File[]>([])
+    const [outputs, setOutputs] = useState<PipelineOutput[]>([])
+    const [isProcessing, setIsProcessing] = useState(false)
+    const [progress, setProgress] = useState({ file: 0, step: 0 })
+    const [isDragging, setIsDragging] = useState(false)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    // Handle file selection
+    const handleFiles = useCallback((selectedFiles: FileList | File[]) => {
+        const imageFiles = Array.from(selectedFiles).filter(f => f.type.startsWith('image/'))
+        if (imageFiles.length === 0) {
+            alert('Please select image files')
+            return
+        }
+        setFiles(prev => [...prev, ...imageFiles])
+    }, [])
+
+    const handleInitialFile = useCallback((selectedFile: File) => handleFiles([selectedFile]), [handleFiles])
+    useInitialFile(initialFile, handleInitialFile)
+
+    const handleDragOver = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(true) }, [])
+    const handleDragLeave = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(false) }, [])
+    const handleDrop = useCallback((e: React.DragEvent) => {
+        e.preventDefault()
+        setIsDragging(false)
+        if (e.dataTransfer.files.length > 0) handleFiles(e.dataTransfer.files)
+    }, [handleFiles])
+
+    // Step editing
+    const updateStep = (index: number, step: PipelineStep) => {
+        setRecipe(prev => ({ ...prev, steps: prev.steps.map((s, i) => (i === index ? step : s)) }))
+    }
+
+    const addStep = (type: PipelineStepType) => {
+        setRecipe(prev => ({ ...prev, steps: [...prev.steps, createStep(type)] }))
+    }
+
+    const removeStep = (index: number) => {
+        setRecipe(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))
+    }
+
+    const moveStep = (index: number, direction: 'up' | 'down') => {
+        const newIndex = direction === 'up' ? index - 1 : index + 1
+        if (newIndex < 0 || newIndex >= recipe.steps.length) return
+        const steps = [...recipe.steps]
+        const [moved] = steps.splice(index, 1)
+        steps.splice(newIndex, 0, moved)
+        setRecipe({ ...recipe, steps })
+    }
+
+    // Run the recipe on every queued file
+    const handleRun = async () => {
+        if (files.length === 0 || recipe.steps.length === 0) return
+
+        outputs.forEach(o => o.url && URL.revokeObjectURL(o.url))
+        setOutputs([])
+        setIsProcessing(true)
+        const results: PipelineOutput[] = []
+
+        for (let i = 0; i < files.length; i++) {
+            const source = files[i]
+            try {
+                const { blob, filename } = await runPipeline(source, recipe, (step) => setProgress({ file: i, step }))
+                results.push({ source, blob, url: URL.createObjectURL(blob), filename })
+            } catch (error) {
+                console.error('Error running pipeline:', error)
+                results.push({ source, blob: null, url: null, filename: source.name, error: error instanceof Error ? error.message : 'Failed' })
+            }
+        }
+
+        setOutputs(results)
+        setIsProcessing(false)
+    }
+
+    // Download all as ZIP
+    const handleDownloadAll = async () => {
+        const done = outputs.filter(o => o.blob)
+        if (done.length === 0) return
+
+        // Same-named inputs, or names that meet once a step sets the extension, are numbered
+        const zip = new JSZip()
+        const names = uniqueFileNames(done.map(output => output.filename))
+        done.forEach((output, i) => zip.file(names[i], output.blob!))
+
+        const content = await zip.generateAsync({ type: 'blob' })
+        const zipName = recipe.name.trim().replace(/\s+/g, '_') || 'pipeline'
+        downloadBlob(content, `${zipName}_results.zip`)
+    }
+
+    // Reset
+    const handleReset = () => {
+        outputs.forEach(o => o.url && URL.revokeObjectURL(o.url))
+        setFiles([])
+        setOutputs([])
+        if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+
+    const renderStepControls = (step: PipelineStep, index: number) => {
+        switch (step.type) {
+            case 'crop':
+                return (
+                    <div className="select-buttons">
+                        {ASPECT_RATIOS.map(({ label, value }) => (
+                            <button
+                                key={label}
+                                className={`select-button ${step.aspectRatio === value ? 'active' : ''}`}
+                                onClick={() => updateStep(index, { ...step, aspectRatio: value })}
+                            >
+                                {label === 'Free' ? 'Inset' : label}
+                            </button>
+                        ))}
+                        {step.aspectRatio === null && (
+                            <label className="control-label" style={{ width: '100%' }}>
+                                <span>Keep center {Math.round(step.area.width)}%</span>
+                                <input
+                                    type="range"
+                                    min="10"
+                                    max="100"
+                                    value={step.area.width}
+                                    onChange={(e) => {
+                                        const size = Number(e.target.value)
+                                        const offset = (100 - size) / 2
+                                        updateStep(index, { ...step, area: { x: offset, y: offset, width: size, height: size } })
+                                    }}
+                                />
+                            </label>
+                        )}
+                    </div>
+                )
+            case 'resize':
+                return (
+                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.75rem' }}>
+                        <input type="number" min="1" value={step.width} onChange={(e) => updateStep(index, { ...step, width: Math.max(1, Number(e.target.value)) })} style={inputStyle} title="Width (px)" />
+                        <input type="number" min="1" value={step.height} onChange={(e) => updateStep(index, { ...step, height: Math.max(1, Number(e.target.value)) })} style={inputStyle} title="Height (px)" />
+                        <div className="select-buttons">
+                            {(['cover', 'contain'] as const).map(fit => (
+                                <button key={fit} className={`select-button ${step.fit === fit ? 'active' : ''}`} onClick={() => updateStep(index, { ...step, fit })}>{fit}</button>
+                            ))}
+                        </div>
+                    </div>
+                )
+            case 'watermark':
+                return (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                        <input type="text" value={step.text} onChange={(e) => updateStep(index, { ...step, text: e.target.value })} style={inputStyle} />
+                        <div className="select-buttons">
+                            {WATERMARK_POSITIONS.map(p => (
+                                <button key={p} className={`select-button ${step.position === p ? 'active' : ''}`} onClick={() => updateStep(index, { ...step, position: p })}>{p}</button>
+                            ))}
+                        </div>
+                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '0.75rem', alignItems: 'center' }}>
+                            <label className="control-label"><span>Size: {step.size}px</span>
+                                <input type="range" min="12" max="72" value={step.size} onChange={(e) => updateStep(index, { ...step, size: Number(e.target.value) })} />
+                            </label>
+                            <label className="control-label"><span>Opacity: {step.opacity}%</span>
+                                <input type="range" min="10" max="100" value={step.opacity} onChange={(e) => updateStep(index, { ...step, opacity: Number(e.target.value) })} />
+                            </label>
+                            <input type="color" value={step.color} onChange={(e) => updateStep(index, { ...step, color: e.target.value })} className="color-picker" />
+                        </div>
+                    </div>
+                )
+            case 'compress':
+                return (
+                    <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '0.75rem', alignItems: 'center' }}>
+                        <label className="control-label"><span>Quality: {step.quality}%</span>
+                            <input type="range" min="1" max="100" value={step.quality} onChange={(e) => updateStep(index, { ...step, quality: Number(e.target.value) })} />
+                        </label>
+                        <div className="select-buttons">
+                            {(['image/jpeg', 'image/png', 'image/webp'] as OutputFormat[]).map(f => (
+                                <button key={f} className={`select-button ${step.format === f ? 'active' : ''}`} onClick={() => updateStep(index, { ...step, format: f })}>{f.split('/')[1].toUpperCase()}</button>
+                            ))}
+                        </div>
+                    </div>
+                )
+        }
+    }
+
+    const completed = outputs.filter(o => o.blob).length
+
+    // Publish the first result for handoff to other tools
+    const firstOutput = outputs.find(o => o.blob)
+    usePublishOutput(onOutput, firstOutput?.blob ?? null, firstOutput?.filename ?? '')
+
+    return (
+        <div className="tool-page">
+            <div className="tool-header">
+                <button className="back-button" onClick={onBack}>←</button>
+                <h1 className="tool-title">Pipeline Builder</h1>
+            </div>
+
+            {/* Saved Recipes */}
+            {recipes.length > 0 && (
+                <div className="controls-panel">
+                    <label className="control-label"><span>Saved Recipes</span></label>
+                    <div className="select-buttons">
+                        {recipes.map(r => (
+                            <span key={r.id} style={{ display: 'inline-flex', gap: '0.25rem' }}>
+                                <button className={`select-button ${recipe.id === r.id ? 'active' : ''}`} onClick={() => setRecipe(r)} title={r.steps.map(describeStep).join(' → ')}>
+                                    {r.name} ({r.steps.length})
+                                </button>
+                                <button style={{ ...smallButtonStyle, color: '#f5576c', background: 'rgba(245, 87, 108, 0.2)' }} onClick={() => deleteRecipe(r.id)} title="Delete recipe">×</button>
+                            </span>
+                        ))}
+                        <button className="select-button" onClick={() => setRecipe(newRecipe())}>➕ New</button>
+                    </div>
+                </div>
+            )}
+
+            {/* Recipe Editor */}
+            <div className="controls-panel" style={{ marginTop: recipes.length > 0 ? '1rem' : 0 }}>
+                <div className="control-group">
+                    <label className="control-label"><span>Recipe Name</span></label>
+                    <input type="text" value={recipe.name} onChange={(e) => setRecipe({ ...recipe, name: e.target.value })} style={inputStyle} />
+                </div>
+
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginTop: '1rem' }}>
+                    {recipe.steps.map((step, index) => (
+                        <div key={index} style={{ padding: '1rem', background: 'rgba(255,255,255,0.03)', borderRadius: 8 }}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '0.75rem' }}>
+                                <span style={{ fontWeight: 600 }}>{index + 1}. {STEP_META[step.type].icon} {STEP_META[step.type].label}</span>
+                                <span style={{ flex: 1, fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)' }}>{describeStep(step)}</span>
+                                <button style={{ ...smallButtonStyle, opacity: index === 0 ? 0.3 : 1 }} disabled={index === 0} onClick={() => moveStep(index, 'up')}>↑</button>
+                                <button style={{ ...smallButtonStyle, opacity: index === recipe.steps.length - 1 ? 0.3 : 1 }} disabled={index === recipe.steps.length - 1} onClick={() => moveStep(index, 'down')}>↓</button>
+                                <button style={{ ...smallButtonStyle, color: '#f5576c', background: 'rgba(245, 87, 108, 0.2)' }} onClick={() => removeStep(index)}>×</button>
+                            </div>
+                            {renderStepControls(step, index)}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="select-buttons" style={{ marginTop: '1rem' }}>
+                    {(Object.keys(STEP_META) as PipelineStepType[]).map(type => (
+                        <button key={type} className="select-button" onClick={() => addStep(type)}>
+                            ➕ {STEP_META[type].icon} {STEP_META[type].label}
+                        </button>
+                    ))}
+                    <button className="select-button" onClick={() => saveRecipe(recipe)}>💾 Save Recipe</button>
+                </div>
+            </div>
+
+            {/* Upload Area */}
+            <div
+                className={`dropzone ${isDragging ? 'dragging' : ''}`}
+                style={{ marginTop: '1.5rem' }}
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+            >
+                <div className="dropzone-content">
+                    <div className="dropzone-icon">⛓️</div>
+                    <p className="dropzone-text">{files.length > 0 ? `${files.length} image${files.length !== 1 ? 's' : ''} queued — drop more or click to add` : 'Drop images here or click to browse'}</p>
+                    <p className="dropzone-hint">Run the recipe on one image or a whole batch</p>
+                </div>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => e.target.files && handleFiles(e.target.files)}
+                    style={{ display: 'none' }}
+                />
+            </div>
+
+            {/* Results */}
+            {outputs.length > 0 && (
+                <div className="results-grid">
+                    {outputs.map((output, index) => (
+                        <div key={index} className="result-card">
+                            {output.url ? (
+                                <img src={output.url} alt={output.filename} className="result-image" />
+                            ) : (
+                                <div style={{ height: 120, display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#f5576c' }}>⚠️ {output.error}</div>
+                            )}
+                            <div className="result-title">{output.filename}</div>
+                            <div className="result-dimensions">
+                                {formatFileSize(output.source.size)}{output.blob && ` → ${formatFileSize(output.blob.size)}`}
+                            </div>
+                            {output.blob && (
+                                <button
+                                    className="secondary-button"
+                                    onClick={() => downloadBlob(output.blob!, output.filename)}
+                                    style={{ marginTop: '0.75rem', width: '100%', justifyContent: 'center' }}
+                                >
+                                    ⬇️ Download
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Action Buttons */}
+            {files.length > 0 && (
+                <div className="actions-bar">
+                    <button className="secondary-button" onClick={handleReset}>
+                        🔄 Clear All
+                    </button>
+                    <button
+                        className="download-button"
+                        onClick={handleRun}
+                        disabled={isProcessing || recipe.steps.length === 0}
+                    >
+                        {isProcessing ? '⏳ Processing...' : `⛓️ Run on ${files.length} Image${files.length !== 1 ? 's' : ''}`}
+                    </button>
+                    {completed > 0 && (
+                        <button className="download-button" onClick={handleDownloadAll}>
+                            📦 Download All as ZIP ({completed})
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Processing Overlay */}
+            {isProcessing && (
+                <div className="processing-overlay">
+                    <div className="processing-content">
+                        <div className="processing-spinner" />
+                        <div className="processing-text">Image {progress.file + 1} of {files.length}</div>
+                        <div className="processing-hint">
+                            Step {progress.step + 1}: {recipe.steps[progress.step] && STEP_META[recipe.steps[progress.step].type].label}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,9 +1,11 @@
 import JSZip from 'jszip'
 import { useCallback, useRef, useState } from 'react'
+import { useInitialFile } from '../hooks/useToolHandoff'
 import { downloadBlob, formatFileSize, getImageInfo, resizeImage, type ImageInfo } from '../utils/imageProcessing'
 import { getPopularPresets, platforms } from '../utils/socialPresets'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface SocialMediaResizerProps {
+interface SocialMediaResizerProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -21,7 +23,7 @@ interface ResizedImage {
     url: string
 }
 
-export default function SocialMediaResizer({ onBack }: SocialMediaResizerProps) {
+export default function SocialMediaResizer({ onBack, initialFile }: SocialMediaResizerProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
@@ -53,6 +55,8 @@ export default function SocialMediaResizer({ onBack }: SocialMediaResizerProps)
         setResizedImages([])
     }, [])
 
+    useInitialFile(initialFile, handleFile)
+
     // Handle drag and drop
     const handleDragOver = useCallback((e: React.DragEvent) => {
         e.preventDefault()
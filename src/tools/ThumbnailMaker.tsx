@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
 import { downloadBlob } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface ThumbnailMakerProps {
+interface ThumbnailMakerProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -47,11 +49,12 @@ const CANVAS_PRESETS = [
     { name: 'Facebook', width: 1200, height: 630 }
 ]
 
-export default function ThumbnailMaker({ onBack }: ThumbnailMakerProps) {
+export default function ThumbnailMaker({ onBack, initialFile, onOutput }: ThumbnailMakerProps) {
     const [canvasWidth, setCanvasWidth] = useState(1280)
     const [canvasHeight, setCanvasHeight] = useState(720)
     const [bgColor, setBgColor] = useState('#1a1a2e')
     const [bgImage, setBgImage] = useState<string | null>(null)
+    const [exportedBlob, setExportedBlob] = useState<Blob | null>(null)
     const [elements, setElements] = useState<CanvasElement[]>([])
     const [selectedId, setSelectedId] = useState<string | null>(null)
     const [newText, setNewText] = useState('Your Text Here')
@@ -115,6 +118,8 @@ export default function ThumbnailMaker({ onBack }: ThumbnailMakerProps) {
         img.src = url
     }
 
+    useInitialFile(initialFile, addOverlayImage)
+
     // Set background image
     const handleBgImage = (file: File) => {
         const url = URL.createObjectURL(file)
@@ -225,10 +230,14 @@ export default function ThumbnailMaker({ onBack }: ThumbnailMakerProps) {
         }
 
         canvas.toBlob(blob => {
-            if (blob) downloadBlob(blob, 'thumbnail.png')
+            if (!blob) return
+            setExportedBlob(blob)
+            downloadBlob(blob, 'thumbnail.png')
         }, 'image/png')
     }
 
+    usePublishOutput(onOutput, exportedBlob, 'thumbnail.png')
+
     return (
         <div className="tool-page">
             <div className="tool-header">
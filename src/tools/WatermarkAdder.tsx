@@ -1,16 +1,18 @@
 import { useCallback, useRef, useState } from 'react'
-import { downloadBlob, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
+import { addTextWatermark, downloadBlob, getImageInfo, type ImageInfo, type WatermarkPosition } from '../utils/imageProcessing'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface WatermarkAdderProps {
+interface WatermarkAdderProps extends HandoffProps {
     onBack: () => void
 }
 
-export default function WatermarkAdder({ onBack }: WatermarkAdderProps) {
+export default function WatermarkAdder({ onBack, initialFile, onOutput }: WatermarkAdderProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
     const [watermarkText, setWatermarkText] = useState('© Your Name')
-    const [watermarkPosition, setWatermarkPosition] = useState<'bottom-right' | 'bottom-left' | 'top-right' | 'top-left' | 'center'>('bottom-right')
+    const [watermarkPosition, setWatermarkPosition] = useState<WatermarkPosition>('bottom-right')
     const [watermarkSize, setWatermarkSize] = useState(24)
     const [watermarkOpacity, setWatermarkOpacity] = useState(70)
     const [watermarkColor, setWatermarkColor] = useState('#ffffff')
@@ -21,35 +23,17 @@ export default function WatermarkAdder({ onBack }: WatermarkAdderProps) {
 
     const applyWatermark = useCallback(async () => {
         if (!file || !originalInfo) return
-        const img = new Image()
-        img.src = preview!
-        await new Promise(resolve => img.onload = resolve)
-        const canvas = document.createElement('canvas')
-        canvas.width = originalInfo.width
-        canvas.height = originalInfo.height
-        const ctx = canvas.getContext('2d')
-        if (!ctx) return
-        ctx.drawImage(img, 0, 0)
-        ctx.font = `bold ${watermarkSize}px Arial`
-        ctx.fillStyle = watermarkColor
-        ctx.globalAlpha = watermarkOpacity / 100
-        const padding = 20
-        let x: number, y: number
-        switch (watermarkPosition) {
-            case 'top-left': x = padding; y = padding + watermarkSize; ctx.textAlign = 'left'; break
-            case 'top-right': x = originalInfo.width - padding; y = padding + watermarkSize; ctx.textAlign = 'right'; break
-            case 'bottom-left': x = padding; y = originalInfo.height - padding; ctx.textAlign = 'left'; break
-            case 'bottom-right': x = originalInfo.width - padding; y = originalInfo.height - padding; ctx.textAlign = 'right'; break
-            case 'center': x = originalInfo.width / 2; y = originalInfo.height / 2; ctx.textAlign = 'center'; break
-        }
-        ctx.shadowColor = 'rgba(0,0,0,0.5)'
-        ctx.shadowBlur = 4
-        ctx.fillText(watermarkText, x, y)
-        const blob = await new Promise<Blob>((resolve) => canvas.toBlob((b) => resolve(b!), 'image/png'))
+        const blob = await addTextWatermark(file, {
+            text: watermarkText,
+            position: watermarkPosition,
+            size: watermarkSize,
+            opacity: watermarkOpacity,
+            color: watermarkColor
+        })
         if (processedUrl) URL.revokeObjectURL(processedUrl)
         setProcessedBlob(blob)
         setProcessedUrl(URL.createObjectURL(blob))
-    }, [file, originalInfo, preview, watermarkText, watermarkPosition, watermarkSize, watermarkOpacity, watermarkColor, processedUrl])
+    }, [file, originalInfo, watermarkText, watermarkPosition, watermarkSize, watermarkOpacity, watermarkColor, processedUrl])
 
     const handleFile = useCallback(async (selectedFile: File) => {
         if (!selectedFile.type.startsWith('image/')) return
@@ -63,10 +47,16 @@ export default function WatermarkAdder({ onBack }: WatermarkAdderProps) {
         setOriginalInfo(info)
     }, [processedUrl])
 
+    useInitialFile(initialFile, handleFile)
+
     const handleDragOver = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(true) }, [])
     const handleDragLeave = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(false) }, [])
     const handleDrop = useCallback((e: React.DragEvent) => { e.preventDefault(); setIsDragging(false); if (e.dataTransfer.files[0]) handleFile(e.dataTransfer.files[0]) }, [handleFile])
 
+    // Publish the watermarked image for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_watermarked.png` : ''
+    usePublishOutput(onOutput, processedBlob, outputName)
+
     const handleDownload = () => {
         if (!processedBlob || !file) return
         downloadBlob(processedBlob, `${file.name.replace(/\.[^/.]+$/, '')}_watermarked.png`)
@@ -105,7 +95,7 @@ export default function WatermarkAdder({ onBack }: WatermarkAdderProps) {
                             <label className="control-label"><span>Position</span></label>
                             <div className="select-buttons">
                                 {['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'].map(p => (
-                                    <button key={p} className={`select-button ${watermarkPosition === p ? 'active' : ''}`} onClick={() => setWatermarkPosition(p as typeof watermarkPosition)}>{p}</button>
+                                    <button key={p} className={`select-button ${watermarkPosition === p ? 'active' : ''}`} onClick={() => setWatermarkPosition(p as WatermarkPosition)}>{p}</button>
                                 ))}
                             </div>
                         </div>
@@ -1,7 +1,11 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCancellableTask } from '../hooks/useCancellableTask'
+import { useInitialFile, usePublishOutput } from '../hooks/useToolHandoff'
 import { downloadBlob, getImageInfo, type ImageInfo } from '../utils/imageProcessing'
+import { runWorkerJob } from '../utils/imageWorkerClient'
+import type { HandoffProps } from '../utils/toolHandoff'
 
-interface WatermarkRemoverProps {
+interface WatermarkRemoverProps extends HandoffProps {
     onBack: () => void
 }
 
@@ -12,7 +16,7 @@ interface SelectionArea {
     height: number
 }
 
-export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
+export default function WatermarkRemover({ onBack, initialFile, onOutput }: WatermarkRemoverProps) {
     const [file, setFile] = useState<File | null>(null)
     const [preview, setPreview] = useState<string | null>(null)
     const [originalInfo, setOriginalInfo] = useState<ImageInfo | null>(null)
@@ -28,9 +32,11 @@ export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
     const containerRef = useRef<HTMLDivElement>(null)
     const fileInputRef = useRef<HTMLInputElement>(null)
     const [displayScale, setDisplayScale] = useState(1)
+    const inpainting = useCancellableTask()
 
     const handleFile = useCallback(async (selectedFile: File) => {
         if (!selectedFile.type.startsWith('image/')) return
+        inpainting.cancel()
         setFile(selectedFile)
         const url = URL.createObjectURL(selectedFile)
         setPreview(url)
@@ -40,7 +46,9 @@ export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
         setSelection(null)
         const info = await getImageInfo(selectedFile)
         setOriginalInfo(info)
-    }, [processedUrl])
+    }, [processedUrl, inpainting.cancel])
+
+    useInitialFile(initialFile, handleFile)
 
     // Calculate display scale when image loads
     useEffect(() => {
@@ -94,6 +102,21 @@ export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
             return
         }
 
+        if (removalMethod === 'inpaint') {
+            // Content-aware fill runs in the image worker
+            try {
+                const blob = await inpainting.run(async (signal, onProgress) => {
+                    const bitmap = await createImageBitmap(file)
+                    return runWorkerJob({ type: 'inpaint', bitmap, area: selection, radius: intensity }, { signal, onProgress })
+                })
+                if (blob) showResult(blob)
+            } catch (error) {
+                console.error('Error removing watermark:', error)
+                alert('Error removing watermark')
+            }
+            return
+        }
+
         const img = new Image()
         img.src = preview!
         await new Promise(resolve => img.onload = resolve)
@@ -112,45 +135,7 @@ export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
         const sw = Math.round(width)
         const sh = Math.round(height)
 
-        if (removalMethod === 'inpaint') {
-            // Simple content-aware fill using surrounding pixels
-            const imageData = ctx.getImageData(0, 0, originalInfo.width, originalInfo.height)
-            const data = imageData.data
-            const radius = intensity
-
-            for (let py = sy; py < sy + sh; py++) {
-                for (let px = sx; px < sx + sw; px++) {
-                    let r = 0, g = 0, b = 0, count = 0
-
-                    // Sample from edges around the selection
-                    for (let i = 0; i < radius * 4; i++) {
-                        const angle = (i / (radius * 4)) * Math.PI * 2
-                        const sampleX = Math.round(sx + sw / 2 + (sw / 2 + radius) * Math.cos(angle))
-                        const sampleY = Math.round(sy + sh / 2 + (sh / 2 + radius) * Math.sin(angle))
-
-                        if (sampleX >= 0 && sampleX < originalInfo.width && sampleY >= 0 && sampleY < originalInfo.height) {
-                            if (sampleX < sx || sampleX >= sx + sw || sampleY < sy || sampleY >= sy + sh) {
-                                const idx = (sampleY * originalInfo.width + sampleX) * 4
-                                r += data[idx]
-                                g += data[idx + 1]
-                                b += data[idx + 2]
-                                count++
-                            }
-                        }
-                    }
-
-                    if (count > 0) {
-                        const idx = (py * originalInfo.width + px) * 4
-                        // Add some noise for natural look
-                        const noise = (Math.random() - 0.5) * 10
-                        data[idx] = Math.min(255, Math.max(0, r / count + noise))
-                        data[idx + 1] = Math.min(255, Math.max(0, g / count + noise))
-                        data[idx + 2] = Math.min(255, Math.max(0, b / count + noise))
-                    }
-                }
-            }
-            ctx.putImageData(imageData, 0, 0)
-        } else if (removalMethod === 'blur') {
+        if (removalMethod === 'blur') {
             // Strong blur on selected area
             ctx.filter = `blur(${intensity}px)`
             ctx.drawImage(img, sx, sy, sw, sh, sx, sy, sw, sh)
@@ -175,17 +160,26 @@ export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
         }
 
         const blob = await new Promise<Blob>((resolve) => canvas.toBlob((b) => resolve(b!), 'image/png'))
+        showResult(blob)
+    }
+
+    const showResult = (blob: Blob) => {
         if (processedUrl) URL.revokeObjectURL(processedUrl)
         setProcessedBlob(blob)
         setProcessedUrl(URL.createObjectURL(blob))
     }
 
+    // Publish the cleaned image for handoff to other tools
+    const outputName = file ? `${file.name.replace(/\.[^/.]+$/, '')}_cleaned.png` : ''
+    usePublishOutput(onOutput, processedBlob, outputName)
+
     const handleDownload = () => {
         if (!processedBlob || !file) return
         downloadBlob(processedBlob, `${file.name.replace(/\.[^/.]+$/, '')}_cleaned.png`)
     }
 
     const handleReset = () => {
+        inpainting.cancel()
         if (preview) URL.revokeObjectURL(preview)
         if (processedUrl) URL.revokeObjectURL(processedUrl)
         setFile(null); setPreview(null); setOriginalInfo(null); setProcessedUrl(null); setProcessedBlob(null); setSelection(null)
@@ -268,11 +262,23 @@ export default function WatermarkRemover({ onBack }: WatermarkRemoverProps) {
                     <div className="actions-bar">
                         <button className="secondary-button" onClick={handleReset}>🔄 New Image</button>
                         {selection && <button className="secondary-button" onClick={clearSelection}>❌ Clear Selection</button>}
-                        <button className="download-button" onClick={removeWatermark} disabled={!selection}>🧹 Remove Watermark</button>
+                        <button className="download-button" onClick={removeWatermark} disabled={!selection || inpainting.isRunning}>🧹 Remove Watermark</button>
                         {processedBlob && <button className="download-button" onClick={handleDownload}>⬇️ Download</button>}
                     </div>
                 </>
             )}
+
+            {inpainting.isRunning && (
+                <div className="processing-overlay">
+                    <div className="processing-content">
+                        <div className="processing-spinner" />
+                        <div className="processing-text">Removing Watermark... {inpainting.percent}%</div>
+                        <button className="secondary-button" onClick={inpainting.cancel} style={{ marginTop: '1rem' }}>
+                            ✖ Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>
     )
 }
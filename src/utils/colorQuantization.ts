@@ -0,0 +1,320 @@
+/**
+ * Color Quantization
+ * Median-cut and k-means palette extraction in OKLab, with near-duplicate merging
+ * and coverage weighted by pixel count (and alpha when transparency is ignored)
+ */
+
+export type QuantizeMethod = 'median-cut' | 'k-means';
+
+export interface QuantizeOptions {
+    colorCount: number;
+    method: QuantizeMethod;
+    ignoreTransparent: boolean;
+    /** OKLab distance under which two palette entries count as the same color */
+    mergeDistance?: number;
+}
+
+export interface PaletteColor {
+    r: number;
+    g: number;
+    b: number;
+    hex: string;
+    /** Summed pixel weight assigned to this color */
+    weight: number;
+    /** Share of the counted pixels, 0–1; all entries sum to 1 */
+    coverage: number;
+}
+
+type Lab = [number, number, number];
+
+interface Cluster {
+    lab: Lab;
+    weight: number;
+}
+
+/** Roughly a just-noticeable difference in OKLab, a little generous */
+export const DEFAULT_MERGE_DISTANCE = 0.035;
+
+// Pixels at or below this alpha are skipped when ignoring transparency
+const TRANSPARENT_ALPHA = 8;
+const KMEANS_MAX_ITERATIONS = 24;
+const KMEANS_EPSILON = 1e-5;
+
+// ============================================================================
+// OKLab conversion
+// ============================================================================
+
+function srgbToLinear(channel: number): number {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(channel: number): number {
+    const c = channel <= 0.0031308 ? 12.92 * channel : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+    return Math.max(0, Math.min(255, Math.round(c * 255)));
+}
+
+export function rgbToOklab(r: number, g: number, b: number): Lab {
+    const lr = srgbToLinear(r);
+    const lg = srgbToLinear(g);
+    const lb = srgbToLinear(b);
+
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+    return [
+        0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+    ];
+}
+
+export function oklabToRgb([L, a, b]: Lab): [number, number, number] {
+    const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+    return [
+        linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+        linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+        linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s)
+    ];
+}
+
+function distanceSq(p: Lab, q: Lab): number {
+    const dL = p[0] - q[0];
+    const da = p[1] - q[1];
+    const db = p[2] - q[2];
+    return dL * dL + da * da + db * db;
+}
+
+export function toHex(r: number, g: number, b: number): string {
+    return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Collapse pixels into weighted points: 5 bits per channel picks the bin, but each bin
+ * keeps the mean OKLab of its pixels, so nothing is snapped to a grid color
+ */
+function buildPoints(pixels: Uint8ClampedArray, ignoreTransparent: boolean): Cluster[] {
+    const bins = new Map<number, { L: number; a: number; b: number; weight: number }>();
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        const alpha = pixels[i + 3];
+        if (ignoreTransparent && alpha <= TRANSPARENT_ALPHA) continue;
+        const weight = ignoreTransparent ? alpha / 255 : 1;
+
+        const r = pixels[i];
+        const g = pixels[i + 1];
+        const b = pixels[i + 2];
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        const [L, A, B] = rgbToOklab(r, g, b);
+
+        const bin = bins.get(key);
+        if (bin) {
+            bin.L += L * weight;
+            bin.a += A * weight;
+            bin.b += B * weight;
+            bin.weight += weight;
+        } else {
+            bins.set(key, { L: L * weight, a: A * weight, b: B * weight, weight });
+        }
+    }
+
+    return Array.from(bins.values()).map(bin => ({
+        lab: [bin.L / bin.weight, bin.a / bin.weight, bin.b / bin.weight],
+        weight: bin.weight
+    }));
+}
+
+function centroid(points: Cluster[]): Cluster {
+    let L = 0, a = 0, b = 0, weight = 0;
+    for (const p of points) {
+        L += p.lab[0] * p.weight;
+        a += p.lab[1] * p.weight;
+        b += p.lab[2] * p.weight;
+        weight += p.weight;
+    }
+    return { lab: [L / weight, a / weight, b / weight], weight };
+}
+
+// ============================================================================
+// Median cut
+// ============================================================================
+
+interface Box {
+    points: Cluster[];
+    error: number;
+    axis: number;
+}
+
+function makeBox(points: Cluster[]): Box {
+    const mean = centroid(points);
+    const variance = [0, 0, 0];
+    for (const p of points) {
+        for (let axis = 0; axis < 3; axis++) {
+            const d = p.lab[axis] - mean.lab[axis];
+            variance[axis] += d * d * p.weight;
+        }
+    }
+    const axis = variance.indexOf(Math.max(...variance));
+    return { points, error: variance[0] + variance[1] + variance[2], axis };
+}
+
+/**
+ * Repeatedly split the box with the largest weighted squared error at the weighted
+ * median of its widest axis
+ */
+function medianCut(points: Cluster[], count: number): Cluster[] {
+    const boxes = [makeBox(points)];
+
+    while (boxes.length < count) {
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            if (boxes[i].points.length > 1 && (target < 0 || boxes[i].error > boxes[target].error)) target = i;
+        }
+        if (target < 0 || boxes[target].error === 0) break;
+
+        const { points: boxPoints, axis } = boxes[target];
+        const sorted = [...boxPoints].sort((p, q) => p.lab[axis] - q.lab[axis]);
+        const half = sorted.reduce((sum, p) => sum + p.weight, 0) / 2;
+
+        let split = 1;
+        let acc = sorted[0].weight;
+        while (split < sorted.length - 1 && acc + sorted[split].weight <= half) {
+            acc += sorted[split].weight;
+            split++;
+        }
+
+        boxes.splice(target, 1, makeBox(sorted.slice(0, split)), makeBox(sorted.slice(split)));
+    }
+
+    return boxes.map(box => centroid(box.points));
+}
+
+// ============================================================================
+// K-means
+// ============================================================================
+
+/**
+ * Weighted Lloyd iterations seeded from median cut, which keeps results deterministic
+ */
+function kMeans(points: Cluster[], count: number): Cluster[] {
+    let centers = medianCut(points, count).map(c => c.lab);
+    const assignment = new Int32Array(points.length);
+
+    for (let iteration = 0; iteration < KMEANS_MAX_ITERATIONS; iteration++) {
+        for (let i = 0; i < points.length; i++) {
+            let best = 0;
+            let bestDist = Infinity;
+            for (let c = 0; c < centers.length; c++) {
+                const d = distanceSq(points[i].lab, centers[c]);
+                if (d < bestDist) {
+                    bestDist = d;
+                    best = c;
+                }
+            }
+            assignment[i] = best;
+        }
+
+        const sums = centers.map(() => ({ L: 0, a: 0, b: 0, weight: 0 }));
+        points.forEach((p, i) => {
+            const sum = sums[assignment[i]];
+            sum.L += p.lab[0] * p.weight;
+            sum.a += p.lab[1] * p.weight;
+            sum.b += p.lab[2] * p.weight;
+            sum.weight += p.weight;
+        });
+
+        let moved = 0;
+        const next = centers.map((center, c) => {
+            const sum = sums[c];
+            if (sum.weight === 0) return center;
+            const updated: Lab = [sum.L / sum.weight, sum.a / sum.weight, sum.b / sum.weight];
+            moved = Math.max(moved, distanceSq(center, updated));
+            return updated;
+        });
+        centers = next;
+        if (moved < KMEANS_EPSILON * KMEANS_EPSILON) break;
+    }
+
+    // Final weights from the last assignment; empty clusters drop out
+    const weights = new Float64Array(centers.length);
+    points.forEach((p, i) => { weights[assignment[i]] += p.weight; });
+    return centers
+        .map((lab, c) => ({ lab, weight: weights[c] }))
+        .filter(c => c.weight > 0);
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Merge the closest pair while it is within mergeDistance, or while there are more
+ * than maxCount entries
+ */
+function mergeClusters(clusters: Cluster[], mergeDistance: number, maxCount: number): Cluster[] {
+    const result = [...clusters];
+    const thresholdSq = mergeDistance * mergeDistance;
+
+    while (result.length > 1) {
+        let bestI = 0;
+        let bestJ = 1;
+        let bestDist = Infinity;
+        for (let i = 0; i < result.length; i++) {
+            for (let j = i + 1; j < result.length; j++) {
+                const d = distanceSq(result[i].lab, result[j].lab);
+                if (d < bestDist) {
+                    bestDist = d;
+                    bestI = i;
+                    bestJ = j;
+                }
+            }
+        }
+
+        if (bestDist >= thresholdSq && result.length <= maxCount) break;
+
+        const merged = centroid([result[bestI], result[bestJ]]);
+        result.splice(bestJ, 1);
+        result.splice(bestI, 1, merged);
+    }
+
+    return result;
+}
+
+/**
+ * Extract a palette from RGBA pixels. When merging leaves fewer colors than requested,
+ * the image is re-split finer so distinct accents still get a slot.
+ */
+export function quantizePixels(pixels: Uint8ClampedArray, options: QuantizeOptions): PaletteColor[] {
+    const { colorCount, method, ignoreTransparent } = options;
+    const mergeDistance = options.mergeDistance ?? DEFAULT_MERGE_DISTANCE;
+
+    const points = buildPoints(pixels, ignoreTransparent);
+    if (points.length === 0) return [];
+
+    const cluster = method === 'k-means' ? kMeans : medianCut;
+    let k = colorCount;
+    let palette: Cluster[] = [];
+
+    while (true) {
+        const clusters = cluster(points, Math.min(k, points.length));
+        palette = mergeClusters(clusters, mergeDistance, colorCount);
+        if (palette.length >= colorCount || clusters.length < k || k >= colorCount * 4) break;
+        k += colorCount - palette.length;
+    }
+
+    const total = palette.reduce((sum, c) => sum + c.weight, 0);
+    return palette
+        .sort((p, q) => q.weight - p.weight)
+        .map(c => {
+            const [r, g, b] = oklabToRgb(c.lab);
+            return { r, g, b, hex: toHex(r, g, b), weight: c.weight, coverage: c.weight / total };
+        });
+}
@@ -0,0 +1,100 @@
+/**
+ * Contrast
+ * WCAG 2.x contrast ratios with AA/AAA thresholds, and APCA (WCAG 3 draft) lightness contrast
+ */
+
+export type Rgb = [number, number, number];
+
+export interface WcagResult {
+    ratio: number;
+    aaNormal: boolean;
+    aaLarge: boolean;
+    aaaNormal: boolean;
+    aaaLarge: boolean;
+}
+
+function linearize(channel: number): number {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/** WCAG relative luminance, 0 (black) to 1 (white) */
+export function relativeLuminance([r, g, b]: Rgb): number {
+    return 0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b);
+}
+
+/**
+ * WCAG 2.x contrast ratio (1–21) and which success criteria it meets.
+ * Large text is 18pt, or 14pt bold.
+ */
+export function wcagContrast(foreground: Rgb, background: Rgb): WcagResult {
+    const l1 = relativeLuminance(foreground);
+    const l2 = relativeLuminance(background);
+    const ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+
+    return {
+        ratio,
+        aaNormal: ratio >= 4.5,
+        aaLarge: ratio >= 3,
+        aaaNormal: ratio >= 7,
+        aaaLarge: ratio >= 4.5
+    };
+}
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+    mainTRC: 2.4,
+    rCo: 0.2126729,
+    gCo: 0.7151522,
+    bCo: 0.0721750,
+    normBG: 0.56,
+    normTXT: 0.57,
+    revTXT: 0.62,
+    revBG: 0.65,
+    blkThrs: 0.022,
+    blkClmp: 1.414,
+    scale: 1.14,
+    loOffset: 0.027,
+    deltaYmin: 0.0005,
+    loClip: 0.1
+};
+
+function apcaLuminance([r, g, b]: Rgb): number {
+    const y = APCA.rCo * Math.pow(r / 255, APCA.mainTRC)
+        + APCA.gCo * Math.pow(g / 255, APCA.mainTRC)
+        + APCA.bCo * Math.pow(b / 255, APCA.mainTRC);
+    // Soft clamp near black
+    return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background. Positive for dark text on
+ * light backgrounds, negative for light text on dark; roughly ±108 at the extremes.
+ */
+export function apcaContrast(text: Rgb, background: Rgb): number {
+    const yText = apcaLuminance(text);
+    const yBg = apcaLuminance(background);
+    if (Math.abs(yBg - yText) < APCA.deltaYmin) return 0;
+
+    if (yBg > yText) {
+        const sapc = (Math.pow(yBg, APCA.normBG) - Math.pow(yText, APCA.normTXT)) * APCA.scale;
+        return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+    }
+
+    const sapc = (Math.pow(yBg, APCA.revBG) - Math.pow(yText, APCA.revTXT)) * APCA.scale;
+    return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+}
+
+/**
+ * Short description of what an APCA Lc value is good for, per the APCA bronze guidelines
+ */
+export function apcaUsage(lc: number): string {
+    const value = Math.abs(lc);
+    if (value >= 90) return 'Body text (preferred)';
+    if (value >= 75) return 'Body text';
+    if (value >= 60) return 'Content text';
+    if (value >= 45) return 'Headlines';
+    if (value >= 30) return 'Large / spot text';
+    if (value >= 15) return 'Non-text only';
+    return 'Invisible';
+}
@@ -0,0 +1,103 @@
+/**
+ * Duplicate Cleanup
+ * Picks the copy to keep in each duplicate group and writes the keep/delete report
+ */
+
+export type KeepCriterion = 'resolution' | 'size' | 'sharpness' | 'newest';
+
+export interface KeepCriterionInfo {
+    id: KeepCriterion;
+    name: string;
+    description: string;
+}
+
+export const KEEP_CRITERIA: KeepCriterionInfo[] = [
+    { id: 'resolution', name: 'Resolution', description: 'Most pixels' },
+    { id: 'size', name: 'File Size', description: 'Largest file, usually the least compressed' },
+    { id: 'sharpness', name: 'Sharpness', description: 'Highest Laplacian variance, i.e. the least blurry' },
+    { id: 'newest', name: 'Newest', description: 'Most recently modified' }
+];
+
+/**
+ * What the criteria look at for one image; sharpness is only known once computed
+ */
+export interface KeepCandidate {
+    width: number;
+    height: number;
+    size: number;
+    lastModified: number;
+    sharpness?: number;
+}
+
+function score(candidate: KeepCandidate, criterion: KeepCriterion): number {
+    switch (criterion) {
+        case 'resolution': return candidate.width * candidate.height;
+        case 'size': return candidate.size;
+        case 'sharpness': return candidate.sharpness ?? 0;
+        case 'newest': return candidate.lastModified;
+    }
+}
+
+/**
+ * Index of the best candidate; ties go to resolution, then file size, then the earlier entry
+ */
+export function pickBest(candidates: KeepCandidate[], criterion: KeepCriterion): number {
+    const order: KeepCriterion[] = [criterion, 'resolution', 'size'];
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+        for (const key of order) {
+            const difference = score(candidates[i], key) - score(candidates[best], key);
+            if (difference !== 0) {
+                if (difference > 0) best = i;
+                break;
+            }
+        }
+    }
+    return best;
+}
+
+export interface CleanupReportRow {
+    group: number;
+    action: 'keep' | 'delete';
+    path: string;
+    /** Path of the copy kept in this row's group */
+    keptPath: string;
+    width: number;
+    height: number;
+    sizeBytes: number;
+    modified: string;
+    /** Similarity to the group's first image, in percent */
+    similarity: number;
+}
+
+export type ReportFormat = 'csv' | 'json';
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: (keyof CleanupReportRow)[] = ['group', 'action', 'path', 'keptPath', 'width', 'height', 'sizeBytes', 'modified', 'similarity'];
+
+/**
+ * Serialize the report; CSV is RFC 4180 with a header row, JSON adds totals
+ */
+export function formatCleanupReport(rows: CleanupReportRow[], format: ReportFormat): Blob {
+    if (format === 'json') {
+        const toDelete = rows.filter(row => row.action === 'delete');
+        const report = {
+            generated: new Date().toISOString(),
+            groups: new Set(rows.map(row => row.group)).size,
+            deleteCount: toDelete.length,
+            reclaimableBytes: toDelete.reduce((sum, row) => sum + row.sizeBytes, 0),
+            files: rows
+        };
+        return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    }
+
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of rows) {
+        lines.push(CSV_COLUMNS.map(column => csvField(row[column])).join(','));
+    }
+    return new Blob([lines.join('\r\n') + '\r\n'], { type: 'text/csv' });
+}
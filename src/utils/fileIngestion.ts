@@ -0,0 +1,87 @@
+/**
+ * File Ingestion
+ * Collects images from file pickers, folder pickers and dropped directory trees,
+ * keeping each file's path relative to what the user picked
+ */
+
+export interface IngestedFile {
+    file: File;
+    /** Relative path for files from a folder (e.g. "trip/day1/IMG_01.jpg"), else the file name */
+    path: string;
+}
+
+export interface IngestResult {
+    files: IngestedFile[];
+    /** Non-image files that were left out */
+    skipped: number;
+}
+
+// Some platforms leave the MIME type empty for formats the browser can't sniff
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|bmp|svg|ico|tiff?|heic|heif)$/i;
+
+export function isImageFile(file: File): boolean {
+    return file.type ? file.type.startsWith('image/') : IMAGE_EXTENSIONS.test(file.name);
+}
+
+const byPath = (a: IngestedFile, b: IngestedFile) =>
+    a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' });
+
+function partition(files: IngestedFile[]): IngestResult {
+    const images = files.filter(entry => isImageFile(entry.file));
+    return { files: images, skipped: files.length - images.length };
+}
+
+/**
+ * Files from an <input type="file">; folder pickers (webkitdirectory) come back sorted by path
+ */
+export function ingestFileList(list: FileList | File[]): IngestResult {
+    const files = Array.from(list, file => ({ file, path: file.webkitRelativePath || file.name }));
+    if (files.some(entry => entry.file.webkitRelativePath)) files.sort(byPath);
+    return partition(files);
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most ~100 entries per call, so keep reading until it comes back empty
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = entry.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (; ;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+}
+
+async function collectEntry(entry: FileSystemEntry, files: IngestedFile[]): Promise<void> {
+    if (entry.isFile) {
+        const file = await readFile(entry as FileSystemFileEntry);
+        files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+        return;
+    }
+
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry);
+        children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+        for (const child of children) await collectEntry(child, files);
+    }
+}
+
+/**
+ * Files from a drop, walking any dropped folders recursively. Must be called synchronously
+ * from the drop handler: the browser empties the DataTransfer once the event returns.
+ */
+export async function ingestDataTransfer(dataTransfer: DataTransfer): Promise<IngestResult> {
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry());
+
+    // No entry API (or nothing usable): fall back to the flat file list
+    if (entries.length === 0 || entries.some(entry => !entry)) return ingestFileList(dataTransfer.files);
+
+    const files: IngestedFile[] = [];
+    for (const entry of entries) await collectEntry(entry!, files);
+    return partition(files);
+}
@@ -0,0 +1,112 @@
+/**
+ * ICO Encoder
+ * Packs several square renders into a single multi-resolution .ico file
+ */
+
+export type IcoEntryFormat = 'png' | 'bmp';
+
+export interface IcoImage {
+    size: number;
+    blob: Blob;
+}
+
+/** Sizes every favicon.ico should carry; 64 is optional for high-DPI Windows shortcuts */
+export const ICO_SIZES = [16, 32, 48];
+export const ICO_OPTIONAL_SIZE = 64;
+
+const ICONDIR_SIZE = 6;
+const ICONDIRENTRY_SIZE = 16;
+const BITMAPINFOHEADER_SIZE = 40;
+
+async function renderToCanvas(blob: Blob, size: number): Promise<CanvasRenderingContext2D> {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.drawImage(bitmap, 0, 0, size, size);
+    bitmap.close();
+    return ctx;
+}
+
+/**
+ * Encode a 32-bit BMP icon entry: BITMAPINFOHEADER, bottom-up BGRA rows, then the AND mask
+ */
+async function encodeBmpEntry(image: IcoImage): Promise<Uint8Array> {
+    const { size } = image;
+    const pixels = (await renderToCanvas(image.blob, size)).getImageData(0, 0, size, size).data;
+
+    // 1-bit AND mask rows are padded to 32 bits; alpha already carries transparency so it stays zero
+    const maskRowBytes = Math.ceil(size / 32) * 4;
+    const pixelBytes = size * size * 4;
+    const out = new Uint8Array(BITMAPINFOHEADER_SIZE + pixelBytes + maskRowBytes * size);
+    const view = new DataView(out.buffer);
+
+    view.setUint32(0, BITMAPINFOHEADER_SIZE, true);
+    view.setInt32(4, size, true);
+    // Height covers the XOR image plus the AND mask
+    view.setInt32(8, size * 2, true);
+    view.setUint16(12, 1, true);
+    view.setUint16(14, 32, true);
+    view.setUint32(20, pixelBytes + maskRowBytes * size, true);
+
+    let offset = BITMAPINFOHEADER_SIZE;
+    for (let y = size - 1; y >= 0; y--) {
+        for (let x = 0; x < size; x++) {
+            const i = (y * size + x) * 4;
+            out[offset++] = pixels[i + 2];
+            out[offset++] = pixels[i + 1];
+            out[offset++] = pixels[i];
+            out[offset++] = pixels[i + 3];
+        }
+    }
+
+    return out;
+}
+
+async function encodePngEntry(image: IcoImage): Promise<Uint8Array> {
+    if (image.blob.type === 'image/png') return new Uint8Array(await image.blob.arrayBuffer());
+
+    // Re-render anything that isn't already PNG
+    const { canvas } = await renderToCanvas(image.blob, image.size);
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((b) => b ? resolve(b) : reject(new Error('Failed to encode PNG')), 'image/png');
+    });
+    return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Build an .ico holding every image, smallest first, as PNG-compressed or BMP entries
+ */
+export async function encodeIco(images: IcoImage[], format: IcoEntryFormat = 'png'): Promise<Blob> {
+    const sorted = [...images].sort((a, b) => a.size - b.size);
+    if (sorted.some(img => img.size < 1 || img.size > 256)) {
+        throw new Error('ICO entries must be between 1 and 256 pixels');
+    }
+
+    const entries = await Promise.all(sorted.map(img => format === 'bmp' ? encodeBmpEntry(img) : encodePngEntry(img)));
+
+    const header = new Uint8Array(ICONDIR_SIZE + ICONDIRENTRY_SIZE * entries.length);
+    const view = new DataView(header.buffer);
+    view.setUint16(0, 0, true);
+    view.setUint16(2, 1, true);
+    view.setUint16(4, entries.length, true);
+
+    let dataOffset = header.length;
+    sorted.forEach((img, i) => {
+        const p = ICONDIR_SIZE + i * ICONDIRENTRY_SIZE;
+        // A stored 0 means 256
+        header[p] = img.size % 256;
+        header[p + 1] = img.size % 256;
+        header[p + 2] = 0;
+        header[p + 3] = 0;
+        view.setUint16(p + 4, 1, true);
+        view.setUint16(p + 6, 32, true);
+        view.setUint32(p + 8, entries[i].length, true);
+        view.setUint32(p + 12, dataOffset, true);
+        dataOffset += entries[i].length;
+    });
+
+    return new Blob([header, ...entries.map(entry => entry.buffer as ArrayBuffer)], { type: 'image/x-icon' });
+}
@@ -0,0 +1,222 @@
+/**
+ * Image Hashing
+ * Bit-packed dHash / DCT pHash fingerprints, exact SHA-256 digests and BK-tree matching
+ * by Hamming distance
+ */
+
+export type HashMethod = 'dhash' | 'phash' | 'sha256';
+
+export interface HashMethodInfo {
+    id: HashMethod;
+    name: string;
+    description: string;
+}
+
+export const HASH_METHODS: HashMethodInfo[] = [
+    { id: 'phash', name: 'pHash', description: 'DCT of the low frequencies; survives resizing, compression and small edits' },
+    { id: 'dhash', name: 'dHash', description: 'Horizontal gradients; fast and good with resized copies' },
+    { id: 'sha256', name: 'Exact (SHA-256)', description: 'Byte-identical files only' }
+];
+
+/** Bits in a dHash or pHash fingerprint */
+export const PERCEPTUAL_HASH_BITS = 64;
+
+// Grayscale sizes each perceptual hash is computed from
+export const DHASH_SIZE = { width: 9, height: 8 };
+export const PHASH_SIZE = 32;
+
+const PHASH_LOW_FREQUENCIES = 8;
+
+// Set bits per byte value
+const POPCOUNT = new Uint8Array(256);
+for (let i = 1; i < 256; i++) POPCOUNT[i] = (i & 1) + POPCOUNT[i >> 1];
+
+function packBits(bits: boolean[]): Uint8Array {
+    const packed = new Uint8Array(Math.ceil(bits.length / 8));
+    bits.forEach((bit, i) => {
+        if (bit) packed[i >> 3] |= 0x80 >> (i & 7);
+    });
+    return packed;
+}
+
+/**
+ * Difference hash: each bit says whether a pixel is brighter than its right neighbour,
+ * from a 9×8 grayscale image
+ */
+export function dHash(gray: ArrayLike<number>): Uint8Array {
+    const { width, height } = DHASH_SIZE;
+    const bits: boolean[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width - 1; x++) {
+            bits.push(gray[y * width + x] > gray[y * width + x + 1]);
+        }
+    }
+    return packBits(bits);
+}
+
+let dctTable: Float64Array | null = null;
+
+// cos((2x + 1)uπ / 2N) for the low frequencies u we keep
+function dctCoefficients(): Float64Array {
+    if (!dctTable) {
+        dctTable = new Float64Array(PHASH_LOW_FREQUENCIES * PHASH_SIZE);
+        for (let u = 0; u < PHASH_LOW_FREQUENCIES; u++) {
+            for (let x = 0; x < PHASH_SIZE; x++) {
+                dctTable[u * PHASH_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE));
+            }
+        }
+    }
+    return dctTable;
+}
+
+/**
+ * Perceptual hash: 2D DCT-II of a 32×32 grayscale image, keeping the top-left 8×8
+ * coefficients and setting each bit when the coefficient is above their median
+ */
+export function pHash(gray: ArrayLike<number>): Uint8Array {
+    const n = PHASH_SIZE;
+    const k = PHASH_LOW_FREQUENCIES;
+    const cos = dctCoefficients();
+
+    // Rows first, then columns, only for the frequencies we keep
+    const rows = new Float64Array(n * k);
+    for (let y = 0; y < n; y++) {
+        for (let u = 0; u < k; u++) {
+            let sum = 0;
+            for (let x = 0; x < n; x++) sum += gray[y * n + x] * cos[u * n + x];
+            rows[y * k + u] = sum;
+        }
+    }
+
+    const coefficients: number[] = [];
+    for (let v = 0; v < k; v++) {
+        for (let u = 0; u < k; u++) {
+            let sum = 0;
+            for (let y = 0; y < n; y++) sum += rows[y * k + u] * cos[v * n + y];
+            coefficients.push(sum);
+        }
+    }
+
+    const sorted = [...coefficients].sort((a, b) => a - b);
+    const median = (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2;
+    return packBits(coefficients.map(c => c > median));
+}
+
+/** SHA-256 digest of a file's bytes */
+export async function sha256(file: Blob): Promise<Uint8Array> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return new Uint8Array(digest);
+}
+
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) distance += POPCOUNT[a[i] ^ b[i]];
+    return distance;
+}
+
+export function hashToHex(hash: Uint8Array): string {
+    return Array.from(hash, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Largest Hamming distance that still meets a similarity percentage
+ */
+export function similarityToDistance(similarity: number, bits = PERCEPTUAL_HASH_BITS): number {
+    return Math.floor(((100 - similarity) / 100) * bits);
+}
+
+interface BkNode {
+    index: number;
+    children: Map<number, BkNode>;
+}
+
+/**
+ * Burkhard-Keller tree over Hamming distance; a radius query only visits children whose
+ * edge distance is within the radius of the query's distance to the node
+ */
+class BkTree {
+    private root: BkNode | null = null;
+
+    constructor(private hashes: Uint8Array[]) { }
+
+    add(index: number) {
+        const node: BkNode = { index, children: new Map() };
+        if (!this.root) {
+            this.root = node;
+            return;
+        }
+
+        let current = this.root;
+        for (; ;) {
+            const distance = hammingDistance(this.hashes[index], this.hashes[current.index]);
+            const child = current.children.get(distance);
+            if (!child) {
+                current.children.set(distance, node);
+                return;
+            }
+            current = child;
+        }
+    }
+
+    /** Indices within maxDistance of the hash, with their distances */
+    search(hash: Uint8Array, maxDistance: number): { index: number; distance: number }[] {
+        const matches: { index: number; distance: number }[] = [];
+        const stack = this.root ? [this.root] : [];
+
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            const distance = hammingDistance(hash, this.hashes[node.index]);
+            if (distance <= maxDistance) matches.push({ index: node.index, distance });
+
+            node.children.forEach((child, edge) => {
+                if (edge >= distance - maxDistance && edge <= distance + maxDistance) stack.push(child);
+            });
+        }
+        return matches;
+    }
+}
+
+export interface HashMatchGroup {
+    /** Index of the first image, which every other member was matched against */
+    anchor: number;
+    members: { index: number; distance: number }[];
+}
+
+/**
+ * Group hashes that lie within maxDistance of a group's anchor, taking anchors in input order.
+ * Exact matching (maxDistance 0) groups by value directly.
+ */
+export function groupByDistance(hashes: Uint8Array[], maxDistance: number): HashMatchGroup[] {
+    const groups: HashMatchGroup[] = [];
+
+    if (maxDistance === 0) {
+        const byValue = new Map<string, HashMatchGroup>();
+        hashes.forEach((hash, index) => {
+            const key = hashToHex(hash);
+            const group = byValue.get(key);
+            if (group) group.members.push({ index, distance: 0 });
+            else byValue.set(key, { anchor: index, members: [] });
+        });
+        byValue.forEach(group => {
+            if (group.members.length > 0) groups.push(group);
+        });
+        return groups;
+    }
+
+    const tree = new BkTree(hashes);
+    hashes.forEach((_, index) => tree.add(index));
+
+    const grouped = new Set<number>();
+    hashes.forEach((hash, anchor) => {
+        if (grouped.has(anchor)) return;
+        grouped.add(anchor);
+
+        const members = tree.search(hash, maxDistance)
+            .filter(match => !grouped.has(match.index))
+            .sort((a, b) => a.index - b.index);
+        members.forEach(match => grouped.add(match.index));
+
+        if (members.length > 0) groups.push({ anchor, members });
+    });
+    return groups;
+}
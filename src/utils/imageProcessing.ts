@@ -3,6 +3,8 @@
  * All processing happens client-side using Canvas API
  */
 
+import { throwIfAborted } from './taskProgress';
+
 export interface ImageInfo {
     width: number;
     height: number;
@@ -11,6 +13,37 @@ export interface ImageInfo {
     name: string;
 }
 
+/**
+ * Crop rectangle expressed in percent of the source image (0–100)
+ */
+export interface CropArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const ASPECT_RATIOS: { label: string; value: number | null }[] = [
+    { label: 'Free', value: null },
+    { label: '1:1', value: 1 },
+    { label: '16:9', value: 16 / 9 },
+    { label: '9:16', value: 9 / 16 },
+    { label: '4:3', value: 4 / 3 },
+    { label: '3:4', value: 3 / 4 },
+    { label: '3:2', value: 3 / 2 },
+    { label: '2:3', value: 2 / 3 }
+];
+
+export type WatermarkPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left' | 'center';
+
+export interface WatermarkOptions {
+    text: string;
+    position: WatermarkPosition;
+    size: number;
+    opacity: number;
+    color: string;
+}
+
 /**
  * Get image dimensions and info from a File
  */
@@ -42,7 +75,7 @@ export async function getImageInfo(file: File): Promise<ImageInfo> {
 /**
  * Load an image file into an HTMLImageElement
  */
-export async function loadImage(file: File): Promise<HTMLImageElement> {
+export async function loadImage(file: File | Blob): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
         const img = new Image();
         const url = URL.createObjectURL(file);
@@ -75,19 +108,28 @@ export async function loadImageFromUrl(url: string): Promise<HTMLImageElement> {
     });
 }
 
+export type CompressionFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface TargetSizeResult {
+    blob: Blob;
+    quality: number;
+    width: number;
+    height: number;
+}
+
 /**
- * Compress an image to specified quality and format
+ * Draw an image at the given size and encode it
  */
-export async function compressImage(
-    file: File,
+function encodeImage(
+    img: HTMLImageElement,
+    width: number,
+    height: number,
     quality: number,
-    format: 'image/jpeg' | 'image/png' | 'image/webp'
+    format: CompressionFormat
 ): Promise<Blob> {
-    const img = await loadImage(file);
-
     const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
+    canvas.width = width;
+    canvas.height = height;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) throw new Error('Failed to get canvas context');
@@ -98,7 +140,7 @@ export async function compressImage(
         ctx.fillRect(0, 0, canvas.width, canvas.height);
     }
 
-    ctx.drawImage(img, 0, 0);
+    ctx.drawImage(img, 0, 0, width, height);
 
     return new Promise((resolve, reject) => {
         canvas.toBlob(
@@ -112,6 +154,76 @@ export async function compressImage(
     });
 }
 
+/**
+ * Compress an image to specified quality and format
+ */
+export async function compressImage(
+    file: File | Blob,
+    quality: number,
+    format: CompressionFormat
+): Promise<Blob> {
+    const img = await loadImage(file);
+    return encodeImage(img, img.width, img.height, quality, format);
+}
+
+/**
+ * Find the highest quality (and, if allowed, the largest dimensions) that fits a byte budget;
+ * the signal is checked between encodes
+ */
+export async function compressToTargetSize(
+    file: File | Blob,
+    targetBytes: number,
+    format: CompressionFormat,
+    allowDownscale = true,
+    minQuality = 10,
+    signal?: AbortSignal
+): Promise<TargetSizeResult> {
+    const img = await loadImage(file);
+    // PNG ignores the quality argument, so only dimensions can change its size
+    const lossless = format === 'image/png';
+    let scale = 1;
+    let smallest: TargetSizeResult | null = null;
+
+    while (true) {
+        const width = Math.max(1, Math.round(img.width * scale));
+        const height = Math.max(1, Math.round(img.height * scale));
+        let best: TargetSizeResult | null = null;
+
+        if (lossless) {
+            throwIfAborted(signal);
+            const blob = await encodeImage(img, width, height, 100, format);
+            if (blob.size <= targetBytes) best = { blob, quality: 100, width, height };
+            else if (!smallest || blob.size < smallest.blob.size) smallest = { blob, quality: 100, width, height };
+        } else {
+            // Binary search for the highest quality under the budget
+            let low = minQuality;
+            let high = 100;
+            while (low <= high) {
+                const quality = Math.floor((low + high) / 2);
+                throwIfAborted(signal);
+                const blob = await encodeImage(img, width, height, quality, format);
+                if (blob.size <= targetBytes) {
+                    best = { blob, quality, width, height };
+                    low = quality + 1;
+                } else {
+                    if (!smallest || blob.size < smallest.blob.size) smallest = { blob, quality, width, height };
+                    high = quality - 1;
+                }
+            }
+        }
+
+        if (best) return best;
+        if (!allowDownscale || (width <= 16 && height <= 16)) break;
+
+        // Shrink dimensions roughly in proportion to how far over budget we are
+        const overshoot = smallest ? targetBytes / smallest.blob.size : 0.5;
+        scale *= Math.min(0.9, Math.max(0.5, Math.sqrt(overshoot)));
+    }
+
+    if (!smallest) throw new Error('Failed to compress image');
+    return smallest;
+}
+
 /**
  * Resize an image to specified dimensions
  */
@@ -121,9 +233,7 @@ export async function resizeImage(
     targetHeight: number,
     fit: 'cover' | 'contain' = 'cover'
 ): Promise<Blob> {
-    const img = file instanceof File
-        ? await loadImage(file)
-        : await loadImageFromUrl(URL.createObjectURL(file));
+    const img = await loadImage(file);
 
     const canvas = document.createElement('canvas');
     canvas.width = targetWidth;
@@ -186,6 +296,130 @@ export async function resizeImage(
     });
 }
 
+/**
+ * Crop an image to a percentage-based area
+ */
+export async function cropImage(file: File | Blob, area: CropArea): Promise<Blob> {
+    const img = await loadImage(file);
+
+    const sourceX = (area.x / 100) * img.width;
+    const sourceY = (area.y / 100) * img.height;
+    const sourceWidth = (area.width / 100) * img.width;
+    const sourceHeight = (area.height / 100) * img.height;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sourceWidth;
+    canvas.height = sourceHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.drawImage(img, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, sourceWidth, sourceHeight);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => {
+                if (blob) resolve(blob);
+                else reject(new Error('Failed to crop image'));
+            },
+            'image/png'
+        );
+    });
+}
+
+/**
+ * Rotate an image clockwise by a quarter turn or more; 90 and 270 swap width and height
+ */
+export async function rotateImageQuarter(file: File | Blob, degrees: 90 | 180 | 270): Promise<Blob> {
+    const img = await loadImage(file);
+    const sideways = degrees !== 180;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sideways ? img.height : img.width;
+    canvas.height = sideways ? img.width : img.height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate((degrees * Math.PI) / 180);
+    ctx.drawImage(img, -img.width / 2, -img.height / 2);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => {
+                if (blob) resolve(blob);
+                else reject(new Error('Failed to rotate image'));
+            },
+            'image/png'
+        );
+    });
+}
+
+/**
+ * Largest centered crop area matching an aspect ratio (width / height)
+ */
+export function getCenteredCropArea(
+    imageWidth: number,
+    imageHeight: number,
+    aspectRatio: number
+): CropArea {
+    const imageAspect = imageWidth / imageHeight;
+
+    if (imageAspect > aspectRatio) {
+        const width = (aspectRatio / imageAspect) * 100;
+        return { x: (100 - width) / 2, y: 0, width, height: 100 };
+    }
+
+    const height = (imageAspect / aspectRatio) * 100;
+    return { x: 0, y: (100 - height) / 2, width: 100, height };
+}
+
+/**
+ * Draw a text watermark onto an image
+ */
+export async function addTextWatermark(file: File | Blob, options: WatermarkOptions): Promise<Blob> {
+    const img = await loadImage(file);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.drawImage(img, 0, 0);
+    ctx.font = `bold ${options.size}px Arial`;
+    ctx.fillStyle = options.color;
+    ctx.globalAlpha = options.opacity / 100;
+
+    const padding = 20;
+    let x: number;
+    let y: number;
+
+    switch (options.position) {
+        case 'top-left': x = padding; y = padding + options.size; ctx.textAlign = 'left'; break;
+        case 'top-right': x = img.width - padding; y = padding + options.size; ctx.textAlign = 'right'; break;
+        case 'bottom-left': x = padding; y = img.height - padding; ctx.textAlign = 'left'; break;
+        case 'bottom-right': x = img.width - padding; y = img.height - padding; ctx.textAlign = 'right'; break;
+        case 'center': x = img.width / 2; y = img.height / 2; ctx.textAlign = 'center'; break;
+    }
+
+    ctx.shadowColor = 'rgba(0,0,0,0.5)';
+    ctx.shadowBlur = 4;
+    ctx.fillText(options.text, x, y);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            (blob) => {
+                if (blob) resolve(blob);
+                else reject(new Error('Failed to apply watermark'));
+            },
+            'image/png'
+        );
+    });
+}
+
 /**
  * Apply a solid color background to an image with transparency
  */
@@ -231,6 +465,23 @@ export function downloadBlob(blob: Blob, filename: string): void {
     URL.revokeObjectURL(url);
 }
 
+/**
+ * Make file paths unique inside an archive by numbering repeats: photo.jpg, photo (2).jpg
+ */
+export function uniqueFileNames(names: string[]): string[] {
+    const used = new Set<string>();
+    return names.map(name => {
+        let candidate = name;
+        const dot = name.lastIndexOf('.');
+        const hasExtension = dot > name.lastIndexOf('/') + 1;
+        const stem = hasExtension ? name.slice(0, dot) : name;
+        const extension = hasExtension ? name.slice(dot) : '';
+        for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem} (${n})${extension}`;
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+}
+
 /**
  * Format file size for display
  */
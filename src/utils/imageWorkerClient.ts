@@ -0,0 +1,96 @@
+/**
+ * Image Worker Client
+ * Sends jobs to the shared processing worker with progress and cancellation
+ */
+
+import type { WorkerJob, WorkerJobResults, WorkerRequest, WorkerResponse } from '../workers/protocol';
+import { createAbortError, type ProgressCallback } from './taskProgress';
+
+export interface WorkerJobOptions {
+    onProgress?: ProgressCallback;
+    signal?: AbortSignal;
+}
+
+interface PendingJob {
+    resolve: (result: WorkerJobResults[WorkerJob['type']]) => void;
+    reject: (error: Error) => void;
+    onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+function getWorker(): Worker {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const response = e.data;
+        const job = pending.get(response.id);
+        if (!job) return;
+
+        switch (response.kind) {
+            case 'progress':
+                job.onProgress?.({ fraction: response.progress });
+                return;
+            case 'result':
+                job.resolve(response.result);
+                break;
+            case 'error':
+                job.reject(new Error(response.message));
+                break;
+            case 'cancelled':
+                job.reject(createAbortError());
+                break;
+        }
+        pending.delete(response.id);
+    };
+
+    worker.onerror = (e) => {
+        pending.forEach(job => job.reject(new Error(e.message || 'Image worker crashed')));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+
+    return worker;
+}
+
+/**
+ * Run a job in the worker; ImageBitmaps in the job are transferred, not copied
+ */
+export function runWorkerJob<T extends WorkerJob>(
+    job: T,
+    options: WorkerJobOptions = {}
+): Promise<WorkerJobResults[T['type']]> {
+    const { onProgress, signal } = options;
+
+    if (signal?.aborted) {
+        job.bitmap.close();
+        return Promise.reject(createAbortError());
+    }
+
+    const id = nextId++;
+    const target = getWorker();
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => target.postMessage({ id, kind: 'cancel' } satisfies WorkerRequest);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        pending.set(id, {
+            resolve: (result) => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(result as WorkerJobResults[T['type']]);
+            },
+            reject: (error) => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+            onProgress
+        });
+
+        target.postMessage({ id, kind: 'run', job } satisfies WorkerRequest, [job.bitmap]);
+    });
+}
@@ -0,0 +1,628 @@
+/**
+ * Image Metadata Reader
+ * Decodes EXIF (TIFF/IFD), IPTC and XMP metadata from JPEG, PNG and WebP files
+ */
+
+export type MetadataGroup = 'Image' | 'Exif' | 'GPS' | 'Interop' | 'Thumbnail' | 'IPTC' | 'XMP' | 'Comment';
+
+export interface MetadataTag {
+    group: MetadataGroup;
+    name: string;
+    value: string;
+    sensitive: boolean;
+}
+
+export interface GpsPosition {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+}
+
+export interface ImageMetadata {
+    format: 'jpeg' | 'png' | 'webp' | 'other';
+    tags: MetadataTag[];
+    gps: GpsPosition | null;
+    thumbnail: Blob | null;
+}
+
+export const METADATA_GROUPS: { id: MetadataGroup; label: string }[] = [
+    { id: 'GPS', label: '📍 GPS Location' },
+    { id: 'Image', label: '🖼️ Image (IFD0)' },
+    { id: 'Exif', label: '📷 Camera (Exif)' },
+    { id: 'Interop', label: '🔗 Interoperability' },
+    { id: 'Thumbnail', label: '🪟 Embedded Thumbnail' },
+    { id: 'IPTC', label: '📰 IPTC' },
+    { id: 'XMP', label: '🧾 XMP' },
+    { id: 'Comment', label: '💬 Comments & Text' }
+];
+
+type RawValue = number[] | string | Uint8Array;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Pointer tags are followed rather than listed
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const INTEROP_IFD_POINTER = 0xA005;
+const THUMBNAIL_OFFSET = 0x0201;
+const THUMBNAIL_LENGTH = 0x0202;
+const TIFF_XMP = 0x02BC;
+const TIFF_IPTC = 0x83BB;
+
+const TIFF_TAGS: Record<number, string> = {
+    0x0100: 'ImageWidth', 0x0101: 'ImageHeight', 0x0102: 'BitsPerSample', 0x0103: 'Compression',
+    0x0106: 'PhotometricInterpretation', 0x010E: 'ImageDescription', 0x010F: 'Make', 0x0110: 'Model',
+    0x0111: 'StripOffsets', 0x0112: 'Orientation', 0x0115: 'SamplesPerPixel', 0x0116: 'RowsPerStrip',
+    0x0117: 'StripByteCounts', 0x011A: 'XResolution', 0x011B: 'YResolution', 0x011C: 'PlanarConfiguration',
+    0x0128: 'ResolutionUnit', 0x012D: 'TransferFunction', 0x0131: 'Software', 0x0132: 'DateTime',
+    0x013B: 'Artist', 0x013C: 'HostComputer', 0x013E: 'WhitePoint', 0x013F: 'PrimaryChromaticities',
+    0x0211: 'YCbCrCoefficients', 0x0212: 'YCbCrSubSampling', 0x0213: 'YCbCrPositioning',
+    0x0214: 'ReferenceBlackWhite', 0x4746: 'Rating', 0x4749: 'RatingPercent', 0x8298: 'Copyright',
+    0x8773: 'ICCProfile', 0x9C9B: 'XPTitle', 0x9C9C: 'XPComment', 0x9C9D: 'XPAuthor', 0x9C9E: 'XPKeywords',
+    0x9C9F: 'XPSubject', 0xC4A5: 'PrintImageMatching',
+    0x829A: 'ExposureTime', 0x829D: 'FNumber', 0x8822: 'ExposureProgram', 0x8824: 'SpectralSensitivity',
+    0x8827: 'ISO', 0x8830: 'SensitivityType', 0x8832: 'RecommendedExposureIndex', 0x9000: 'ExifVersion',
+    0x9003: 'DateTimeOriginal', 0x9004: 'DateTimeDigitized', 0x9010: 'OffsetTime', 0x9011: 'OffsetTimeOriginal',
+    0x9012: 'OffsetTimeDigitized', 0x9101: 'ComponentsConfiguration', 0x9102: 'CompressedBitsPerPixel',
+    0x9201: 'ShutterSpeedValue', 0x9202: 'ApertureValue', 0x9203: 'BrightnessValue', 0x9204: 'ExposureBiasValue',
+    0x9205: 'MaxApertureValue', 0x9206: 'SubjectDistance', 0x9207: 'MeteringMode', 0x9208: 'LightSource',
+    0x9209: 'Flash', 0x920A: 'FocalLength', 0x9214: 'SubjectArea', 0x927C: 'MakerNote', 0x9286: 'UserComment',
+    0x9290: 'SubSecTime', 0x9291: 'SubSecTimeOriginal', 0x9292: 'SubSecTimeDigitized', 0xA000: 'FlashpixVersion',
+    0xA001: 'ColorSpace', 0xA002: 'PixelXDimension', 0xA003: 'PixelYDimension', 0xA004: 'RelatedSoundFile',
+    0xA20E: 'FocalPlaneXResolution', 0xA20F: 'FocalPlaneYResolution', 0xA210: 'FocalPlaneResolutionUnit',
+    0xA215: 'ExposureIndex', 0xA217: 'SensingMethod', 0xA300: 'FileSource', 0xA301: 'SceneType',
+    0xA302: 'CFAPattern', 0xA401: 'CustomRendered', 0xA402: 'ExposureMode', 0xA403: 'WhiteBalance',
+    0xA404: 'DigitalZoomRatio', 0xA405: 'FocalLengthIn35mmFilm', 0xA406: 'SceneCaptureType', 0xA407: 'GainControl',
+    0xA408: 'Contrast', 0xA409: 'Saturation', 0xA40A: 'Sharpness', 0xA40C: 'SubjectDistanceRange',
+    0xA420: 'ImageUniqueID', 0xA430: 'CameraOwnerName', 0xA431: 'BodySerialNumber', 0xA432: 'LensSpecification',
+    0xA433: 'LensMake', 0xA434: 'LensModel', 0xA435: 'LensSerialNumber', 0xA460: 'CompositeImage'
+};
+
+const GPS_TAGS: Record<number, string> = {
+    0: 'GPSVersionID', 1: 'GPSLatitudeRef', 2: 'GPSLatitude', 3: 'GPSLongitudeRef', 4: 'GPSLongitude',
+    5: 'GPSAltitudeRef', 6: 'GPSAltitude', 7: 'GPSTimeStamp', 8: 'GPSSatellites', 9: 'GPSStatus',
+    10: 'GPSMeasureMode', 11: 'GPSDOP', 12: 'GPSSpeedRef', 13: 'GPSSpeed', 14: 'GPSTrackRef', 15: 'GPSTrack',
+    16: 'GPSImgDirectionRef', 17: 'GPSImgDirection', 18: 'GPSMapDatum', 19: 'GPSDestLatitudeRef',
+    20: 'GPSDestLatitude', 21: 'GPSDestLongitudeRef', 22: 'GPSDestLongitude', 23: 'GPSDestBearingRef',
+    24: 'GPSDestBearing', 25: 'GPSDestDistanceRef', 26: 'GPSDestDistance', 27: 'GPSProcessingMethod',
+    28: 'GPSAreaInformation', 29: 'GPSDateStamp', 30: 'GPSDifferential', 31: 'GPSHPositioningError'
+};
+
+const INTEROP_TAGS: Record<number, string> = { 1: 'InteroperabilityIndex', 2: 'InteroperabilityVersion' };
+
+const IPTC_DATASETS: Record<number, string> = {
+    0: 'RecordVersion', 5: 'ObjectName', 7: 'EditStatus', 10: 'Urgency', 15: 'Category',
+    20: 'SupplementalCategories', 25: 'Keywords', 40: 'SpecialInstructions', 55: 'DateCreated',
+    60: 'TimeCreated', 62: 'DigitalCreationDate', 63: 'DigitalCreationTime', 65: 'OriginatingProgram',
+    70: 'ProgramVersion', 80: 'By-line', 85: 'By-lineTitle', 90: 'City', 92: 'Sub-location',
+    95: 'Province-State', 100: 'Country-PrimaryLocationCode', 101: 'Country-PrimaryLocationName',
+    103: 'OriginalTransmissionReference', 105: 'Headline', 110: 'Credit', 115: 'Source',
+    116: 'CopyrightNotice', 118: 'Contact', 120: 'Caption-Abstract', 122: 'Writer-Editor'
+};
+
+// Enumerated values shared by several tags
+const RESOLUTION_UNITS: Record<number, string> = { 1: 'None', 2: 'inches', 3: 'cm' };
+
+const ENUM_VALUES: Record<string, Record<number, string>> = {
+    Orientation: {
+        1: 'Horizontal (normal)', 2: 'Mirror horizontal', 3: 'Rotate 180', 4: 'Mirror vertical',
+        5: 'Mirror horizontal and rotate 270 CW', 6: 'Rotate 90 CW', 7: 'Mirror horizontal and rotate 90 CW', 8: 'Rotate 270 CW'
+    },
+    ResolutionUnit: RESOLUTION_UNITS,
+    FocalPlaneResolutionUnit: RESOLUTION_UNITS,
+    Compression: { 1: 'Uncompressed', 6: 'JPEG (old-style)', 7: 'JPEG' },
+    YCbCrPositioning: { 1: 'Centered', 2: 'Co-sited' },
+    ExposureProgram: {
+        0: 'Not defined', 1: 'Manual', 2: 'Program AE', 3: 'Aperture priority', 4: 'Shutter priority',
+        5: 'Creative (slow speed)', 6: 'Action (high speed)', 7: 'Portrait', 8: 'Landscape'
+    },
+    MeteringMode: { 0: 'Unknown', 1: 'Average', 2: 'Center-weighted average', 3: 'Spot', 4: 'Multi-spot', 5: 'Multi-segment', 6: 'Partial', 255: 'Other' },
+    LightSource: { 0: 'Unknown', 1: 'Daylight', 2: 'Fluorescent', 3: 'Tungsten', 4: 'Flash', 9: 'Fine weather', 10: 'Cloudy', 11: 'Shade', 255: 'Other' },
+    ColorSpace: { 1: 'sRGB', 2: 'Adobe RGB', 0xFFFF: 'Uncalibrated' },
+    SensingMethod: { 1: 'Not defined', 2: 'One-chip color area', 3: 'Two-chip color area', 4: 'Three-chip color area', 5: 'Color sequential area', 7: 'Trilinear', 8: 'Color sequential linear' },
+    CustomRendered: { 0: 'Normal', 1: 'Custom' },
+    ExposureMode: { 0: 'Auto', 1: 'Manual', 2: 'Auto bracket' },
+    WhiteBalance: { 0: 'Auto', 1: 'Manual' },
+    SceneCaptureType: { 0: 'Standard', 1: 'Landscape', 2: 'Portrait', 3: 'Night' },
+    GainControl: { 0: 'None', 1: 'Low gain up', 2: 'High gain up', 3: 'Low gain down', 4: 'High gain down' },
+    Contrast: { 0: 'Normal', 1: 'Low', 2: 'High' },
+    Saturation: { 0: 'Normal', 1: 'Low', 2: 'High' },
+    Sharpness: { 0: 'Normal', 1: 'Soft', 2: 'Hard' },
+    SubjectDistanceRange: { 0: 'Unknown', 1: 'Macro', 2: 'Close', 3: 'Distant' },
+    GPSAltitudeRef: { 0: 'Above sea level', 1: 'Below sea level' }
+};
+
+const FLASH_MODES: Record<number, string> = { 0x08: ', compulsory', 0x10: ', off', 0x18: ', auto' };
+
+// Tags that identify a person, device, place or moment
+const SENSITIVE_TAGS = new Set([
+    'Make', 'Model', 'Software', 'DateTime', 'DateTimeOriginal', 'DateTimeDigitized', 'OffsetTime',
+    'OffsetTimeOriginal', 'OffsetTimeDigitized', 'Artist', 'HostComputer', 'ImageDescription', 'XPAuthor',
+    'XPComment', 'MakerNote', 'UserComment', 'ImageUniqueID', 'CameraOwnerName', 'BodySerialNumber',
+    'LensMake', 'LensModel', 'LensSerialNumber', 'ThumbnailImage',
+    'By-line', 'City', 'Sub-location', 'Province-State', 'Country-PrimaryLocationCode',
+    'Country-PrimaryLocationName', 'DateCreated', 'TimeCreated', 'Writer-Editor', 'Contact', 'OriginatingProgram'
+]);
+
+const SENSITIVE_XMP = /gps|location|city|country|state|creator|owner|serial|lens|make|model|date|history|author|contact/i;
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+function decodeText(bytes: Uint8Array, encoding = 'utf-8'): string {
+    return new TextDecoder(encoding).decode(bytes).replace(/\0+$/, '').trim();
+}
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+    if (offset + text.length > bytes.length) return false;
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+function round(value: number, digits = 4): string {
+    return String(Number(value.toFixed(digits)));
+}
+
+/**
+ * Read one IFD entry's value; returns null for unknown types or out-of-range data
+ */
+function readEntryValue(view: DataView, tiffStart: number, entry: number, little: boolean): RawValue | null {
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) return null;
+
+    const total = size * count;
+    const dataOffset = total > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (dataOffset + total > view.byteLength) return null;
+
+    if (type === 1 || type === 2 || type === 7) {
+        const bytes = new Uint8Array(view.buffer, view.byteOffset + dataOffset, total);
+        return type === 2 ? decodeText(bytes) : bytes;
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const p = dataOffset + i * size;
+        switch (type) {
+            case 3: values.push(view.getUint16(p, little)); break;
+            case 4: values.push(view.getUint32(p, little)); break;
+            case 5: {
+                const den = view.getUint32(p + 4, little);
+                values.push(den ? view.getUint32(p, little) / den : 0);
+                break;
+            }
+            case 6: values.push(view.getInt8(p)); break;
+            case 8: values.push(view.getInt16(p, little)); break;
+            case 9: values.push(view.getInt32(p, little)); break;
+            case 10: {
+                const den = view.getInt32(p + 4, little);
+                values.push(den ? view.getInt32(p, little) / den : 0);
+                break;
+            }
+            case 11: values.push(view.getFloat32(p, little)); break;
+            case 12: values.push(view.getFloat64(p, little)); break;
+        }
+    }
+    return values;
+}
+
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean) {
+    const start = tiffStart + ifdOffset;
+    const count = view.getUint16(start, little);
+    const entries = new Map<number, RawValue>();
+
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const value = readEntryValue(view, tiffStart, entry, little);
+        if (value !== null) entries.set(view.getUint16(entry, little), value);
+    }
+
+    const nextPos = start + 2 + count * 12;
+    const next = nextPos + 4 <= view.byteLength ? view.getUint32(nextPos, little) : 0;
+    return { entries, next };
+}
+
+function firstNumber(value: RawValue | undefined): number | undefined {
+    if (Array.isArray(value)) return value[0];
+    if (value instanceof Uint8Array) return value[0];
+    return undefined;
+}
+
+function formatDms(values: number[], ref: RawValue | undefined): string {
+    const [deg = 0, min = 0, sec = 0] = values;
+    return `${deg}° ${min}' ${round(sec, 2)}" ${typeof ref === 'string' ? ref : ''}`.trim();
+}
+
+function dmsToDecimal(values: RawValue | undefined, ref: RawValue | undefined): number | null {
+    if (!Array.isArray(values) || values.length < 3) return null;
+    const decimal = values[0] + values[1] / 60 + values[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -decimal : decimal;
+}
+
+function formatBytes(bytes: Uint8Array): string {
+    if (bytes.length > 16) return `(${bytes.length} bytes of binary data)`;
+    return Array.from(bytes).join(' ');
+}
+
+/**
+ * Turn a raw tag value into what a person would read, using tag-specific rules where known
+ */
+function formatValue(name: string, value: RawValue, entries: Map<number, RawValue>): string {
+    if (typeof value === 'string') return value;
+
+    if (value instanceof Uint8Array) {
+        switch (name) {
+            case 'ExifVersion':
+            case 'FlashpixVersion':
+            case 'InteroperabilityVersion':
+                return decodeText(value, 'ascii');
+            case 'GPSVersionID':
+                return Array.from(value).join('.');
+            case 'GPSAltitudeRef':
+                return ENUM_VALUES.GPSAltitudeRef[value[0]] ?? String(value[0]);
+            case 'UserComment':
+            case 'GPSProcessingMethod':
+            case 'GPSAreaInformation':
+                // First 8 bytes name the character code
+                return decodeText(value.subarray(8), startsWith(value, 0, 'UNICODE') ? 'utf-16' : 'utf-8') || '(empty)';
+            case 'XPTitle':
+            case 'XPComment':
+            case 'XPAuthor':
+            case 'XPKeywords':
+            case 'XPSubject':
+                return decodeText(value, 'utf-16le');
+            case 'ComponentsConfiguration':
+                return Array.from(value).map(c => ['-', 'Y', 'Cb', 'Cr', 'R', 'G', 'B'][c] ?? '?').join('');
+            case 'FileSource':
+                return value[0] === 3 ? 'Digital camera' : String(value[0]);
+            case 'SceneType':
+                return value[0] === 1 ? 'Directly photographed' : String(value[0]);
+            case 'MakerNote':
+                return `(${value.length} bytes, vendor-specific)`;
+            case 'ICCProfile':
+                return `(${value.length} bytes)`;
+        }
+        return formatBytes(value);
+    }
+
+    const n = value[0] ?? 0;
+    const enumValues = ENUM_VALUES[name];
+    if (enumValues && value.length === 1) return enumValues[n] ?? String(n);
+
+    switch (name) {
+        case 'ExposureTime':
+            return n > 0 && n < 1 ? `1/${Math.round(1 / n)} s` : `${round(n)} s`;
+        case 'FNumber':
+            return `f/${round(n, 1)}`;
+        case 'ApertureValue':
+        case 'MaxApertureValue':
+            return `f/${round(Math.pow(2, n / 2), 1)}`;
+        case 'ShutterSpeedValue':
+            return n > 0 ? `1/${Math.round(Math.pow(2, n))} s` : `${round(Math.pow(2, -n), 1)} s`;
+        case 'ExposureBiasValue':
+            return `${n > 0 ? '+' : ''}${round(n, 2)} EV`;
+        case 'FocalLength':
+        case 'FocalLengthIn35mmFilm':
+            return `${round(n, 1)} mm`;
+        case 'SubjectDistance':
+            return `${round(n, 2)} m`;
+        case 'LensSpecification': {
+            const [minF, maxF, minA, maxA] = value;
+            const focal = minF === maxF ? `${round(minF, 1)}mm` : `${round(minF, 1)}-${round(maxF, 1)}mm`;
+            const aperture = !minA ? '' : minA === maxA ? ` f/${round(minA, 1)}` : ` f/${round(minA, 1)}-${round(maxA, 1)}`;
+            return focal + aperture;
+        }
+        case 'Flash': {
+            const fired = n & 1 ? 'Fired' : 'Did not fire';
+            const mode = FLASH_MODES[n & 0x18] ?? '';
+            return `${fired}${mode}${n & 0x40 ? ', red-eye reduction' : ''}`;
+        }
+        case 'GPSLatitude':
+            return formatDms(value, entries.get(1));
+        case 'GPSLongitude':
+            return formatDms(value, entries.get(3));
+        case 'GPSDestLatitude':
+            return formatDms(value, entries.get(19));
+        case 'GPSDestLongitude':
+            return formatDms(value, entries.get(21));
+        case 'GPSAltitude':
+            return `${round(n, 1)} m`;
+        case 'GPSTimeStamp':
+            return value.map((v, i) => i < 2 ? String(Math.floor(v)).padStart(2, '0') : round(v, 2).padStart(2, '0')).join(':') + ' UTC';
+    }
+
+    if (value.length > 16) return `(${value.length} values)`;
+    return value.map(v => round(v)).join(', ');
+}
+
+/**
+ * Walk a TIFF structure (IFD0 → Exif/GPS/Interop sub-IFDs → IFD1 thumbnail)
+ */
+function parseTiff(view: DataView, tiffStart: number, result: ImageMetadata): void {
+    const order = view.getUint16(tiffStart);
+    if (order !== 0x4949 && order !== 0x4D4D) return;
+    const little = order === 0x4949;
+    if (view.getUint16(tiffStart + 2, little) !== 42) return;
+
+    const visited = new Set<number>();
+
+    const readGroup = (offset: number | undefined, group: MetadataGroup, names: Record<number, string>) => {
+        if (!offset || visited.has(offset) || tiffStart + offset + 2 > view.byteLength) return null;
+        visited.add(offset);
+
+        let ifd: ReturnType<typeof readIfd>;
+        try {
+            ifd = readIfd(view, tiffStart, offset, little);
+        } catch {
+            return null;
+        }
+
+        ifd.entries.forEach((value, tag) => {
+            if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER || tag === INTEROP_IFD_POINTER) return;
+            if (tag === THUMBNAIL_OFFSET || tag === THUMBNAIL_LENGTH) return;
+            if (tag === TIFF_XMP && value instanceof Uint8Array) {
+                parseXmp(decodeText(value), result);
+                return;
+            }
+            if (tag === TIFF_IPTC && value instanceof Uint8Array) {
+                parseIptc(value, result);
+                return;
+            }
+
+            const name = names[tag] ?? `Tag 0x${tag.toString(16).toUpperCase().padStart(4, '0')}`;
+            const formatted = formatValue(name, value, ifd.entries);
+            if (!formatted) return;
+            result.tags.push({ group, name, value: formatted, sensitive: group === 'GPS' || SENSITIVE_TAGS.has(name) });
+        });
+
+        return ifd;
+    };
+
+    const ifd0 = readGroup(view.getUint32(tiffStart + 4, little), 'Image', TIFF_TAGS);
+    if (!ifd0) return;
+
+    const exif = readGroup(firstNumber(ifd0.entries.get(EXIF_IFD_POINTER)), 'Exif', TIFF_TAGS);
+    if (exif) readGroup(firstNumber(exif.entries.get(INTEROP_IFD_POINTER)), 'Interop', INTEROP_TAGS);
+
+    const gps = readGroup(firstNumber(ifd0.entries.get(GPS_IFD_POINTER)), 'GPS', GPS_TAGS);
+    if (gps) {
+        const latitude = dmsToDecimal(gps.entries.get(2), gps.entries.get(1));
+        const longitude = dmsToDecimal(gps.entries.get(4), gps.entries.get(3));
+        if (latitude !== null && longitude !== null) {
+            const altitude = firstNumber(gps.entries.get(6));
+            const below = firstNumber(gps.entries.get(5)) === 1;
+            result.gps = {
+                latitude,
+                longitude,
+                altitude: altitude === undefined ? undefined : below ? -altitude : altitude
+            };
+        }
+    }
+
+    // IFD1 holds the embedded preview, often taken before any crop or edit
+    const ifd1 = readGroup(ifd0.next, 'Thumbnail', TIFF_TAGS);
+    const thumbOffset = firstNumber(ifd1?.entries.get(THUMBNAIL_OFFSET));
+    const thumbLength = firstNumber(ifd1?.entries.get(THUMBNAIL_LENGTH));
+    if (thumbOffset && thumbLength && tiffStart + thumbOffset + thumbLength <= view.byteLength) {
+        const start = view.byteOffset + tiffStart + thumbOffset;
+        result.thumbnail = new Blob([view.buffer.slice(start, start + thumbLength) as ArrayBuffer], { type: 'image/jpeg' });
+        result.tags.push({ group: 'Thumbnail', name: 'ThumbnailImage', value: `JPEG, ${thumbLength} bytes`, sensitive: true });
+    }
+}
+
+/**
+ * Parse IPTC-IIM datasets (record 2 is the editorial record)
+ */
+function parseIptc(bytes: Uint8Array, result: ImageMetadata): void {
+    const values = new Map<string, string[]>();
+    let offset = 0;
+
+    while (offset + 5 <= bytes.length) {
+        if (bytes[offset] !== 0x1C) break;
+        const record = bytes[offset + 1];
+        const dataset = bytes[offset + 2];
+        const length = (bytes[offset + 3] << 8) | bytes[offset + 4];
+        // Extended-length datasets are not used for text fields
+        if (length & 0x8000) break;
+        offset += 5;
+        if (offset + length > bytes.length) break;
+
+        if (record === 2) {
+            const name = IPTC_DATASETS[dataset] ?? `Dataset 2:${dataset}`;
+            const text = dataset === 0 && length === 2
+                ? String((bytes[offset] << 8) | bytes[offset + 1])
+                : decodeText(bytes.subarray(offset, offset + length));
+            if (text) values.set(name, [...(values.get(name) ?? []), text]);
+        }
+        offset += length;
+    }
+
+    values.forEach((list, name) => {
+        result.tags.push({ group: 'IPTC', name, value: list.join(', '), sensitive: SENSITIVE_TAGS.has(name) });
+    });
+}
+
+/**
+ * Find the IPTC block inside a Photoshop APP13 image resource list
+ */
+function parsePhotoshopResources(bytes: Uint8Array, result: ImageMetadata): void {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+
+    while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+        const id = view.getUint16(offset + 4);
+        // Pascal-string name padded to an even length
+        const nameLength = bytes[offset + 6];
+        offset += 6 + ((nameLength + 2) & ~1);
+        if (offset + 4 > bytes.length) break;
+        const size = view.getUint32(offset);
+        offset += 4;
+        if (offset + size > bytes.length) break;
+
+        if (id === 0x0404) parseIptc(bytes.subarray(offset, offset + size), result);
+        offset += size + (size & 1);
+    }
+}
+
+function xmpValue(el: Element): string {
+    const items = el.getElementsByTagNameNS(RDF_NS, 'li');
+    if (items.length > 0) {
+        return Array.from(items).map(li => li.textContent?.trim() ?? '').filter(Boolean).join(', ');
+    }
+    const resource = el.getAttributeNS(RDF_NS, 'resource');
+    if (resource) return resource;
+    if (el.children.length > 0) {
+        return Array.from(el.children).map(child => `${child.localName}: ${xmpValue(child)}`).join('; ');
+    }
+    return (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * List every property of each rdf:Description in an XMP packet
+ */
+function parseXmp(xml: string, result: ImageMetadata): void {
+    const push = (name: string, value: string) => {
+        if (value) result.tags.push({ group: 'XMP', name, value, sensitive: SENSITIVE_XMP.test(name) });
+    };
+
+    const doc = new DOMParser().parseFromString(xml.trim(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        push('XMPPacket', `(${xml.length} characters, could not be parsed)`);
+        return;
+    }
+
+    for (const desc of Array.from(doc.getElementsByTagNameNS(RDF_NS, 'Description'))) {
+        for (const attr of Array.from(desc.attributes)) {
+            if (attr.name.startsWith('xmlns') || attr.namespaceURI === RDF_NS) continue;
+            push(attr.name, attr.value);
+        }
+        for (const child of Array.from(desc.children)) {
+            push(child.nodeName, xmpValue(child));
+        }
+    }
+}
+
+function parseJpeg(bytes: Uint8Array, view: DataView, result: ImageMetadata): void {
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xFF) break;
+        const marker = bytes[offset + 1];
+        // Fill bytes and markers without a length field
+        if (marker === 0xFF) { offset++; continue; }
+        if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) { offset += 2; continue; }
+        // Image data starts at SOS; metadata never follows it
+        if (marker === 0xDA || marker === 0xD9) break;
+
+        const length = view.getUint16(offset + 2);
+        const start = offset + 4;
+        const end = offset + 2 + length;
+        if (end > bytes.length) break;
+
+        if (marker === 0xE1 && startsWith(bytes, start, 'Exif\0')) {
+            parseTiff(view, start + 6, result);
+        } else if (marker === 0xE1 && startsWith(bytes, start, XMP_HEADER)) {
+            parseXmp(decodeText(bytes.subarray(start + XMP_HEADER.length, end)), result);
+        } else if (marker === 0xED && startsWith(bytes, start, 'Photoshop 3.0\0')) {
+            parsePhotoshopResources(bytes.subarray(start + 14, end), result);
+        } else if (marker === 0xFE) {
+            result.tags.push({ group: 'Comment', name: 'JPEGComment', value: decodeText(bytes.subarray(start, end)), sensitive: true });
+        }
+
+        offset = end;
+    }
+}
+
+function parsePng(bytes: Uint8Array, view: DataView, result: ImageMetadata): void {
+    let offset = 8;
+
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = decodeText(bytes.subarray(offset + 4, offset + 8), 'ascii');
+        const start = offset + 8;
+        const end = start + length;
+        if (end + 4 > bytes.length || type === 'IDAT' || type === 'IEND') break;
+
+        const data = bytes.subarray(start, end);
+        const separator = data.indexOf(0);
+        const keyword = separator > 0 ? decodeText(data.subarray(0, separator), 'latin1') : '';
+
+        if (type === 'eXIf') {
+            parseTiff(view, start, result);
+        } else if (type === 'tEXt' && separator > 0) {
+            result.tags.push({ group: 'Comment', name: keyword, value: decodeText(data.subarray(separator + 1), 'latin1'), sensitive: true });
+        } else if (type === 'iTXt' && separator > 0) {
+            // keyword\0 compression-flag method language\0 translated-keyword\0 text
+            const compressed = data[separator + 1] === 1;
+            const langEnd = data.indexOf(0, separator + 3);
+            const textStart = langEnd < 0 ? -1 : data.indexOf(0, langEnd + 1) + 1;
+            const text = textStart > 0 && !compressed ? decodeText(data.subarray(textStart)) : '';
+            if (keyword === 'XML:com.adobe.xmp' && text) parseXmp(text, result);
+            else result.tags.push({ group: 'Comment', name: keyword, value: text || '(compressed text)', sensitive: true });
+        } else if (type === 'zTXt' && separator > 0) {
+            result.tags.push({ group: 'Comment', name: keyword, value: `(compressed text, ${length} bytes)`, sensitive: true });
+        }
+
+        offset = end + 4;
+    }
+}
+
+function parseWebp(bytes: Uint8Array, view: DataView, result: ImageMetadata): void {
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+        const type = decodeText(bytes.subarray(offset, offset + 4), 'ascii');
+        const size = view.getUint32(offset + 4, true);
+        const start = offset + 8;
+        if (start + size > bytes.length) break;
+
+        if (type === 'EXIF') {
+            // Some encoders keep the JPEG-style "Exif\0\0" prefix
+            parseTiff(view, startsWith(bytes, start, 'Exif\0') ? start + 6 : start, result);
+        } else if (type === 'XMP') {
+            parseXmp(decodeText(bytes.subarray(start, start + size)), result);
+        }
+
+        offset = start + size + (size & 1);
+    }
+}
+
+/**
+ * Read all EXIF, IPTC and XMP metadata embedded in an image file
+ */
+export async function readMetadata(file: Blob): Promise<ImageMetadata> {
+    const buffer = await file.arrayBuffer();
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const result: ImageMetadata = { format: 'other', tags: [], gps: null, thumbnail: null };
+
+    try {
+        if (bytes[0] === 0xFF && bytes[1] === 0xD8) {
+            result.format = 'jpeg';
+            parseJpeg(bytes, view, result);
+        } else if (startsWith(bytes, 0, '\x89PNG\r\n\x1a\n')) {
+            result.format = 'png';
+            parsePng(bytes, view, result);
+        } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+            result.format = 'webp';
+            parseWebp(bytes, view, result);
+        }
+    } catch (error) {
+        // Keep whatever was decoded before the malformed part
+        console.warn('Stopped reading malformed metadata:', error);
+    }
+
+    return result;
+}
+
+/**
+ * Look up a decoded tag value by name (first match across groups)
+ */
+export function getTagValue(metadata: ImageMetadata, name: string): string | undefined {
+    return metadata.tags.find(tag => tag.name === name)?.value;
+}
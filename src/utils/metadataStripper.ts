@@ -0,0 +1,577 @@
+/**
+ * Lossless Metadata Stripper
+ * Removes metadata segments/chunks from JPEG, PNG, WebP and GIF files
+ * without touching the compressed image data
+ */
+
+export type MetadataCategory =
+    | 'location'
+    | 'camera'
+    | 'dates'
+    | 'author'
+    | 'thumbnail'
+    | 'iptc'
+    | 'xmp'
+    | 'comments'
+    | 'orientation'
+    | 'colorProfile';
+
+export const METADATA_CATEGORIES: { id: MetadataCategory; label: string; description: string }[] = [
+    { id: 'location', label: '📍 GPS Location', description: 'Coordinates, altitude and GPS time' },
+    { id: 'camera', label: '📷 Camera & Lens', description: 'Make, model, serial numbers, lens and exposure settings' },
+    { id: 'dates', label: '🕒 Dates & Times', description: 'When the photo was taken, digitized and edited' },
+    { id: 'author', label: '👤 Author & Copyright', description: 'Artist, copyright, descriptions and user comments' },
+    { id: 'thumbnail', label: '🪟 Embedded Thumbnail', description: 'Preview image that may show the unedited original' },
+    { id: 'iptc', label: '📰 IPTC', description: 'Photoshop/press fields such as by-line, city and keywords' },
+    { id: 'xmp', label: '🧾 XMP', description: 'Adobe XMP packet with edit history and tool info' },
+    { id: 'comments', label: '💬 Comments & Text', description: 'JPEG comments, PNG text chunks and GIF comments' },
+    { id: 'orientation', label: '🔄 Orientation', description: 'Rotation flag so the image displays upright' },
+    { id: 'colorProfile', label: '🎨 ICC Color Profile', description: 'Keeps colors accurate on wide-gamut screens' }
+];
+
+/**
+ * Safe default: keep what affects how the image looks, drop everything personal
+ */
+export const DEFAULT_KEPT_CATEGORIES: MetadataCategory[] = ['orientation', 'colorProfile'];
+
+export interface StripResult {
+    blob: Blob;
+    removed: MetadataCategory[];
+    lossless: boolean;
+}
+
+interface RawEntry {
+    tag: number;
+    type: number;
+    count: number;
+    data: Uint8Array;
+}
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const INTEROP_IFD_POINTER = 0xA005;
+const THUMBNAIL_OFFSET = 0x0201;
+const THUMBNAIL_LENGTH = 0x0202;
+const MAKER_NOTE = 0x927C;
+
+// Layout and color tags that say nothing about the user; kept whenever the EXIF block is
+const STRUCTURAL_TAGS = new Set([
+    0x0100, 0x0101, 0x0102, 0x0103, 0x0106, 0x0115, 0x011A, 0x011B, 0x011C, 0x0128, 0x012D, 0x013E, 0x013F,
+    0x0211, 0x0212, 0x0213, 0x0214, 0x9000, 0x9101, 0xA000, 0xA001, 0xA002, 0xA003
+]);
+
+const TAG_CATEGORIES: Record<number, MetadataCategory> = {
+    0x0112: 'orientation',
+    0x8773: 'colorProfile',
+    0x0132: 'dates', 0x9003: 'dates', 0x9004: 'dates', 0x9010: 'dates', 0x9011: 'dates', 0x9012: 'dates',
+    0x9290: 'dates', 0x9291: 'dates', 0x9292: 'dates',
+    0x010E: 'author', 0x013B: 'author', 0x8298: 'author', 0x9286: 'author',
+    0x9C9B: 'author', 0x9C9C: 'author', 0x9C9D: 'author', 0x9C9E: 'author', 0x9C9F: 'author',
+    0x02BC: 'xmp',
+    0x83BB: 'iptc'
+};
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+    if (offset + text.length > bytes.length) return false;
+    for (let i = 0; i < text.length; i++) {
+        if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+}
+
+function ascii(text: string): Uint8Array {
+    return Uint8Array.from(text, c => c.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// Anything not known to be structural or otherwise categorized is treated as camera data
+function tagCategory(tag: number): MetadataCategory | null {
+    if (STRUCTURAL_TAGS.has(tag)) return null;
+    return TAG_CATEGORIES[tag] ?? 'camera';
+}
+
+// ---------------------------------------------------------------------------
+// EXIF (TIFF) rewriting
+// ---------------------------------------------------------------------------
+
+// Null when the IFD starts outside the block; entries and data past its end are skipped
+function readRawIfd(view: DataView, offset: number, little: boolean): { entries: RawEntry[]; next: number } | null {
+    if (offset < 8 || offset + 2 > view.byteLength) return null;
+    const count = view.getUint16(offset, little);
+    const entries: RawEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+        const p = offset + 2 + i * 12;
+        if (p + 12 > view.byteLength) break;
+        const tag = view.getUint16(p, little);
+        const type = view.getUint16(p + 2, little);
+        const valueCount = view.getUint32(p + 4, little);
+        const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+        if (!size) continue;
+
+        const dataOffset = size > 4 ? view.getUint32(p + 8, little) : p + 8;
+        if (dataOffset + size > view.byteLength) continue;
+        entries.push({ tag, type, count: valueCount, data: new Uint8Array(view.buffer, view.byteOffset + dataOffset, size).slice() });
+    }
+
+    const nextPos = offset + 2 + count * 12;
+    const next = nextPos + 4 <= view.byteLength ? view.getUint32(nextPos, little) : 0;
+    return { entries, next };
+}
+
+function entryNumber(entries: RawEntry[], tag: number, little: boolean): number {
+    const entry = entries.find(e => e.tag === tag);
+    if (!entry || entry.data.length < (entry.type === 3 ? 2 : 4)) return 0;
+    const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength);
+    return entry.type === 3 ? view.getUint16(0, little) : view.getUint32(0, little);
+}
+
+function longEntry(tag: number, value: number, little: boolean): RawEntry {
+    const data = new Uint8Array(4);
+    new DataView(data.buffer).setUint32(0, value, little);
+    return { tag, type: 4, count: 1, data };
+}
+
+function ifdSize(entries: RawEntry[]): number {
+    return 2 + entries.length * 12 + 4 + entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length & 1) : 0), 0);
+}
+
+function writeIfd(view: DataView, bytes: Uint8Array, offset: number, entries: RawEntry[], next: number, little: boolean): void {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    view.setUint16(offset, sorted.length, little);
+    let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+    sorted.forEach((entry, i) => {
+        const p = offset + 2 + i * 12;
+        view.setUint16(p, entry.tag, little);
+        view.setUint16(p + 2, entry.type, little);
+        view.setUint32(p + 4, entry.count, little);
+        if (entry.data.length <= 4) {
+            bytes.set(entry.data, p + 8);
+        } else {
+            view.setUint32(p + 8, dataOffset, little);
+            bytes.set(entry.data, dataOffset);
+            dataOffset += entry.data.length + (entry.data.length & 1);
+        }
+    });
+
+    view.setUint32(offset + 2 + sorted.length * 12, next, little);
+}
+
+// What an EXIF block can hold: every tag category plus the GPS IFD and the IFD1 thumbnail. All
+// of it goes when a broken block is dropped whole.
+const EXIF_CATEGORIES = new Set<MetadataCategory>([...Object.values(TAG_CATEGORIES), 'camera', 'location', 'thumbnail']);
+
+/**
+ * Rebuild a TIFF block with only the kept categories. Returns the input untouched
+ * when nothing needs dropping, or null when nothing worth keeping is left or the
+ * block is too broken to read (an IFD pointing outside it).
+ */
+function rewriteExif(tiff: Uint8Array, keep: Set<MetadataCategory>, removed: Set<MetadataCategory>): Uint8Array | null {
+    const invalid = () => {
+        EXIF_CATEGORIES.forEach(category => removed.add(category));
+        return null;
+    };
+    if (tiff.length < 8) return invalid();
+
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const order = view.getUint16(0);
+    if (order !== 0x4949 && order !== 0x4D4D) return invalid();
+    const little = order === 0x4949;
+
+    const ifd0 = readRawIfd(view, view.getUint32(4, little), little);
+    if (!ifd0) return invalid();
+    const exifOffset = entryNumber(ifd0.entries, EXIF_IFD_POINTER, little);
+    const gpsOffset = entryNumber(ifd0.entries, GPS_IFD_POINTER, little);
+    const hasPointer = (tag: number) => ifd0.entries.some(e => e.tag === tag);
+    const exifIfd = hasPointer(EXIF_IFD_POINTER) ? readRawIfd(view, exifOffset, little) : null;
+    const gpsIfd = hasPointer(GPS_IFD_POINTER) ? readRawIfd(view, gpsOffset, little) : null;
+    const ifd1Ifd = ifd0.next ? readRawIfd(view, ifd0.next, little) : null;
+    if ((hasPointer(EXIF_IFD_POINTER) && !exifIfd) || (hasPointer(GPS_IFD_POINTER) && !gpsIfd) || (ifd0.next && !ifd1Ifd)) return invalid();
+    const exif = exifIfd?.entries ?? [];
+    const gps = gpsIfd?.entries ?? [];
+    const ifd1 = ifd1Ifd?.entries ?? [];
+
+    const thumbStart = entryNumber(ifd1, THUMBNAIL_OFFSET, little);
+    const thumbLength = entryNumber(ifd1, THUMBNAIL_LENGTH, little);
+    const thumbnail = thumbStart && thumbLength && thumbStart + thumbLength <= tiff.length
+        ? tiff.slice(thumbStart, thumbStart + thumbLength)
+        : null;
+
+    const dropped = new Set<MetadataCategory>();
+    let kept = 0;
+    const filter = (entries: RawEntry[]) => entries.filter(entry => {
+        if (entry.tag === EXIF_IFD_POINTER || entry.tag === GPS_IFD_POINTER || entry.tag === INTEROP_IFD_POINTER) return false;
+        const category = tagCategory(entry.tag);
+        if (!category) return true;
+        if (keep.has(category)) {
+            kept++;
+            return true;
+        }
+        dropped.add(category);
+        return false;
+    });
+
+    const newIfd0 = filter(ifd0.entries);
+    // MakerNote offsets are vendor-relative and break once the block moves, so it never survives a rewrite
+    const newExif = filter(exif).filter(entry => entry.tag !== MAKER_NOTE);
+    const newGps = keep.has('location') ? gps : [];
+    const keepThumbnail = keep.has('thumbnail') && thumbnail !== null;
+
+    if (gps.length > 0 && !keep.has('location')) dropped.add('location');
+    if (thumbnail && !keepThumbnail) dropped.add('thumbnail');
+    if (dropped.size === 0) return tiff;
+    // Lost to the rewrite even when camera data is kept, so it is reported
+    if (keep.has('camera') && exif.some(entry => entry.tag === MAKER_NOTE)) dropped.add('camera');
+
+    dropped.forEach(category => removed.add(category));
+    if (kept === 0 && newGps.length === 0 && !keepThumbnail) return null;
+
+    // Pointer entries are added with placeholder values, then patched once offsets are known
+    const exifPointer = newExif.length > 0 ? longEntry(EXIF_IFD_POINTER, 0, little) : null;
+    const gpsPointer = newGps.length > 0 ? longEntry(GPS_IFD_POINTER, 0, little) : null;
+    if (exifPointer) newIfd0.push(exifPointer);
+    if (gpsPointer) newIfd0.push(gpsPointer);
+
+    const newIfd1 = keepThumbnail
+        ? [
+            ...ifd1.filter(e => e.tag !== THUMBNAIL_OFFSET && e.tag !== THUMBNAIL_LENGTH),
+            longEntry(THUMBNAIL_OFFSET, 0, little),
+            longEntry(THUMBNAIL_LENGTH, thumbnail.length, little)
+        ]
+        : [];
+
+    const ifd0At = 8;
+    const exifAt = ifd0At + ifdSize(newIfd0);
+    const gpsAt = exifAt + (exifPointer ? ifdSize(newExif) : 0);
+    const ifd1At = gpsAt + (gpsPointer ? ifdSize(newGps) : 0);
+    const thumbAt = ifd1At + (keepThumbnail ? ifdSize(newIfd1) : 0);
+    const total = thumbAt + (keepThumbnail ? thumbnail.length : 0);
+
+    if (exifPointer) new DataView(exifPointer.data.buffer).setUint32(0, exifAt, little);
+    if (gpsPointer) new DataView(gpsPointer.data.buffer).setUint32(0, gpsAt, little);
+    if (keepThumbnail) {
+        const offsetEntry = newIfd1.find(e => e.tag === THUMBNAIL_OFFSET)!;
+        new DataView(offsetEntry.data.buffer).setUint32(0, thumbAt, little);
+    }
+
+    const out = new Uint8Array(total);
+    const outView = new DataView(out.buffer);
+    outView.setUint16(0, order);
+    outView.setUint16(2, 42, little);
+    outView.setUint32(4, ifd0At, little);
+
+    writeIfd(outView, out, ifd0At, newIfd0, keepThumbnail ? ifd1At : 0, little);
+    if (exifPointer) writeIfd(outView, out, exifAt, newExif, 0, little);
+    if (gpsPointer) writeIfd(outView, out, gpsAt, newGps, 0, little);
+    if (keepThumbnail) {
+        writeIfd(outView, out, ifd1At, newIfd1, 0, little);
+        out.set(thumbnail, thumbAt);
+    }
+
+    return out;
+}
+
+// ---------------------------------------------------------------------------
+// Containers
+// ---------------------------------------------------------------------------
+
+/**
+ * Decide the fate of one metadata block: keep it, drop it, or (for EXIF) rewrite it
+ */
+function filterBlock(category: MetadataCategory, keep: Set<MetadataCategory>, removed: Set<MetadataCategory>): boolean {
+    if (keep.has(category)) return true;
+    removed.add(category);
+    return false;
+}
+
+function stripJpeg(bytes: Uint8Array, keep: Set<MetadataCategory>, removed: Set<MetadataCategory>): Uint8Array {
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xFF) break;
+        const marker = bytes[offset + 1];
+        // Everything from the first scan onward is image data and is copied verbatim
+        if (marker === 0xDA || marker === 0xD9) break;
+
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const start = offset + 4;
+        const end = offset + 2 + length;
+        if (end > bytes.length) break;
+        const segment = bytes.subarray(offset, end);
+
+        if (marker === 0xE1 && startsWith(bytes, start, 'Exif\0')) {
+            const tiffData = bytes.subarray(start + 6, end);
+            const tiff = rewriteExif(tiffData, keep, removed);
+            if (tiff === tiffData) {
+                parts.push(segment);
+            } else if (tiff) {
+                const header = new Uint8Array([0xFF, 0xE1, 0, 0, ...ascii('Exif\0\0')]);
+                const segLength = 2 + 6 + tiff.length;
+                header[2] = segLength >> 8;
+                header[3] = segLength & 0xFF;
+                parts.push(header, tiff);
+            }
+        } else if (marker === 0xE1 && startsWith(bytes, start, 'http://ns.adobe.com/')) {
+            if (filterBlock('xmp', keep, removed)) parts.push(segment);
+        } else if (marker === 0xE2 && startsWith(bytes, start, 'ICC_PROFILE\0')) {
+            if (filterBlock('colorProfile', keep, removed)) parts.push(segment);
+        } else if (marker === 0xED) {
+            if (filterBlock('iptc', keep, removed)) parts.push(segment);
+        } else if (marker === 0xFE) {
+            if (filterBlock('comments', keep, removed)) parts.push(segment);
+        } else {
+            parts.push(segment);
+        }
+
+        offset = end;
+    }
+
+    parts.push(bytes.subarray(offset));
+    return concat(parts);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(ascii(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+function stripPng(bytes: Uint8Array, keep: Set<MetadataCategory>, removed: Set<MetadataCategory>): Uint8Array {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let offset = 8;
+
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const end = offset + 12 + length;
+        if (end > bytes.length) break;
+        const chunk = bytes.subarray(offset, end);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'eXIf') {
+            const tiff = rewriteExif(data, keep, removed);
+            if (tiff === data) parts.push(chunk);
+            else if (tiff) parts.push(pngChunk('eXIf', tiff));
+        } else if (type === 'iTXt' && startsWith(data, 0, 'XML:com.adobe.xmp\0')) {
+            if (filterBlock('xmp', keep, removed)) parts.push(chunk);
+        } else if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+            if (filterBlock('comments', keep, removed)) parts.push(chunk);
+        } else if (type === 'tIME') {
+            if (filterBlock('dates', keep, removed)) parts.push(chunk);
+        } else if (type === 'iCCP') {
+            if (filterBlock('colorProfile', keep, removed)) parts.push(chunk);
+        } else {
+            parts.push(chunk);
+        }
+
+        offset = end;
+    }
+
+    parts.push(bytes.subarray(offset));
+    return concat(parts);
+}
+
+// VP8X feature flags that must match the chunks present
+const VP8X_ICC = 0x20;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+function stripWebp(bytes: Uint8Array, keep: Set<MetadataCategory>, removed: Set<MetadataCategory>): Uint8Array {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Uint8Array[] = [];
+    let vp8x: Uint8Array | null = null;
+    let hasIcc = false, hasExif = false, hasXmp = false;
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+        const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+        const size = view.getUint32(offset + 4, true);
+        const end = offset + 8 + size + (size & 1);
+        if (offset + 8 + size > bytes.length) break;
+        const chunk = bytes.subarray(offset, Math.min(end, bytes.length));
+        const data = bytes.subarray(offset + 8, offset + 8 + size);
+
+        if (type === 'VP8X') {
+            vp8x = chunk.slice();
+            chunks.push(vp8x);
+        } else if (type === 'EXIF') {
+            const prefixed = startsWith(data, 0, 'Exif\0');
+            const tiffData = prefixed ? data.subarray(6) : data;
+            const tiff = rewriteExif(tiffData, keep, removed);
+            if (tiff === tiffData) {
+                chunks.push(chunk);
+                hasExif = true;
+            } else if (tiff) {
+                const header = new Uint8Array(8);
+                header.set(ascii('EXIF'));
+                new DataView(header.buffer).setUint32(4, tiff.length, true);
+                chunks.push(header, tiff, new Uint8Array(tiff.length & 1));
+                hasExif = true;
+            }
+        } else if (type === 'XMP ') {
+            if (filterBlock('xmp', keep, removed)) {
+                chunks.push(chunk);
+                hasXmp = true;
+            }
+        } else if (type === 'ICCP') {
+            if (filterBlock('colorProfile', keep, removed)) {
+                chunks.push(chunk);
+                hasIcc = true;
+            }
+        } else {
+            chunks.push(chunk);
+        }
+
+        offset = end;
+    }
+
+    if (vp8x) {
+        let flags = vp8x[8] & ~(VP8X_ICC | VP8X_EXIF | VP8X_XMP);
+        if (hasIcc) flags |= VP8X_ICC;
+        if (hasExif) flags |= VP8X_EXIF;
+        if (hasXmp) flags |= VP8X_XMP;
+        vp8x[8] = flags;
+    }
+
+    const body = concat(chunks);
+    const header = new Uint8Array(12);
+    header.set(ascii('RIFF'));
+    new DataView(header.buffer).setUint32(4, 4 + body.length, true);
+    header.set(ascii('WEBP'), 8);
+    return concat([header, body]);
+}
+
+function skipGifSubBlocks(bytes: Uint8Array, offset: number): number {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    return offset + 1;
+}
+
+function stripGif(bytes: Uint8Array, keep: Set<MetadataCategory>, removed: Set<MetadataCategory>): Uint8Array {
+    const parts: Uint8Array[] = [];
+    // Header + logical screen descriptor, plus the global color table if flagged
+    let offset = 13;
+    if (bytes[10] & 0x80) offset += 3 * (1 << ((bytes[10] & 0x07) + 1));
+    parts.push(bytes.subarray(0, offset));
+
+    while (offset < bytes.length) {
+        const start = offset;
+        const introducer = bytes[offset];
+
+        if (introducer === 0x3B) break;
+        if (introducer === 0x2C) {
+            // Image descriptor, optional local color table, LZW code size, then data sub-blocks
+            const packed = bytes[offset + 9];
+            offset += 10;
+            if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1));
+            offset = skipGifSubBlocks(bytes, offset + 1);
+            parts.push(bytes.subarray(start, offset));
+        } else if (introducer === 0x21) {
+            const label = bytes[offset + 1];
+            offset = skipGifSubBlocks(bytes, offset + 2);
+            const block = bytes.subarray(start, offset);
+
+            if (label === 0xFE) {
+                if (filterBlock('comments', keep, removed)) parts.push(block);
+            } else if (label === 0xFF && startsWith(bytes, start + 3, 'XMP DataXMP')) {
+                if (filterBlock('xmp', keep, removed)) parts.push(block);
+            } else {
+                parts.push(block);
+            }
+        } else {
+            break;
+        }
+    }
+
+    parts.push(bytes.subarray(offset));
+    return concat(parts);
+}
+
+/**
+ * Last resort for formats without a lossless path: redraw and export as PNG
+ */
+async function reencodeAsPng(file: Blob): Promise<Blob> {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Failed to create clean image')), 'image/png');
+    });
+}
+
+/**
+ * Remove metadata byte-for-byte, keeping the listed categories. Compressed image
+ * data is copied unchanged, so pixels stay bit-identical.
+ */
+export async function stripMetadata(file: Blob, keepCategories: MetadataCategory[] = []): Promise<StripResult> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const keep = new Set(keepCategories);
+    const removed = new Set<MetadataCategory>();
+
+    let output: Uint8Array | null = null;
+    let type = file.type;
+
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) {
+        output = stripJpeg(bytes, keep, removed);
+        type = 'image/jpeg';
+    } else if (startsWith(bytes, 0, '\x89PNG\r\n\x1a\n')) {
+        output = stripPng(bytes, keep, removed);
+        type = 'image/png';
+    } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+        output = stripWebp(bytes, keep, removed);
+        type = 'image/webp';
+    } else if (startsWith(bytes, 0, 'GIF8')) {
+        output = stripGif(bytes, keep, removed);
+        type = 'image/gif';
+    }
+
+    if (!output) {
+        return { blob: await reencodeAsPng(file), removed: [], lossless: false };
+    }
+
+    return {
+        blob: new Blob([output.buffer as ArrayBuffer], { type }),
+        removed: METADATA_CATEGORIES.map(c => c.id).filter(id => removed.has(id)),
+        lossless: true
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * OCR Engine
+ * Tesseract.js workers that run entirely from this site: self-hosted worker script and wasm
+ * cores, and language data read from the IndexedDB cache the language packs are installed into
+ */
+
+import Tesseract from 'tesseract.js';
+import { isPackInstalled, OCR_ASSETS_URL, OSD_PACK, PACK_CACHE_PATH, PACK_URL } from './ocrLanguages';
+
+export type OcrWorker = Tesseract.Worker;
+
+const WORKER_OPTIONS: Partial<Tesseract.WorkerOptions> = {
+    workerPath: `${OCR_ASSETS_URL}/worker.min.js`,
+    // Tesseract.js picks the SIMD / LSTM-only build that fits from this folder
+    corePath: `${OCR_ASSETS_URL}/core`,
+    // Packs are read from the cache installPack fills; Tesseract.js never writes to it, and
+    // falls back to this site's copy rather than its CDN
+    langPath: PACK_URL,
+    gzip: true,
+    cachePath: PACK_CACHE_PATH,
+    cacheMethod: 'readOnly'
+};
+
+async function checkInstalled(codes: string[]): Promise<void> {
+    for (const code of codes) {
+        if (!await isPackInstalled(code)) throw new Error(`Language pack "${code}" is not installed`);
+    }
+}
+
+/**
+ * A text recognition worker for one or more installed languages, e.g. ["eng", "hin"]
+ */
+export async function createRecognizer(codes: string[], logger?: (message: Tesseract.LoggerMessage) => void): Promise<OcrWorker> {
+    await checkInstalled(codes);
+    return Tesseract.createWorker(codes.join('+'), Tesseract.OEM.LSTM_ONLY, { ...WORKER_OPTIONS, logger });
+}
+
+/**
+ * A worker for orientation and script detection, which only the legacy engine can do
+ */
+export async function createDetector(): Promise<OcrWorker> {
+    await checkInstalled([OSD_PACK]);
+    return Tesseract.createWorker(OSD_PACK, Tesseract.OEM.TESSERACT_ONLY, { ...WORKER_OPTIONS, legacyCore: true, legacyLang: true });
+}
+
+export interface PageOrientation {
+    /** Clockwise rotation that makes the page upright */
+    rotation: 0 | 90 | 180 | 270;
+    script: string | null;
+}
+
+// Detection on sparse pages is often a guess; below these it is ignored. The orientation
+// threshold is OCRmyPDF's default for rotating pages.
+const MIN_ORIENTATION_CONFIDENCE = 14;
+const MIN_SCRIPT_CONFIDENCE = 1;
+
+export async function detectOrientation(detector: OcrWorker, image: Tesseract.ImageLike): Promise<PageOrientation> {
+    const { data } = await detector.detect(image);
+    const confidentOrientation = (data.orientation_confidence ?? 0) >= MIN_ORIENTATION_CONFIDENCE;
+    return {
+        // Tesseract reports how far the text is turned counterclockwise, which is the clockwise
+        // turn that undoes it
+        rotation: confidentOrientation ? ((data.orientation_degrees ?? 0) % 360) as PageOrientation['rotation'] : 0,
+        script: (data.script_confidence ?? 0) >= MIN_SCRIPT_CONFIDENCE ? data.script : null
+    };
+}
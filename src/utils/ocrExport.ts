@@ -0,0 +1,229 @@
+/**
+ * OCR Export
+ * Plain text, Markdown, hOCR 1.2, ALTO 4 XML and word-level JSON from OCR layouts
+ */
+
+import { pageLines, pageText, type BoundingBox, type OcrPage } from './ocrLayout';
+
+export interface OcrDocumentPage {
+    /** Source image file name, or "file.pdf — page 3" */
+    name: string;
+    ocr: OcrPage;
+    /** The page's text after hand edits; defaults to the recognized text */
+    text?: string;
+}
+
+export type OcrExportFormat = 'txt' | 'markdown' | 'hocr' | 'alto' | 'json';
+
+export const OCR_EXPORT_FORMATS: { id: OcrExportFormat; label: string; extension: string; mimeType: string }[] = [
+    { id: 'txt', label: 'Text', extension: 'txt', mimeType: 'text/plain' },
+    { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+    { id: 'hocr', label: 'hOCR', extension: 'hocr', mimeType: 'text/html' },
+    { id: 'alto', label: 'ALTO XML', extension: 'xml', mimeType: 'application/xml' },
+    { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' }
+];
+
+const textOf = (page: OcrDocumentPage) => page.text ?? pageText(page.ocr).text;
+
+/**
+ * All pages' text; several pages are separated by a marked line naming each page
+ */
+export function toPlainText(pages: OcrDocumentPage[]): string {
+    if (pages.length === 1) return textOf(pages[0]);
+    return pages.map((page, i) => `===== Page ${i + 1}: ${page.name} =====\n\n${textOf(page)}`).join('\n\n') + '\n';
+}
+
+// Characters that would otherwise turn OCR text into Markdown syntax
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>|#])/g, '\\$1');
+}
+
+// Paragraphs starting like a list item or quote would become one
+function escapeParagraphStart(paragraph: string): string {
+    return paragraph
+        .replace(/^([>+-])(\s)/, '\\$1$2')
+        .replace(/^(\d+)\.(\s)/, '$1\\.$2');
+}
+
+/**
+ * Markdown that pastes or converts (e.g. with pandoc) into a word processor cleanly: a heading
+ * per page, OCR line breaks joined so paragraphs reflow, and a rule between pages
+ */
+export function toMarkdown(pages: OcrDocumentPage[], title: string): string {
+    const sections = pages.map((page, i) => {
+        const paragraphs = textOf(page)
+            .split(/\n\s*\n/)
+            .map(paragraph => escapeParagraphStart(paragraph.split('\n').map(line => escapeMarkdown(line.trim())).filter(Boolean).join(' ')))
+            .filter(Boolean);
+        return [`## Page ${i + 1} — ${escapeMarkdown(page.name)}`, ...paragraphs].join('\n\n');
+    });
+    return `# ${escapeMarkdown(title)}\n\n${sections.join('\n\n---\n\n')}\n`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+const round = (value: number) => Math.round(value);
+
+function hocrBox({ x0, y0, x1, y1 }: BoundingBox): string {
+    return `bbox ${round(x0)} ${round(y0)} ${round(x1)} ${round(y1)}`;
+}
+
+/**
+ * hOCR with ocr_page / ocr_carea / ocr_par / ocr_line / ocrx_word, as Tesseract writes it.
+ * Line baselines are "slope offset" relative to the line box's bottom-left corner.
+ */
+export function toHocr(pages: OcrDocumentPage[], languages = 'eng'): string {
+    // Tesseract codes like "eng+deu" name several; the lang attribute takes one
+    const language = languages.split('+')[0];
+    const body: string[] = [];
+
+    pages.forEach(({ name, ocr }, p) => {
+        const page = p + 1;
+        body.push(`  <div class="ocr_page" id="page_${page}" title="image &quot;${escapeXml(name)}&quot;; bbox 0 0 ${ocr.width} ${ocr.height}; ppageno ${p}">`);
+
+        let block = 0, paragraph = 0, line = 0, word = 0;
+        for (const b of ocr.blocks) {
+            body.push(`   <div class="ocr_carea" id="block_${page}_${++block}" title="${hocrBox(b.bbox)}">`);
+            for (const par of b.paragraphs) {
+                body.push(`    <p class="ocr_par" id="par_${page}_${++paragraph}" lang="${language}" title="${hocrBox(par.bbox)}">`);
+                for (const l of par.lines) {
+                    const { baseline, bbox } = l;
+                    const slope = baseline.x1 !== baseline.x0 ? (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0) : 0;
+                    const offset = baseline.y0 + slope * (bbox.x0 - baseline.x0) - bbox.y1;
+                    const words = l.words.map(w =>
+                        `<span class="ocrx_word" id="word_${page}_${++word}" title="${hocrBox(w.bbox)}; x_wconf ${round(w.confidence)}">${escapeXml(w.text)}</span>`
+                    );
+                    body.push(`     <span class="ocr_line" id="line_${page}_${++line}" title="${hocrBox(bbox)}; baseline ${slope.toFixed(3)} ${round(offset)}">${words.join(' ')}</span>`);
+                }
+                body.push('    </p>');
+            }
+            body.push('   </div>');
+        }
+        body.push('  </div>');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+        `<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${language}" lang="${language}">`,
+        ' <head>',
+        `  <title>${escapeXml(pages[0]?.name ?? '')}</title>`,
+        '  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>',
+        '  <meta name="ocr-system" content="tesseract.js"/>',
+        '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word"/>',
+        ' </head>',
+        ' <body>',
+        ...body,
+        ' </body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+function altoBox({ x0, y0, x1, y1 }: BoundingBox): string {
+    return `HPOS="${round(x0)}" VPOS="${round(y0)}" WIDTH="${round(x1 - x0)}" HEIGHT="${round(y1 - y0)}"`;
+}
+
+/**
+ * ALTO 4 in pixel units: a ComposedBlock per block, a TextBlock per paragraph, String and SP
+ * elements per word with WC confidence from 0 to 1
+ */
+export function toAlto(pages: OcrDocumentPage[]): string {
+    const layout: string[] = [];
+
+    pages.forEach(({ ocr }, p) => {
+        layout.push(`    <Page ID="page_${p}" PHYSICAL_IMG_NR="${p + 1}" WIDTH="${ocr.width}" HEIGHT="${ocr.height}">`);
+        layout.push(`      <PrintSpace HPOS="0" VPOS="0" WIDTH="${ocr.width}" HEIGHT="${ocr.height}">`);
+
+        let block = 0, paragraph = 0, line = 0, word = 0;
+        for (const b of ocr.blocks) {
+            layout.push(`        <ComposedBlock ID="cblock_${p}_${block++}" ${altoBox(b.bbox)}>`);
+            for (const par of b.paragraphs) {
+                layout.push(`          <TextBlock ID="block_${p}_${paragraph++}" ${altoBox(par.bbox)}>`);
+                for (const l of par.lines) {
+                    layout.push(`            <TextLine ID="line_${p}_${line++}" ${altoBox(l.bbox)}>`);
+                    l.words.forEach((w, i) => {
+                        layout.push(`              <String ID="string_${p}_${word++}" ${altoBox(w.bbox)} WC="${(w.confidence / 100).toFixed(2)}" CONTENT="${escapeXml(w.text)}"/>`);
+                        const next = l.words[i + 1];
+                        if (next) {
+                            layout.push(`              <SP WIDTH="${round(Math.max(0, next.bbox.x0 - w.bbox.x1))}" VPOS="${round(w.bbox.y0)}" HPOS="${round(w.bbox.x1)}"/>`);
+                        }
+                    });
+                    layout.push('            </TextLine>');
+                }
+                layout.push('          </TextBlock>');
+            }
+            layout.push('        </ComposedBlock>');
+        }
+        layout.push('      </PrintSpace>');
+        layout.push('    </Page>');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+        '      xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">',
+        '  <Description>',
+        '    <MeasurementUnit>pixel</MeasurementUnit>',
+        '    <sourceImageInformation>',
+        // The schema allows one source file name; multi-page exports name the first
+        `      <fileName>${escapeXml(pages[0]?.name ?? '')}</fileName>`,
+        '    </sourceImageInformation>',
+        '    <OCRProcessing ID="OCR_0">',
+        '      <ocrProcessingStep>',
+        '        <processingSoftware>',
+        '          <softwareName>tesseract.js</softwareName>',
+        '        </processingSoftware>',
+        '      </ocrProcessingStep>',
+        '    </OCRProcessing>',
+        '  </Description>',
+        '  <Layout>',
+        ...layout,
+        '  </Layout>',
+        '</alto>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * One entry per page: its text, and a flat word list with pixel boxes, confidence and
+ * line/block indices
+ */
+export function toWordsJson(pages: OcrDocumentPage[]): string {
+    return JSON.stringify({
+        pages: pages.map((page, pageIndex) => {
+            const { name, ocr } = page;
+            const words: object[] = [];
+            let lineIndex = 0;
+            ocr.blocks.forEach((block, blockIndex) => block.paragraphs.forEach(paragraph => paragraph.lines.forEach(line => {
+                line.words.forEach(word => words.push({
+                    text: word.text,
+                    confidence: Math.round(word.confidence * 10) / 10,
+                    bbox: word.bbox,
+                    line: lineIndex,
+                    block: blockIndex
+                }));
+                lineIndex++;
+            })));
+            return { page: pageIndex + 1, name, width: ocr.width, height: ocr.height, text: textOf(page), lineCount: pageLines(ocr).length, words };
+        })
+    }, null, 2);
+}
+
+export function exportOcr(format: OcrExportFormat, pages: OcrDocumentPage[], title: string, language?: string): Blob {
+    const { mimeType } = OCR_EXPORT_FORMATS.find(f => f.id === format)!;
+    switch (format) {
+        case 'txt': return new Blob([toPlainText(pages)], { type: mimeType });
+        case 'markdown': return new Blob([toMarkdown(pages, title)], { type: mimeType });
+        case 'hocr': return new Blob([toHocr(pages, language)], { type: mimeType });
+        case 'alto': return new Blob([toAlto(pages)], { type: mimeType });
+        case 'json': return new Blob([toWordsJson(pages)], { type: mimeType });
+    }
+}
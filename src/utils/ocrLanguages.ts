@@ -0,0 +1,141 @@
+/**
+ * OCR Languages
+ * Tesseract language packs served from this site and kept in IndexedDB for offline use
+ */
+
+import languages from './ocrLanguages.json';
+import { abortable, throwIfAborted, type ProgressCallback } from './taskProgress';
+
+export interface OcrLanguage {
+    /** Tesseract code, e.g. "chi_sim" */
+    code: string;
+    name: string;
+    /** Script name as Tesseract's orientation and script detection reports it */
+    script: string;
+}
+
+// Also read by scripts/fetch-ocr-assets.js, which puts the packs on the server
+export const OCR_LANGUAGES: OcrLanguage[] = languages;
+
+/** Pack for script and orientation detection; it needs Tesseract's legacy engine */
+export const OSD_PACK = 'osd';
+
+// Japanese text is reported by kana when it has few kanji
+const SCRIPT_ALIASES: Record<string, string> = { Katakana: 'Japanese', Hiragana: 'Japanese' };
+
+/**
+ * Languages written in a detected script, in list order
+ */
+export function languagesForScript(script: string): OcrLanguage[] {
+    const name = SCRIPT_ALIASES[script] ?? script;
+    return OCR_LANGUAGES.filter(language => language.script === name);
+}
+
+export function languageName(code: string): string {
+    return code === OSD_PACK ? 'Script & orientation' : OCR_LANGUAGES.find(language => language.code === code)?.name ?? code;
+}
+
+/** Tesseract worker, wasm cores and language data, copied next to the app at build time */
+export const OCR_ASSETS_URL = `${import.meta.env.BASE_URL}ocr`;
+
+/** Where Tesseract.js would fetch a pack it doesn't find in its cache */
+export const PACK_URL = `${OCR_ASSETS_URL}/tessdata`;
+
+const packUrl = (code: string) => `${PACK_URL}/${code}.traineddata.gz`;
+
+export interface InstalledPack {
+    code: string;
+    /** Gzipped download size */
+    sizeBytes: number;
+    installedAt: number;
+}
+
+// Pack bytes live in the IndexedDB store Tesseract.js reads its language cache from (its
+// idb-keyval default), under our own key prefix; the list of installed packs lives in ours
+export const PACK_CACHE_PATH = 'imagekit_ocr';
+const TESSERACT_CACHE = { db: 'keyval-store', store: 'keyval' };
+const PACKS = { db: 'imagekit_ocr', store: 'languagePacks' };
+
+const cacheKey = (code: string) => `${PACK_CACHE_PATH}/${code}.traineddata`;
+
+function openDb(name: string, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, 1);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(target: 'packs' | 'cache', mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const { db: name, store: storeName } = target === 'packs' ? PACKS : TESSERACT_CACHE;
+    const db = await openDb(name, db => {
+        if (target === 'packs') db.createObjectStore(storeName, { keyPath: 'code' });
+        else db.createObjectStore(storeName);
+    });
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+export async function listInstalledPacks(): Promise<InstalledPack[]> {
+    return withStore<InstalledPack[]>('packs', 'readonly', store => store.getAll());
+}
+
+export async function isPackInstalled(code: string): Promise<boolean> {
+    return (await withStore<InstalledPack | undefined>('packs', 'readonly', store => store.get(code))) !== undefined;
+}
+
+export async function removePack(code: string): Promise<void> {
+    await withStore('packs', 'readwrite', store => store.delete(code));
+    await withStore('cache', 'readwrite', store => store.delete(cacheKey(code)));
+}
+
+/**
+ * Download size of a pack from this site's copy, or null when the server doesn't say
+ */
+export async function packDownloadSize(code: string): Promise<number | null> {
+    const response = await fetch(packUrl(code), { method: 'HEAD' });
+    const length = Number(response.headers.get('Content-Length'));
+    return response.ok && length > 0 ? length : null;
+}
+
+/**
+ * Download a pack from this site and store it; progress follows the bytes received
+ */
+export async function installPack(code: string, signal?: AbortSignal, onProgress?: ProgressCallback): Promise<void> {
+    const response = await abortable(fetch(packUrl(code), { signal }), signal);
+    if (!response.ok || !response.body) {
+        throw new Error(`Language pack "${code}" is not available on this server (${response.status})`);
+    }
+
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        throwIfAborted(signal);
+        chunks.push(value);
+        received += value.length;
+        if (total) onProgress?.({ fraction: Math.min(1, received / total), label: languageName(code) });
+    }
+
+    const data = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+        data.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    // Tesseract.js takes gzipped data from its cache as well and unpacks it on load
+    await withStore('cache', 'readwrite', store => store.put(data, cacheKey(code)));
+    await withStore('packs', 'readwrite', store => store.put({ code, sizeBytes: received, installedAt: Date.now() } satisfies InstalledPack));
+}
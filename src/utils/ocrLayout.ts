@@ -0,0 +1,214 @@
+/**
+ * OCR Layout
+ * Block → paragraph → line → word boxes from a Tesseract page, in image pixels
+ */
+
+import type Tesseract from 'tesseract.js';
+
+export interface BoundingBox {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+export interface OcrWord {
+    /** Position in reading order across the page */
+    id: number;
+    text: string;
+    bbox: BoundingBox;
+    /** Tesseract confidence, 0–100; 100 once corrected by hand */
+    confidence: number;
+}
+
+export interface OcrLine {
+    words: OcrWord[];
+    bbox: BoundingBox;
+    /** Baseline from (x0, y0) to (x1, y1); y grows downwards */
+    baseline: BoundingBox;
+    confidence: number;
+}
+
+export interface OcrParagraph {
+    lines: OcrLine[];
+    bbox: BoundingBox;
+    confidence: number;
+}
+
+export interface OcrBlock {
+    paragraphs: OcrParagraph[];
+    bbox: BoundingBox;
+    confidence: number;
+}
+
+export interface OcrPage {
+    width: number;
+    height: number;
+    blocks: OcrBlock[];
+}
+
+/** Words under this confidence are flagged for review */
+export const LOW_CONFIDENCE = 60;
+
+/**
+ * Copy Tesseract's layout tree, dropping empty words and anything left empty by that.
+ * Needs the recognize call to request the `blocks` output.
+ */
+export function pageFromTesseract(page: Tesseract.Page, width: number, height: number): OcrPage {
+    let nextId = 0;
+    const blocks: OcrBlock[] = [];
+
+    for (const block of page.blocks ?? []) {
+        const paragraphs: OcrParagraph[] = [];
+        for (const paragraph of block.paragraphs) {
+            const lines: OcrLine[] = [];
+            for (const line of paragraph.lines) {
+                const words = line.words
+                    .filter(word => word.text.trim())
+                    .map(word => ({ id: nextId++, text: word.text.trim(), bbox: { ...word.bbox }, confidence: word.confidence }));
+                if (words.length > 0) {
+                    lines.push({ words, bbox: { ...line.bbox }, baseline: { ...line.baseline }, confidence: line.confidence });
+                }
+            }
+            if (lines.length > 0) paragraphs.push({ lines, bbox: { ...paragraph.bbox }, confidence: paragraph.confidence });
+        }
+        if (paragraphs.length > 0) blocks.push({ paragraphs, bbox: { ...block.bbox }, confidence: block.confidence });
+    }
+
+    return { width, height, blocks };
+}
+
+export function pageLines(page: OcrPage): OcrLine[] {
+    return page.blocks.flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+}
+
+export function pageWords(page: OcrPage): OcrWord[] {
+    return pageLines(page).flatMap(line => line.words);
+}
+
+export interface PageText {
+    text: string;
+    /** [start, end) of each word in the text, indexed by word id */
+    ranges: [number, number][];
+}
+
+/**
+ * Plain text of a page: words joined by spaces, lines by newlines, paragraphs by a blank line
+ */
+export function pageText(page: OcrPage): PageText {
+    let text = '';
+    const ranges: [number, number][] = [];
+
+    page.blocks.forEach(block => block.paragraphs.forEach(paragraph => {
+        if (text) text += '\n\n';
+        paragraph.lines.forEach((line, lineIndex) => {
+            if (lineIndex > 0) text += '\n';
+            line.words.forEach((word, wordIndex) => {
+                if (wordIndex > 0) text += ' ';
+                ranges[word.id] = [text.length, text.length + word.text.length];
+                text += word.text;
+            });
+        });
+    }));
+
+    return { text, ranges };
+}
+
+/**
+ * Bounding box of a box once a width × height page is turned counterclockwise by degrees about
+ * its center, as deskewing does, clipped to the page; turning by -degrees maps it back
+ */
+export function deskewBox(box: BoundingBox, width: number, height: number, degrees: number): BoundingBox {
+    if (degrees === 0) return { ...box };
+    const radians = (-degrees * Math.PI) / 180;
+    const cos = Math.cos(radians), sin = Math.sin(radians);
+    const corners = [[box.x0, box.y0], [box.x1, box.y0], [box.x0, box.y1], [box.x1, box.y1]].map(([x, y]) => {
+        const dx = x - width / 2, dy = y - height / 2;
+        return [dx * cos - dy * sin + width / 2, dx * sin + dy * cos + height / 2];
+    });
+    const xs = corners.map(([x]) => x), ys = corners.map(([, y]) => y);
+    return {
+        x0: Math.max(0, Math.min(...xs)),
+        y0: Math.max(0, Math.min(...ys)),
+        x1: Math.min(width, Math.max(...xs)),
+        y1: Math.min(height, Math.max(...ys))
+    };
+}
+
+/**
+ * A box on a width × height page after the page is turned clockwise by a quarter-turn multiple
+ */
+export function rotateBox({ x0, y0, x1, y1 }: BoundingBox, width: number, height: number, degrees: 0 | 90 | 180 | 270): BoundingBox {
+    switch (degrees) {
+        case 90: return { x0: height - y1, y0: x0, x1: height - y0, y1: x1 };
+        case 180: return { x0: width - x1, y0: height - y1, x1: width - x0, y1: height - y0 };
+        case 270: return { x0: y0, y0: width - x1, x1: y1, y1: width - x0 };
+        default: return { x0, y0, x1, y1 };
+    }
+}
+
+/**
+ * Copy of the page with every box mapped to a resized image, e.g. back from an upscaled
+ * copy that was recognized in its place
+ */
+export function resizePage(page: OcrPage, width: number, height: number): OcrPage {
+    const sx = width / page.width;
+    const sy = height / page.height;
+    const scale = ({ x0, y0, x1, y1 }: BoundingBox): BoundingBox => ({ x0: x0 * sx, y0: y0 * sy, x1: x1 * sx, y1: y1 * sy });
+
+    return {
+        width,
+        height,
+        blocks: page.blocks.map(block => ({
+            ...block,
+            bbox: scale(block.bbox),
+            paragraphs: block.paragraphs.map(paragraph => ({
+                ...paragraph,
+                bbox: scale(paragraph.bbox),
+                lines: paragraph.lines.map(line => ({
+                    ...line,
+                    bbox: scale(line.bbox),
+                    baseline: scale(line.baseline),
+                    words: line.words.map(word => ({ ...word, bbox: scale(word.bbox) }))
+                }))
+            }))
+        }))
+    };
+}
+
+/**
+ * One page from several recognized regions of the same image, in the order given, with word
+ * ids renumbered so they stay unique
+ */
+export function mergePages(pages: OcrPage[], width: number, height: number): OcrPage {
+    let nextId = 0;
+    return {
+        width,
+        height,
+        blocks: pages.flatMap(page => page.blocks.map(block => ({
+            ...block,
+            paragraphs: block.paragraphs.map(paragraph => ({
+                ...paragraph,
+                lines: paragraph.lines.map(line => ({ ...line, words: line.words.map(word => ({ ...word, id: nextId++ })) }))
+            }))
+        })))
+    };
+}
+
+/**
+ * Copy of the page with one word's text replaced, marked as fully confident
+ */
+export function correctWord(page: OcrPage, id: number, text: string): OcrPage {
+    return {
+        ...page,
+        blocks: page.blocks.map(block => ({
+            ...block,
+            paragraphs: block.paragraphs.map(paragraph => ({
+                ...paragraph,
+                lines: paragraph.lines.map(line => line.words.some(word => word.id === id)
+                    ? { ...line, words: line.words.map(word => word.id === id ? { ...word, text, confidence: 100 } : word) }
+                    : line)
+            }))
+        }))
+    };
+}
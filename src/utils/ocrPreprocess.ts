@@ -0,0 +1,244 @@
+/**
+ * OCR Preprocessing
+ * Grayscale, contrast stretch, denoise, Otsu / Sauvola binarization and projection-profile
+ * skew estimation on 8-bit luminance planes
+ */
+
+import type { OcrPreprocessOptions } from '../workers/protocol';
+
+export type BinarizeMethod = OcrPreprocessOptions['binarize'];
+
+export const BINARIZE_METHODS: { id: BinarizeMethod; label: string; hint: string }[] = [
+    { id: 'none', label: 'Off', hint: 'Keep gray levels' },
+    { id: 'otsu', label: 'Otsu', hint: 'One threshold for the page; best for flat scans' },
+    { id: 'sauvola', label: 'Sauvola', hint: 'Local thresholds; handles shadows and uneven light in photos' }
+];
+
+export const UPSCALE_FACTORS = [1, 1.5, 2, 3];
+
+export const DEFAULT_OCR_PREPROCESS: OcrPreprocessOptions = {
+    grayscale: true,
+    contrast: true,
+    denoise: false,
+    binarize: 'sauvola',
+    deskew: true,
+    upscale: 1
+};
+
+/** Skew angles searched, in degrees either way */
+export const MAX_SKEW = 15;
+
+// Upscaled pages are capped here; Sauvola's integral images take 16 bytes per pixel
+const MAX_PREPROCESS_PIXELS = 16_000_000;
+
+/**
+ * The upscale factor actually applied: never past the pixel cap, never below 1
+ */
+export function effectiveUpscale(width: number, height: number, upscale: number): number {
+    return Math.max(1, Math.min(upscale, Math.sqrt(MAX_PREPROCESS_PIXELS / (width * height))));
+}
+
+/**
+ * True when the options change the image at all
+ */
+export function isPreprocessing(options: OcrPreprocessOptions): boolean {
+    return options.grayscale || options.contrast || options.denoise || options.binarize !== 'none' || options.deskew || options.upscale > 1;
+}
+
+/**
+ * Denoising and binarization work on luminance, so they imply grayscale output
+ */
+export function outputsGrayscale(options: OcrPreprocessOptions): boolean {
+    return options.grayscale || options.denoise || options.binarize !== 'none';
+}
+
+/**
+ * Rec. 601 luma of RGBA pixels
+ */
+export function luminance(pixels: Uint8ClampedArray): Uint8ClampedArray {
+    const gray = new Uint8ClampedArray(pixels.length / 4);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+    }
+    return gray;
+}
+
+function histogram(gray: Uint8ClampedArray): Uint32Array {
+    const counts = new Uint32Array(256);
+    for (let i = 0; i < gray.length; i++) counts[gray[i]]++;
+    return counts;
+}
+
+/**
+ * Luminance levels at the low and high percentiles; stretching them to 0 and 255 ignores
+ * a few specks of pure black or glare
+ */
+export function stretchLevels(gray: Uint8ClampedArray, clip = 0.01): [number, number] {
+    const counts = histogram(gray);
+    const cut = gray.length * clip;
+    let low = 0, high = 255;
+    for (let seen = 0; low < 255 && seen + counts[low] <= cut; low++) seen += counts[low];
+    for (let seen = 0; high > 0 && seen + counts[high] <= cut; high--) seen += counts[high];
+    return high > low ? [low, high] : [0, 255];
+}
+
+/**
+ * Lookup table mapping [low, high] linearly onto [0, 255]
+ */
+export function levelsTable(low: number, high: number): Uint8ClampedArray {
+    const table = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) table[i] = ((i - low) * 255) / (high - low);
+    return table;
+}
+
+/**
+ * 3×3 median filter; removes salt-and-pepper noise and JPEG speckle without blurring strokes
+ */
+export function medianFilter(gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+    const out = new Uint8ClampedArray(gray.length);
+    const window = new Uint8Array(9);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let n = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+                for (let dx = -1; dx <= 1; dx++) {
+                    window[n++] = gray[row + Math.min(width - 1, Math.max(0, x + dx))];
+                }
+            }
+            // Partial insertion sort: only the middle element is needed
+            for (let i = 1; i < 9; i++) {
+                const v = window[i];
+                let j = i - 1;
+                while (j >= 0 && window[j] > v) {
+                    window[j + 1] = window[j];
+                    j--;
+                }
+                window[j + 1] = v;
+            }
+            out[y * width + x] = window[4];
+        }
+    }
+    return out;
+}
+
+/**
+ * Otsu's global threshold: the level that maximizes the between-class variance
+ */
+export function otsuThreshold(gray: Uint8ClampedArray): number {
+    const counts = histogram(gray);
+    let total = 0;
+    for (let i = 0; i < 256; i++) total += i * counts[i];
+
+    let best = 0, bestVariance = -1;
+    let backgroundCount = 0, backgroundSum = 0;
+    for (let t = 0; t < 256; t++) {
+        backgroundCount += counts[t];
+        if (backgroundCount === 0) continue;
+        const foregroundCount = gray.length - backgroundCount;
+        if (foregroundCount === 0) break;
+
+        backgroundSum += t * counts[t];
+        const meanBackground = backgroundSum / backgroundCount;
+        const meanForeground = (total - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            best = t;
+        }
+    }
+    return best;
+}
+
+export function binarizeOtsu(gray: Uint8ClampedArray): Uint8ClampedArray {
+    const threshold = otsuThreshold(gray);
+    return gray.map(v => v > threshold ? 255 : 0);
+}
+
+/**
+ * Sauvola's local threshold T = m · (1 + k · (s / R − 1)) over a square window, with the
+ * window mean m and deviation s read from integral images
+ */
+export function binarizeSauvola(gray: Uint8ClampedArray, width: number, height: number, windowSize = 0, k = 0.34): Uint8ClampedArray {
+    // About a text line tall at typical scan resolutions
+    const half = Math.max(7, Math.floor((windowSize || Math.min(width, height) / 24) / 2));
+    const stride = width + 1;
+    const sums = new Float64Array(stride * (height + 1));
+    const squares = new Float64Array(stride * (height + 1));
+
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0, rowSquares = 0;
+        for (let x = 0; x < width; x++) {
+            const v = gray[y * width + x];
+            rowSum += v;
+            rowSquares += v * v;
+            const i = (y + 1) * stride + x + 1;
+            sums[i] = sums[i - stride] + rowSum;
+            squares[i] = squares[i - stride] + rowSquares;
+        }
+    }
+
+    const out = new Uint8ClampedArray(gray.length);
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+            const count = (x1 - x0) * (y1 - y0);
+            const a = y0 * stride + x0, b = y0 * stride + x1, c = y1 * stride + x0, d = y1 * stride + x1;
+            const mean = (sums[d] - sums[b] - sums[c] + sums[a]) / count;
+            const variance = (squares[d] - squares[b] - squares[c] + squares[a]) / count - mean * mean;
+            const threshold = mean * (1 + k * (Math.sqrt(Math.max(0, variance)) / 128 - 1));
+            out[y * width + x] = gray[y * width + x] > threshold ? 255 : 0;
+        }
+    }
+    return out;
+}
+
+/**
+ * Skew of the text lines in degrees, positive when lines fall to the right. Dark pixels are
+ * projected onto rows at each candidate angle; the angle where text lines line up gives the
+ * sharpest profile (largest sum of squared differences between neighbouring rows).
+ */
+export function estimateSkew(gray: Uint8ClampedArray, width: number, height: number, maxAngle = MAX_SKEW): number {
+    const threshold = otsuThreshold(gray);
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (gray[y * width + x] <= threshold) {
+                xs.push(x);
+                ys.push(y);
+            }
+        }
+    }
+    // A blank or solid page has no lines to align
+    if (xs.length === 0 || xs.length > width * height * 0.5) return 0;
+
+    // Rows shift by x · tan(angle); the fine search reaches half a degree past maxAngle
+    const margin = Math.ceil(width * Math.tan(((maxAngle + 0.5) * Math.PI) / 180));
+    const bins = new Float64Array(height + 2 * margin + 2);
+    const score = (degrees: number) => {
+        const tan = Math.tan((degrees * Math.PI) / 180);
+        bins.fill(0);
+        for (let i = 0; i < xs.length; i++) bins[Math.round(ys[i] - xs[i] * tan) + margin]++;
+        let sum = 0;
+        for (let i = 1; i < bins.length; i++) sum += (bins[i] - bins[i - 1]) ** 2;
+        return sum;
+    };
+
+    const search = (from: number, to: number, step: number) => {
+        let best = 0, bestScore = -1;
+        for (let angle = from; angle <= to + step / 2; angle += step) {
+            const s = score(angle);
+            if (s > bestScore) {
+                bestScore = s;
+                best = angle;
+            }
+        }
+        return best;
+    };
+
+    const coarse = search(-maxAngle, maxAngle, 0.5);
+    return Math.round(search(coarse - 0.5, coarse + 0.5, 0.05) * 100) / 100 || 0;
+}
@@ -0,0 +1,132 @@
+/**
+ * OCR Tables
+ * Rows and columns clustered from OCR word boxes, written as CSV or TSV
+ */
+
+import type { BoundingBox, OcrWord } from './ocrLayout';
+
+export type TableFormat = 'csv' | 'tsv';
+
+export const TABLE_FORMATS: { id: TableFormat; label: string; extension: string; mimeType: string }[] = [
+    { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+    { id: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' }
+];
+
+/** Row-major cell text; every row has one entry per column */
+export type Table = string[][];
+
+const centerX = ({ bbox }: OcrWord) => (bbox.x0 + bbox.x1) / 2;
+const centerY = ({ bbox }: OcrWord) => (bbox.y0 + bbox.y1) / 2;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Words whose center lies inside the region
+ */
+export function wordsInRegion(words: OcrWord[], region: BoundingBox): OcrWord[] {
+    return words.filter(word => {
+        const x = centerX(word), y = centerY(word);
+        return x >= region.x0 && x <= region.x1 && y >= region.y0 && y <= region.y1;
+    });
+}
+
+interface Cell {
+    x0: number;
+    x1: number;
+    text: string;
+}
+
+/**
+ * Cluster words into a grid: rows by vertical center, cells by horizontal gaps wider than a
+ * word space, and columns by the x ranges cells share across rows
+ */
+export function extractTable(words: OcrWord[]): Table {
+    if (words.length === 0) return [];
+    const lineHeight = median(words.map(word => word.bbox.y1 - word.bbox.y0));
+
+    // Rows: a word joins the row whose running center is within half a line of its own
+    const rows: { center: number; words: OcrWord[] }[] = [];
+    for (const word of [...words].sort((a, b) => centerY(a) - centerY(b))) {
+        const y = centerY(word);
+        const row = rows[rows.length - 1];
+        if (row && Math.abs(y - row.center) <= lineHeight / 2) {
+            row.words.push(word);
+            row.center += (y - row.center) / row.words.length;
+        } else {
+            rows.push({ center: y, words: [word] });
+        }
+    }
+
+    // Cells: word spaces are about a quarter of the line height; column gutters are wider
+    const rowCells: Cell[][] = rows.map(row => {
+        const cells: Cell[] = [];
+        for (const word of row.words.sort((a, b) => a.bbox.x0 - b.bbox.x0)) {
+            const cell = cells[cells.length - 1];
+            if (cell && word.bbox.x0 - cell.x1 < lineHeight * 0.75) {
+                cell.x1 = Math.max(cell.x1, word.bbox.x1);
+                cell.text += ` ${word.text}`;
+            } else {
+                cells.push({ x0: word.bbox.x0, x1: word.bbox.x1, text: word.text });
+            }
+        }
+        return cells;
+    });
+
+    // Columns: merged x ranges of cells; single-cell rows (titles, notes) would bridge every
+    // column, so they only count when no row has more than one cell
+    const multiCellRows = rowCells.filter(cells => cells.length > 1);
+    const spans = (multiCellRows.length > 0 ? multiCellRows : rowCells).flat().sort((a, b) => a.x0 - b.x0);
+    const columns: { x0: number; x1: number }[] = [];
+    for (const { x0, x1 } of spans) {
+        const column = columns[columns.length - 1];
+        if (column && x0 <= column.x1) column.x1 = Math.max(column.x1, x1);
+        else columns.push({ x0, x1 });
+    }
+
+    const columnOf = (cell: Cell) => {
+        let best = 0, bestScore = -Infinity;
+        columns.forEach((column, i) => {
+            const overlap = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+            // Cells outside every column go to the nearest one
+            const score = overlap > 0 ? overlap : overlap - 1e6;
+            if (score > bestScore) {
+                bestScore = score;
+                best = i;
+            }
+        });
+        return best;
+    };
+
+    return rowCells.map(cells => {
+        const row = columns.map(() => '');
+        for (const cell of cells) {
+            const i = columnOf(cell);
+            row[i] = row[i] ? `${row[i]} ${cell.text}` : cell.text;
+        }
+        return row;
+    });
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Tables one after another, separated by a blank line. CSV is RFC 4180; TSV has no quoting,
+ * so tabs and line breaks inside cells become spaces.
+ */
+export function formatTables(tables: Table[], format: TableFormat): string {
+    const formatRow = format === 'csv'
+        ? (row: string[]) => row.map(csvField).join(',')
+        : (row: string[]) => row.map(cell => cell.replace(/[\t\r\n]+/g, ' ')).join('\t');
+
+    return tables.map(table => table.map(formatRow).join('\r\n')).join('\r\n\r\n') + '\r\n';
+}
+
+export function exportTables(tables: Table[], format: TableFormat): Blob {
+    const { mimeType } = TABLE_FORMATS.find(f => f.id === format)!;
+    return new Blob([formatTables(tables, format)], { type: mimeType });
+}
@@ -0,0 +1,215 @@
+/**
+ * Palette Export
+ * Writes named swatches as design-tool palette files: Adobe ASE, GIMP GPL,
+ * Procreate swatches, Tailwind config, SCSS map and W3C design tokens
+ */
+
+import JSZip from 'jszip';
+
+export interface NamedSwatch {
+    name: string;
+    r: number;
+    g: number;
+    b: number;
+    hex: string;
+}
+
+export type PaletteFormat = 'ase' | 'gpl' | 'swatches' | 'tailwind' | 'scss' | 'tokens';
+
+export interface PaletteFormatInfo {
+    id: PaletteFormat;
+    label: string;
+    fileName: (slug: string) => string;
+}
+
+export const PALETTE_FORMATS: PaletteFormatInfo[] = [
+    { id: 'ase', label: 'Adobe (.ase)', fileName: slug => `${slug}.ase` },
+    { id: 'gpl', label: 'GIMP / Inkscape (.gpl)', fileName: slug => `${slug}.gpl` },
+    { id: 'swatches', label: 'Procreate (.swatches)', fileName: slug => `${slug}.swatches` },
+    { id: 'tailwind', label: 'Tailwind config', fileName: slug => `${slug}.tailwind.js` },
+    { id: 'scss', label: 'SCSS map', fileName: slug => `_${slug}.scss` },
+    { id: 'tokens', label: 'Design tokens (JSON)', fileName: slug => `${slug}.tokens.json` }
+];
+
+/**
+ * kebab-case identifier for code formats
+ */
+export function slugify(name: string, fallback = 'color'): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return slug || fallback;
+}
+
+/** Slugs per swatch, suffixed where two names collapse to the same identifier */
+export function swatchSlugs(swatches: NamedSwatch[]): string[] {
+    const seen = new Map<string, number>();
+    return swatches.map((swatch, i) => {
+        const base = slugify(swatch.name, `color-${i + 1}`);
+        const n = (seen.get(base) ?? 0) + 1;
+        seen.set(base, n);
+        return n === 1 ? base : `${base}-${n}`;
+    });
+}
+
+// ============================================================================
+// Binary / archive formats
+// ============================================================================
+
+/**
+ * Adobe Swatch Exchange: big-endian blocks inside one named group
+ */
+function buildAse(paletteName: string, swatches: NamedSwatch[]): Blob {
+    const nameBlock = (name: string) => {
+        // UTF-16BE, null-terminated, prefixed by its length in code units
+        const units = name.length + 1;
+        const bytes = new Uint8Array(2 + units * 2);
+        const view = new DataView(bytes.buffer);
+        view.setUint16(0, units);
+        for (let i = 0; i < name.length; i++) view.setUint16(2 + i * 2, name.charCodeAt(i));
+        return bytes;
+    };
+
+    const blocks: Uint8Array[] = [];
+    const pushBlock = (type: number, body: Uint8Array) => {
+        const header = new Uint8Array(6);
+        const view = new DataView(header.buffer);
+        view.setUint16(0, type);
+        view.setUint32(2, body.length);
+        blocks.push(header, body);
+    };
+
+    pushBlock(0xC001, nameBlock(paletteName));
+    for (const swatch of swatches) {
+        const name = nameBlock(swatch.name);
+        const body = new Uint8Array(name.length + 4 + 12 + 2);
+        body.set(name, 0);
+        const view = new DataView(body.buffer);
+        let offset = name.length;
+        for (const ch of 'RGB ') body[offset++] = ch.charCodeAt(0);
+        view.setFloat32(offset, swatch.r / 255);
+        view.setFloat32(offset + 4, swatch.g / 255);
+        view.setFloat32(offset + 8, swatch.b / 255);
+        // Color type 2 = normal (process) color
+        view.setUint16(offset + 12, 2);
+        pushBlock(0x0001, body);
+    }
+    pushBlock(0xC002, new Uint8Array(0));
+
+    const header = new Uint8Array(12);
+    const view = new DataView(header.buffer);
+    for (let i = 0; i < 4; i++) header[i] = 'ASEF'.charCodeAt(i);
+    view.setUint16(4, 1);
+    view.setUint16(6, 0);
+    view.setUint32(8, swatches.length + 2);
+
+    return new Blob([header, ...blocks.map(block => block.buffer as ArrayBuffer)], { type: 'application/octet-stream' });
+}
+
+function rgbToHsb(r: number, g: number, b: number): { hue: number; saturation: number; brightness: number } {
+    const rn = r / 255, gn = g / 255, bn = b / 255;
+    const max = Math.max(rn, gn, bn);
+    const delta = max - Math.min(rn, gn, bn);
+
+    let hue = 0;
+    if (delta > 0) {
+        if (max === rn) hue = ((gn - bn) / delta) % 6;
+        else if (max === gn) hue = (bn - rn) / delta + 2;
+        else hue = (rn - gn) / delta + 4;
+        hue = (hue * 60 + 360) % 360;
+    }
+
+    return { hue: hue / 360, saturation: max === 0 ? 0 : delta / max, brightness: max };
+}
+
+/**
+ * Procreate .swatches: a ZIP holding Swatches.json with HSB values in 0–1
+ */
+async function buildProcreate(paletteName: string, swatches: NamedSwatch[]): Promise<Blob> {
+    const zip = new JSZip();
+    const palette = [{
+        name: paletteName,
+        swatches: swatches.map(swatch => ({
+            ...rgbToHsb(swatch.r, swatch.g, swatch.b),
+            alpha: 1,
+            colorSpace: 0
+        }))
+    }];
+    zip.file('Swatches.json', JSON.stringify(palette));
+    return zip.generateAsync({ type: 'blob' });
+}
+
+// ============================================================================
+// Text formats
+// ============================================================================
+
+function buildGpl(paletteName: string, swatches: NamedSwatch[]): string {
+    const rows = swatches.map(swatch => {
+        const channels = [swatch.r, swatch.g, swatch.b].map(c => String(c).padStart(3, ' ')).join(' ');
+        return `${channels}\t${swatch.name}`;
+    });
+    return `GIMP Palette\nName: ${paletteName}\nColumns: ${Math.min(swatches.length, 8)}\n#\n${rows.join('\n')}\n`;
+}
+
+function buildTailwind(paletteName: string, swatches: NamedSwatch[]): string {
+    const slugs = swatchSlugs(swatches);
+    const entries = swatches.map((swatch, i) => `          '${slugs[i]}': '${swatch.hex}',`);
+    return `// ${paletteName} — merge into tailwind.config.js
+module.exports = {
+  theme: {
+    extend: {
+      colors: {
+        '${slugify(paletteName, 'palette')}': {
+${entries.join('\n')}
+        }
+      }
+    }
+  }
+}
+`;
+}
+
+function buildScss(paletteName: string, swatches: NamedSwatch[]): string {
+    const slugs = swatchSlugs(swatches);
+    const mapName = slugify(paletteName, 'palette');
+    const entries = swatches.map((swatch, i) => `  '${slugs[i]}': ${swatch.hex},`);
+    return `// ${paletteName}
+$${mapName}: (
+${entries.join('\n')}
+);
+
+@function ${mapName}($name) {
+  @return map-get($${mapName}, $name);
+}
+`;
+}
+
+/**
+ * W3C Design Tokens (DTCG) color group
+ */
+function buildTokens(paletteName: string, swatches: NamedSwatch[]): string {
+    const slugs = swatchSlugs(swatches);
+    const group: Record<string, unknown> = { $type: 'color', $description: paletteName };
+    swatches.forEach((swatch, i) => {
+        group[slugs[i]] = { $value: swatch.hex.toLowerCase(), $description: swatch.name };
+    });
+    return JSON.stringify({ [slugify(paletteName, 'palette')]: group }, null, 2);
+}
+
+/**
+ * Encode the palette in the chosen format
+ */
+export async function exportPalette(format: PaletteFormat, paletteName: string, swatches: NamedSwatch[]): Promise<Blob> {
+    switch (format) {
+        case 'ase':
+            return buildAse(paletteName, swatches);
+        case 'swatches':
+            return buildProcreate(paletteName, swatches);
+        case 'gpl':
+            return new Blob([buildGpl(paletteName, swatches)], { type: 'text/plain' });
+        case 'tailwind':
+            return new Blob([buildTailwind(paletteName, swatches)], { type: 'text/javascript' });
+        case 'scss':
+            return new Blob([buildScss(paletteName, swatches)], { type: 'text/x-scss' });
+        case 'tokens':
+            return new Blob([buildTokens(paletteName, swatches)], { type: 'application/json' });
+    }
+}
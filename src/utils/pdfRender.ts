@@ -0,0 +1,75 @@
+/**
+ * PDF Rendering
+ * pdf.js with its worker bundled by Vite, so PDFs open and render without the network
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { abortable, throwIfAborted, type ProgressCallback } from './taskProgress';
+
+/** PDF user space units per inch; a render scale of 1 is 72 DPI */
+export const PDF_POINTS_PER_INCH = 72;
+
+export function isPdfFile(file: File): boolean {
+    return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// pdf.js is large, so it is loaded on first use and pointed at the bundled worker once
+function loadPdfjs(): Promise<typeof import('pdfjs-dist')> {
+    pdfjsPromise ??= import('pdfjs-dist').then(pdfjsLib => {
+        pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
+        return pdfjsLib;
+    });
+    return pdfjsPromise;
+}
+
+/**
+ * Open a PDF for rendering; call destroy() on the document when done
+ */
+export async function openPdf(data: Blob | ArrayBuffer, signal?: AbortSignal): Promise<PDFDocumentProxy> {
+    const pdfjsLib = await loadPdfjs();
+    const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+    const task = pdfjsLib.getDocument({ data: bytes });
+    return abortable(task.promise, signal, () => task.destroy());
+}
+
+export interface RenderedPdfPage {
+    /** 1-based, as PDF viewers number pages */
+    pageNumber: number;
+    image: Blob;
+    width: number;
+    height: number;
+}
+
+/**
+ * Render every page to a PNG at a scale of the page size (2 = 144 DPI), checking for
+ * cancellation between pages
+ */
+export async function renderPdfPages(data: Blob | ArrayBuffer, scale: number, signal?: AbortSignal, onProgress?: ProgressCallback): Promise<RenderedPdfPage[]> {
+    const pdf = await openPdf(data, signal);
+    const canvas = document.createElement('canvas');
+    const rendered: RenderedPdfPage[] = [];
+
+    try {
+        for (let i = 1; i <= pdf.numPages; i++) {
+            throwIfAborted(signal);
+            const page = await pdf.getPage(i);
+            const viewport = page.getViewport({ scale });
+
+            canvas.width = viewport.width;
+            canvas.height = viewport.height;
+            await page.render({ canvas, viewport }).promise;
+
+            const image = await new Promise<Blob>((resolve, reject) => {
+                canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to render page')), 'image/png');
+            });
+            rendered.push({ pageNumber: i, image, width: canvas.width, height: canvas.height });
+            onProgress?.({ fraction: i / pdf.numPages, label: `Page ${i} of ${pdf.numPages}` });
+        }
+    } finally {
+        pdf.destroy();
+    }
+    return rendered;
+}
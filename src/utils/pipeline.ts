@@ -0,0 +1,148 @@
+/**
+ * Pipeline Utilities
+ * Chains the crop, resize, watermark and compress operations into reusable recipes
+ */
+
+import {
+    addTextWatermark,
+    compressImage,
+    cropImage,
+    getCenteredCropArea,
+    getExtension,
+    loadImage,
+    resizeImage,
+    type CropArea,
+    type WatermarkOptions
+} from './imageProcessing';
+
+export type OutputFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface CropStep {
+    type: 'crop';
+    aspectRatio: number | null;
+    area: CropArea;
+}
+
+export interface ResizeStep {
+    type: 'resize';
+    width: number;
+    height: number;
+    fit: 'cover' | 'contain';
+}
+
+export interface WatermarkStep extends WatermarkOptions {
+    type: 'watermark';
+}
+
+export interface CompressStep {
+    type: 'compress';
+    quality: number;
+    format: OutputFormat;
+}
+
+export type PipelineStep = CropStep | ResizeStep | WatermarkStep | CompressStep;
+
+export type PipelineStepType = PipelineStep['type'];
+
+export interface PipelineRecipe {
+    id: string;
+    name: string;
+    steps: PipelineStep[];
+}
+
+export interface PipelineResult {
+    blob: Blob;
+    filename: string;
+}
+
+export const STEP_META: Record<PipelineStepType, { icon: string; label: string }> = {
+    crop: { icon: '✂️', label: 'Crop' },
+    resize: { icon: '📐', label: 'Resize' },
+    watermark: { icon: '©', label: 'Watermark' },
+    compress: { icon: '📦', label: 'Compress' }
+};
+
+/**
+ * Default configuration for a newly added step
+ */
+export function createStep(type: PipelineStepType): PipelineStep {
+    switch (type) {
+        case 'crop':
+            return { type, aspectRatio: 1, area: { x: 0, y: 0, width: 100, height: 100 } };
+        case 'resize':
+            return { type, width: 1080, height: 1080, fit: 'cover' };
+        case 'watermark':
+            return { type, text: '© Your Name', position: 'bottom-right', size: 24, opacity: 70, color: '#ffffff' };
+        case 'compress':
+            return { type, quality: 80, format: 'image/jpeg' };
+    }
+}
+
+/**
+ * One-line summary of a step for recipe listings
+ */
+export function describeStep(step: PipelineStep): string {
+    switch (step.type) {
+        case 'crop':
+            return step.aspectRatio
+                ? `Center crop ${formatRatio(step.aspectRatio)}`
+                : `Crop ${Math.round(step.area.width)}×${Math.round(step.area.height)}%`;
+        case 'resize':
+            return `${step.width}×${step.height} (${step.fit})`;
+        case 'watermark':
+            return `"${step.text}" ${step.position}`;
+        case 'compress':
+            return `${getExtension(step.format).toUpperCase()} @ ${step.quality}%`;
+    }
+}
+
+function formatRatio(ratio: number): string {
+    for (let h = 1; h <= 16; h++) {
+        const w = ratio * h;
+        if (Math.abs(w - Math.round(w)) < 0.01) return `${Math.round(w)}:${h}`;
+    }
+    return ratio.toFixed(2);
+}
+
+/**
+ * Run a single step against the current intermediate image
+ */
+async function applyStep(input: Blob, step: PipelineStep): Promise<Blob> {
+    switch (step.type) {
+        case 'crop': {
+            if (!step.aspectRatio) return cropImage(input, step.area);
+            const img = await loadImage(input);
+            return cropImage(input, getCenteredCropArea(img.width, img.height, step.aspectRatio));
+        }
+        case 'resize':
+            return resizeImage(input, step.width, step.height, step.fit);
+        case 'watermark':
+            return addTextWatermark(input, step);
+        case 'compress':
+            return compressImage(input, step.quality, step.format);
+    }
+}
+
+/**
+ * Run every step of a recipe in order on one image
+ */
+export async function runPipeline(
+    file: File,
+    recipe: PipelineRecipe,
+    onStep?: (index: number) => void
+): Promise<PipelineResult> {
+    let current: Blob = file;
+
+    for (let i = 0; i < recipe.steps.length; i++) {
+        onStep?.(i);
+        current = await applyStep(current, recipe.steps[i]);
+    }
+
+    const baseName = file.name.replace(/\.[^/.]+$/, '');
+    const suffix = recipe.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'processed';
+
+    return {
+        blob: current,
+        filename: `${baseName}_${suffix}.${getExtension(current.type)}`
+    };
+}
@@ -0,0 +1,194 @@
+/**
+ * Searchable PDF
+ * Scanned pages with an invisible text layer placed on the OCR word boxes, built with pdf-lib
+ */
+
+import {
+    beginText,
+    endText,
+    PDFDocument,
+    PDFHexString,
+    PDFString,
+    popGraphicsState,
+    pushGraphicsState,
+    setCharacterSqueeze,
+    setFontAndSize,
+    setTextMatrix,
+    setTextRenderingMode,
+    showText,
+    TextRenderingMode,
+    type PDFImage,
+    type PDFName,
+    type PDFOperator,
+    type PDFRef
+} from 'pdf-lib';
+import { pageLines, type OcrLine, type OcrPage } from './ocrLayout';
+
+export interface SearchablePage {
+    image: Blob;
+    ocr: OcrPage;
+    /** Overrides the document resolution, e.g. for pages rendered from a PDF at a known scale */
+    dpi?: number;
+}
+
+export interface SearchablePdfOptions {
+    /** Resolution the page size is derived from; scans rarely say, so 300 like Tesseract */
+    dpi?: number;
+    title?: string;
+}
+
+// Every glyph of the text-layer font advances half an em (in 1/1000 em units)
+const GLYPH_WIDTH = 500;
+
+/**
+ * Tesseract's "glyphless font" approach: a Type0 font whose character codes are UTF-16 code
+ * units mapped 1:1 to Unicode, so any script can be searched and copied, with no glyphs
+ * embedded because the text is never painted
+ */
+function registerGlyphlessFont(pdf: PDFDocument): PDFRef {
+    const { context } = pdf;
+    const toUnicode = context.flateStream([
+        '/CIDInit /ProcSet findresource begin',
+        '12 dict begin',
+        'begincmap',
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+        '/CMapName /Adobe-Identity-UCS def',
+        '/CMapType 2 def',
+        '1 begincodespacerange',
+        '<0000> <FFFF>',
+        'endcodespacerange',
+        '1 beginbfrange',
+        '<0000> <FFFF> <0000>',
+        'endbfrange',
+        'endcmap',
+        'CMapName currentdict /CMap defineresource pop',
+        'end',
+        'end'
+    ].join('\n'));
+
+    const descriptor = context.obj({
+        Type: 'FontDescriptor',
+        FontName: 'GlyphLessFont',
+        Flags: 5,
+        FontBBox: [0, 0, GLYPH_WIDTH, 1000],
+        ItalicAngle: 0,
+        Ascent: 1000,
+        Descent: 0,
+        CapHeight: 1000,
+        StemV: 80
+    });
+
+    const cidFont = context.obj({
+        Type: 'Font',
+        Subtype: 'CIDFontType2',
+        BaseFont: 'GlyphLessFont',
+        CIDSystemInfo: { Registry: PDFString.of('Adobe'), Ordering: PDFString.of('Identity'), Supplement: 0 },
+        FontDescriptor: context.register(descriptor),
+        DW: GLYPH_WIDTH,
+        CIDToGIDMap: 'Identity'
+    });
+
+    return context.register(context.obj({
+        Type: 'Font',
+        Subtype: 'Type0',
+        BaseFont: 'GlyphLessFont',
+        Encoding: 'Identity-H',
+        DescendantFonts: [context.register(cidFont)],
+        ToUnicode: context.register(toUnicode)
+    }));
+}
+
+function utf16Hex(text: string): PDFHexString {
+    let hex = '';
+    for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+    return PDFHexString.of(hex);
+}
+
+/**
+ * Text operators for one line: each word sits on the baseline, stretched horizontally to its
+ * box. Words carry their trailing space, stretched up to the next word, so copied text keeps
+ * its spacing.
+ */
+function lineOperators(line: OcrLine, fontName: PDFName, scale: number, pageHeight: number): PDFOperator[] {
+    const { baseline, bbox } = line;
+    const slope = baseline.x1 !== baseline.x0 ? (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0) : 0;
+    const angle = -Math.atan(slope);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const fontSize = Math.max(1, (bbox.y1 - bbox.y0) * scale);
+    const operators: PDFOperator[] = [setFontAndSize(fontName, fontSize)];
+
+    line.words.forEach((word, i) => {
+        const next = line.words[i + 1];
+        const text = next ? `${word.text} ` : word.text;
+        const right = next ? next.bbox.x0 : word.bbox.x1;
+        const width = Math.max(1, (right - word.bbox.x0) * scale);
+        const naturalWidth = text.length * (GLYPH_WIDTH / 1000) * fontSize;
+
+        // Baseline under the word's left edge, flipped into PDF's bottom-up coordinates
+        const baselineY = baseline.y0 + slope * (word.bbox.x0 - baseline.x0);
+        const x = word.bbox.x0 * scale;
+        const y = pageHeight - baselineY * scale;
+
+        operators.push(
+            setTextMatrix(cos, sin, -sin, cos, x, y),
+            setCharacterSqueeze((width / naturalWidth) * 100),
+            showText(utf16Hex(text))
+        );
+    });
+    return operators;
+}
+
+async function embedImage(pdf: PDFDocument, image: Blob): Promise<PDFImage> {
+    if (image.type === 'image/jpeg') return pdf.embedJpg(await image.arrayBuffer());
+    if (image.type === 'image/png') return pdf.embedPng(await image.arrayBuffer());
+
+    // pdf-lib only takes JPEG and PNG
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const png = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), 'image/png');
+    });
+    return pdf.embedPng(await png.arrayBuffer());
+}
+
+/**
+ * One page per image, the image filling the page and the OCR text invisible on top of it
+ */
+export async function buildSearchablePdf(pages: SearchablePage[], options: SearchablePdfOptions = {}): Promise<Blob> {
+    const pdf = await PDFDocument.create();
+    if (options.title) pdf.setTitle(options.title);
+    pdf.setCreator('ImageKit Pro OCR');
+
+    const fontRef = registerGlyphlessFont(pdf);
+
+    for (const { image, ocr, dpi } of pages) {
+        const scale = 72 / (dpi ?? options.dpi ?? 300);
+        const embedded = await embedImage(pdf, image);
+        const width = ocr.width * scale;
+        const height = ocr.height * scale;
+        const page = pdf.addPage([width, height]);
+
+        page.drawImage(embedded, { x: 0, y: 0, width, height });
+
+        const fontName = page.node.newFontDictionary('GlyphLess', fontRef);
+        page.pushOperators(
+            pushGraphicsState(),
+            beginText(),
+            setTextRenderingMode(TextRenderingMode.Invisible),
+            ...pageLines(ocr).flatMap(line => lineOperators(line, fontName, scale, height)),
+            endText(),
+            popGraphicsState()
+        );
+    }
+
+    const bytes = await pdf.save();
+    return new Blob([bytes.buffer as ArrayBuffer], { type: 'application/pdf' });
+}
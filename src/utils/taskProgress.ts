@@ -0,0 +1,88 @@
+/**
+ * Task Progress
+ * Shared progress model and AbortSignal helpers for long-running operations
+ */
+
+/**
+ * Progress of a running task; fraction goes from 0 to 1
+ */
+export interface TaskProgress {
+    fraction: number;
+    label?: string;
+}
+
+export type ProgressCallback = (progress: TaskProgress) => void;
+
+/**
+ * A cancellable unit of work: stops when the signal aborts and reports progress as it goes
+ */
+export type CancellableTask<T> = (signal: AbortSignal, onProgress: ProgressCallback) => Promise<T>;
+
+/**
+ * The error every cancelled task rejects with
+ */
+export function createAbortError(): DOMException {
+    return new DOMException('Operation cancelled', 'AbortError');
+}
+
+/**
+ * True when an error came from a cancelled task rather than a failure
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Throw the abort error if the signal has fired; call between steps of a loop
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * Reject as soon as the signal aborts. For work that cannot be interrupted
+ * the late result is discarded; onAbort can release whatever it holds.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal, onAbort?: () => void): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) {
+        onAbort?.();
+        return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+        const handleAbort = () => {
+            onAbort?.();
+            reject(createAbortError());
+        };
+        signal.addEventListener('abort', handleAbort, { once: true });
+
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', handleAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', handleAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Map a step's own progress into its slice of an overall task (step index of count)
+ */
+export function stepProgress(onProgress: ProgressCallback, step: number, count: number, label?: string): ProgressCallback {
+    return (progress) => onProgress({
+        fraction: (step + Math.min(1, progress.fraction)) / count,
+        label: label ?? progress.label
+    });
+}
+
+/**
+ * Whole-number percentage for display
+ */
+export function toPercent(progress: TaskProgress | null): number {
+    return progress ? Math.round(Math.min(1, Math.max(0, progress.fraction)) * 100) : 0;
+}
@@ -0,0 +1,27 @@
+/**
+ * Tool Handoff Utilities
+ * Lets one tool pass its current output into the next tool as a ready-loaded input
+ */
+
+export interface ToolOutput {
+    blob: Blob;
+    filename: string;
+}
+
+/**
+ * Props shared by every tool that can receive or publish a handoff
+ */
+export interface HandoffProps {
+    initialFile?: File | null;
+    onOutput?: (output: ToolOutput | null) => void;
+}
+
+/**
+ * Wrap a published output as a File so target tools can treat it like an upload
+ */
+export function outputToFile(output: ToolOutput): File {
+    return new File([output.blob], output.filename, {
+        type: output.blob.type,
+        lastModified: Date.now()
+    });
+}
@@ -1,3 +1,5 @@
+import type { ToolOutput } from './toolHandoff'
+
 export interface ToolSuggestion {
     id: string
     icon: string
@@ -10,15 +12,15 @@ const TOOL_META: Record<string, { icon: string; title: string; description: stri
     'resizer': { icon: '📱', title: 'Social Media Resizer', description: 'Resize for Instagram, YouTube, LinkedIn & more.' },
     'background-remover': { icon: '🎭', title: 'Background Remover', description: 'AI-powered background removal.' },
     'exif-cleaner': { icon: '🔐', title: 'EXIF Privacy Cleaner', description: 'Remove GPS, camera info & metadata.' },
-    'color-palette': { icon: '🎨', title: 'Color Palette Extractor', description: 'Extract colors with HEX/RGB & CSS gradients.' },
+    'color-palette': { icon: '🎨', title: 'Color Palette Extractor', description: 'Extract palettes, export swatches & check WCAG contrast.' },
     'instagram-grid': { icon: '📸', title: 'Instagram Grid Splitter', description: 'Split into grids for carousel.' },
     'favicon': { icon: '🖼️', title: 'Favicon Generator', description: 'All sizes + manifest.json + HTML snippet.' },
-    'ocr': { icon: '📝', title: 'OCR Text Extractor', description: 'Extract text from images.' },
+    'ocr': { icon: '📝', title: 'OCR Text Extractor', description: 'Extract text or make searchable PDFs.' },
     'device-mockup': { icon: '📱', title: 'Device Mockup Generator', description: 'iPhone, MacBook, iPad frames.' },
-    'color-blindness': { icon: '👁️', title: 'Color Blindness Simulator', description: 'See how designs appear to color blind users.' },
+    'color-blindness': { icon: '👁️', title: 'Color Blindness Simulator', description: 'See and correct how designs appear to color blind users.' },
     'ascii-art': { icon: '🖌️', title: 'ASCII Art Generator', description: 'Convert images to ASCII text art.' },
     'image-comparison': { icon: '↔️', title: 'Image Comparison Slider', description: 'Before/after comparison with slider.' },
-    'duplicate-finder': { icon: '🔍', title: 'Duplicate Finder', description: 'Find similar images using perceptual hashing.' },
+    'duplicate-finder': { icon: '🔍', title: 'Duplicate Finder', description: 'Find similar images with pHash, dHash or exact SHA-256.' },
     'image-to-pdf': { icon: '📄', title: 'Image to PDF', description: 'Convert multiple images into a single PDF.' },
     'pdf-to-image': { icon: '📑', title: 'PDF to Image', description: 'Convert PDF pages to PNG images.' },
     'cropper': { icon: '✂️', title: 'Image Cropper', description: 'Crop with preset aspect ratios.' },
@@ -26,10 +28,16 @@ const TOOL_META: Record<string, { icon: string; title: string; description: stri
     'watermark': { icon: '©', title: 'Watermark Adder', description: 'Add text watermarks with custom position & style.' },
     'watermark-remover': { icon: '🧹', title: 'Watermark Remover', description: 'Remove watermarks using inpaint, blur, or pixelate.' },
     'thumbnail': { icon: '🎬', title: 'Thumbnail Maker', description: 'Create thumbnails with images, text & emojis.' },
+    'pipeline': { icon: '⛓️', title: 'Pipeline Builder', description: 'Chain crop, resize, watermark & compress.' },
+}
+
+// Input types each tool accepts for a handoff (tools not listed take images)
+const TOOL_INPUT_TYPES: Record<string, string> = {
+    'pdf-to-image': 'application/pdf',
 }
 
 const SUGGESTIONS_MAP: Record<string, string[]> = {
-    'compressor': ['resizer', 'background-remover', 'cropper'],
+    'compressor': ['pipeline', 'resizer', 'background-remover'],
     'resizer': ['compressor', 'instagram-grid', 'device-mockup'],
     'background-remover': ['compressor', 'device-mockup', 'thumbnail'],
     'exif-cleaner': ['compressor', 'watermark-remover', 'duplicate-finder'],
@@ -49,6 +57,7 @@ const SUGGESTIONS_MAP: Record<string, string[]> = {
     'watermark': ['watermark-remover', 'compressor', 'thumbnail'],
     'watermark-remover': ['watermark', 'exif-cleaner', 'background-remover'],
     'thumbnail': ['background-remover', 'device-mockup', 'resizer'],
+    'pipeline': ['compressor', 'cropper', 'watermark'],
 }
 
 export function getToolSuggestions(currentTool: string): ToolSuggestion[] {
@@ -61,3 +70,8 @@ export function getToolSuggestions(currentTool: string): ToolSuggestion[] {
 export function getToolMeta(toolId: string) {
     return TOOL_META[toolId] || null
 }
+
+export function canReceiveOutput(toolId: string, output: ToolOutput): boolean {
+    const accepted = TOOL_INPUT_TYPES[toolId] || 'image/'
+    return output.blob.type.startsWith(accepted)
+}
@@ -0,0 +1,149 @@
+/**
+ * Web App Manifest
+ * Builds manifest.json, browserconfig.xml and the <head> snippet for a favicon package.
+ * Everything is derived from the file names actually written, so the snippet never
+ * links to an icon that isn't in the download.
+ */
+
+export type DisplayMode = 'standalone' | 'fullscreen' | 'minimal-ui' | 'browser';
+
+export const DISPLAY_MODES: DisplayMode[] = ['standalone', 'fullscreen', 'minimal-ui', 'browser'];
+
+export interface ManifestConfig {
+    name: string;
+    shortName: string;
+    themeColor: string;
+    backgroundColor: string;
+    display: DisplayMode;
+    startUrl: string;
+}
+
+export const DEFAULT_MANIFEST_CONFIG: ManifestConfig = {
+    name: 'Your App Name',
+    shortName: 'App',
+    themeColor: '#ffffff',
+    backgroundColor: '#ffffff',
+    display: 'standalone',
+    startUrl: '/'
+};
+
+export interface TileSize {
+    name: string;
+    width: number;
+    height: number;
+}
+
+/** Windows Start screen tiles referenced from browserconfig.xml */
+export const MS_TILES: TileSize[] = [
+    { name: 'mstile-70x70.png', width: 70, height: 70 },
+    { name: 'mstile-150x150.png', width: 150, height: 150 },
+    { name: 'mstile-310x150.png', width: 310, height: 150 },
+    { name: 'mstile-310x310.png', width: 310, height: 310 }
+];
+
+export const MASKABLE_SIZES = [192, 512];
+
+export function maskableIconName(size: number): string {
+    return `maskable-icon-${size}x${size}.png`;
+}
+
+interface ManifestIcon {
+    src: string;
+    sizes: string;
+    type: string;
+    purpose?: 'any' | 'maskable';
+}
+
+const ANDROID_ICON = /^android-chrome-(\d+)x\1\.png$/;
+const MASKABLE_ICON = /^maskable-icon-(\d+)x\1\.png$/;
+const FAVICON_PNG = /^favicon-(\d+)x\1\.png$/;
+
+function escapeAttr(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * manifest.json listing the Android icons as "any" and the padded variants as "maskable"
+ */
+export function buildManifest(config: ManifestConfig, fileNames: string[]): string {
+    const icons: ManifestIcon[] = [];
+    for (const name of fileNames) {
+        const android = name.match(ANDROID_ICON);
+        const maskable = name.match(MASKABLE_ICON);
+        if (android) {
+            icons.push({ src: `/${name}`, sizes: `${android[1]}x${android[1]}`, type: 'image/png', purpose: 'any' });
+        } else if (maskable) {
+            icons.push({ src: `/${name}`, sizes: `${maskable[1]}x${maskable[1]}`, type: 'image/png', purpose: 'maskable' });
+        }
+    }
+    if (fileNames.includes('favicon.svg')) {
+        icons.push({ src: '/favicon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' });
+    }
+
+    const manifest = {
+        name: config.name,
+        short_name: config.shortName,
+        start_url: config.startUrl,
+        display: config.display,
+        theme_color: config.themeColor,
+        background_color: config.backgroundColor,
+        icons
+    };
+    return JSON.stringify(manifest, null, 2);
+}
+
+/**
+ * browserconfig.xml for the tiles present in the package
+ */
+export function buildBrowserConfig(tileColor: string, fileNames: string[]): string {
+    const tiles = MS_TILES.filter(tile => fileNames.includes(tile.name)).map(tile => {
+        const element = tile.width === tile.height
+            ? `square${tile.width}x${tile.height}logo`
+            : `wide${tile.width}x${tile.height}logo`;
+        return `      <${element} src="/${tile.name}"/>`;
+    });
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<browserconfig>
+  <msapplication>
+    <tile>
+${tiles.join('\n')}
+      <TileColor>${tileColor}</TileColor>
+    </tile>
+  </msapplication>
+</browserconfig>
+`;
+}
+
+/**
+ * <head> tags for exactly the files in the package
+ */
+export function buildHtmlSnippet(config: ManifestConfig, fileNames: string[]): string {
+    const lines = ['<!-- Favicons -->'];
+
+    if (fileNames.includes('favicon.ico')) {
+        // A concrete size keeps Chrome from preferring the .ico over the SVG
+        lines.push('<link rel="icon" href="/favicon.ico" sizes="32x32">');
+    }
+    if (fileNames.includes('favicon.svg')) {
+        lines.push('<link rel="icon" type="image/svg+xml" href="/favicon.svg">');
+    }
+    for (const name of fileNames) {
+        const png = name.match(FAVICON_PNG);
+        if (png) lines.push(`<link rel="icon" type="image/png" sizes="${png[1]}x${png[1]}" href="/${name}">`);
+    }
+    if (fileNames.includes('apple-touch-icon.png')) {
+        lines.push('<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">');
+    }
+    if (fileNames.includes('manifest.json')) {
+        lines.push('<link rel="manifest" href="/manifest.json">');
+    }
+    if (fileNames.includes('browserconfig.xml')) {
+        lines.push('<meta name="msapplication-config" content="/browserconfig.xml">');
+        lines.push(`<meta name="msapplication-TileColor" content="${escapeAttr(config.themeColor)}">`);
+    }
+    lines.push(`<meta name="application-name" content="${escapeAttr(config.name)}">`);
+    lines.push(`<meta name="theme-color" content="${escapeAttr(config.themeColor)}">`);
+
+    return lines.join('\n');
+}
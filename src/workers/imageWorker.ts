@@ -0,0 +1,295 @@
+/**
+ * Image Processing Worker
+ * Runs pixel loops off the main thread on OffscreenCanvas
+ */
+
+import { dHash, DHASH_SIZE, pHash, PHASH_SIZE } from '../utils/imageHash';
+import {
+    binarizeOtsu,
+    binarizeSauvola,
+    effectiveUpscale,
+    estimateSkew,
+    levelsTable,
+    luminance,
+    medianFilter,
+    outputsGrayscale,
+    stretchLevels
+} from '../utils/ocrPreprocess';
+import type {
+    ColorVisionJob,
+    InpaintJob,
+    OcrPreprocessJob,
+    OcrPreprocessResult,
+    PerceptualHashJob,
+    SharpnessJob,
+    WorkerJob,
+    WorkerJobResults,
+    WorkerRequest,
+    WorkerResponse
+} from './protocol';
+
+// Rows processed between progress reports and cancellation checks
+const ROWS_PER_CHUNK = 64;
+
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+class CancelledError extends Error { }
+
+function post(message: WorkerResponse) {
+    self.postMessage(message);
+}
+
+// Yield to the event loop so cancel messages can arrive mid-job
+async function checkpoint(id: number, progress: number) {
+    post({ id, kind: 'progress', progress });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (cancelled.has(id)) throw new CancelledError();
+}
+
+function readPixels(bitmap: ImageBitmap, width = bitmap.width, height = bitmap.height) {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    // Hashes shrink whole photos to a few pixels; area-averaged resampling keeps them stable
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return { canvas, ctx, imageData: ctx.getImageData(0, 0, width, height) }
+}
+
+// sRGB byte → linear, and linear (quantized to ENCODE_STEPS) → sRGB byte
+const ENCODE_STEPS = 16383;
+let decodeTable: Float32Array | null = null;
+let encodeTable: Uint8ClampedArray | null = null;
+
+function gammaTables() {
+    if (!decodeTable || !encodeTable) {
+        decodeTable = new Float32Array(256);
+        for (let i = 0; i < 256; i++) {
+            const c = i / 255;
+            decodeTable[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        }
+        encodeTable = new Uint8ClampedArray(ENCODE_STEPS + 1);
+        for (let i = 0; i <= ENCODE_STEPS; i++) {
+            const v = i / ENCODE_STEPS;
+            encodeTable[i] = Math.round((v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+        }
+    }
+    return { decode: decodeTable, encode: encodeTable };
+}
+
+function encodeLinear(table: Uint8ClampedArray, value: number): number {
+    return table[Math.round(Math.min(1, Math.max(0, value)) * ENCODE_STEPS)];
+}
+
+async function runColorVision(id: number, job: ColorVisionJob): Promise<Blob> {
+    const { canvas, ctx, imageData } = readPixels(job.bitmap);
+    const { data, width, height } = imageData;
+    const { decode, encode } = gammaTables();
+    const [first, second] = job.transform.matrices;
+    const [n0, n1, n2] = job.transform.separation;
+
+    for (let row = 0; row < height; row += ROWS_PER_CHUNK) {
+        const end = Math.min(height, row + ROWS_PER_CHUNK) * width * 4;
+        for (let i = row * width * 4; i < end; i += 4) {
+            const r = decode[data[i]];
+            const g = decode[data[i + 1]];
+            const b = decode[data[i + 2]];
+            const m = n0 * r + n1 * g + n2 * b >= 0 ? first : second;
+
+            data[i] = encodeLinear(encode, m[0] * r + m[1] * g + m[2] * b);
+            data[i + 1] = encodeLinear(encode, m[3] * r + m[4] * g + m[5] * b);
+            data[i + 2] = encodeLinear(encode, m[6] * r + m[7] * g + m[8] * b);
+        }
+        await checkpoint(id, Math.min(1, (row + ROWS_PER_CHUNK) / height));
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' });
+}
+
+async function runInpaint(id: number, job: InpaintJob): Promise<Blob> {
+    const { canvas, ctx, imageData } = readPixels(job.bitmap);
+    const { data, width, height } = imageData;
+    const { radius } = job;
+    const sx = Math.round(job.area.x);
+    const sy = Math.round(job.area.y);
+    const sw = Math.round(job.area.width);
+    const sh = Math.round(job.area.height);
+
+    // Sample a ring of pixels just outside the selection
+    let r = 0, g = 0, b = 0, count = 0;
+    for (let i = 0; i < radius * 4; i++) {
+        const angle = (i / (radius * 4)) * Math.PI * 2;
+        const sampleX = Math.round(sx + sw / 2 + (sw / 2 + radius) * Math.cos(angle));
+        const sampleY = Math.round(sy + sh / 2 + (sh / 2 + radius) * Math.sin(angle));
+
+        if (sampleX >= 0 && sampleX < width && sampleY >= 0 && sampleY < height) {
+            if (sampleX < sx || sampleX >= sx + sw || sampleY < sy || sampleY >= sy + sh) {
+                const idx = (sampleY * width + sampleX) * 4;
+                r += data[idx];
+                g += data[idx + 1];
+                b += data[idx + 2];
+                count++;
+            }
+        }
+    }
+
+    if (count > 0) {
+        for (let py = sy; py < sy + sh; py++) {
+            for (let px = sx; px < sx + sw; px++) {
+                const idx = (py * width + px) * 4;
+                // Add some noise for natural look
+                const noise = (Math.random() - 0.5) * 10;
+                data[idx] = Math.min(255, Math.max(0, r / count + noise));
+                data[idx + 1] = Math.min(255, Math.max(0, g / count + noise));
+                data[idx + 2] = Math.min(255, Math.max(0, b / count + noise));
+            }
+            if ((py - sy) % ROWS_PER_CHUNK === ROWS_PER_CHUNK - 1) await checkpoint(id, (py - sy + 1) / sh);
+        }
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.convertToBlob({ type: 'image/png' });
+}
+
+function toGrayscale(pixels: Uint8ClampedArray): Float64Array {
+    const gray = new Float64Array(pixels.length / 4);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+    }
+    return gray;
+}
+
+function runPerceptualHash(job: PerceptualHashJob): Uint8Array {
+    const { width, height } = job.method === 'dhash' ? DHASH_SIZE : { width: PHASH_SIZE, height: PHASH_SIZE };
+    const gray = toGrayscale(readPixels(job.bitmap, width, height).imageData.data);
+    return job.method === 'dhash' ? dHash(gray) : pHash(gray);
+}
+
+function runSharpness(job: SharpnessJob): number {
+    // Compare images at a common scale so resolution alone doesn't win
+    const scale = Math.min(1, job.maxSide / Math.max(job.bitmap.width, job.bitmap.height));
+    const width = Math.max(3, Math.round(job.bitmap.width * scale));
+    const height = Math.max(3, Math.round(job.bitmap.height * scale));
+    const gray = toGrayscale(readPixels(job.bitmap, width, height).imageData.data);
+
+    let sum = 0, sumSquares = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+            sum += laplacian;
+            sumSquares += laplacian * laplacian;
+        }
+    }
+    const count = (width - 2) * (height - 2);
+    return sumSquares / count - (sum / count) ** 2;
+}
+
+// Skew is measured on a copy this size; text lines survive and the angle search stays fast
+const SKEW_SAMPLE_SIDE = 1200;
+
+// Draw rotated by -degrees about the center at the given size; uncovered corners become paper-white
+function drawRotated(bitmap: ImageBitmap, width: number, height: number, degrees: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate((-degrees * Math.PI) / 180);
+    ctx.drawImage(bitmap, -width / 2, -height / 2, width, height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    return { canvas, ctx };
+}
+
+async function runOcrPreprocess(id: number, job: OcrPreprocessJob): Promise<OcrPreprocessResult> {
+    const { bitmap, options } = job;
+    const scale = effectiveUpscale(bitmap.width, bitmap.height, options.upscale);
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    let angle = 0;
+    let aligned: Blob | null = null;
+    if (options.deskew) {
+        const sample = Math.min(1, SKEW_SAMPLE_SIDE / Math.max(bitmap.width, bitmap.height));
+        const sampleWidth = Math.max(1, Math.round(bitmap.width * sample));
+        const sampleHeight = Math.max(1, Math.round(bitmap.height * sample));
+        const { ctx } = drawRotated(bitmap, sampleWidth, sampleHeight, 0);
+        angle = estimateSkew(luminance(ctx.getImageData(0, 0, sampleWidth, sampleHeight).data), sampleWidth, sampleHeight);
+        await checkpoint(id, 0.2);
+
+        // Below a tenth of a degree, resampling costs more sharpness than it gains
+        if (Math.abs(angle) < 0.1) angle = 0;
+        else aligned = await drawRotated(bitmap, bitmap.width, bitmap.height, angle).canvas.convertToBlob({ type: 'image/png' });
+    }
+
+    // Upscale and deskew in one resampling pass
+    const { canvas, ctx } = drawRotated(bitmap, width, height, angle);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    await checkpoint(id, 0.35);
+
+    if (outputsGrayscale(options)) {
+        let gray = luminance(data);
+        if (options.contrast) {
+            const table = levelsTable(...stretchLevels(gray));
+            gray = gray.map(v => table[v]);
+        }
+        await checkpoint(id, 0.5);
+        if (options.denoise) gray = medianFilter(gray, width, height);
+        await checkpoint(id, 0.7);
+        if (options.binarize === 'otsu') gray = binarizeOtsu(gray);
+        else if (options.binarize === 'sauvola') gray = binarizeSauvola(gray, width, height);
+
+        for (let i = 0; i < gray.length; i++) {
+            data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray[i];
+        }
+    } else if (options.contrast) {
+        // The same levels on every channel, so colors don't shift
+        const table = levelsTable(...stretchLevels(luminance(data)));
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = table[data[i]];
+            data[i + 1] = table[data[i + 1]];
+            data[i + 2] = table[data[i + 2]];
+        }
+    }
+    await checkpoint(id, 0.9);
+
+    ctx.putImageData(imageData, 0, 0);
+    return { image: await canvas.convertToBlob({ type: 'image/png' }), aligned, angle, scale };
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const request = e.data;
+
+    if (request.kind === 'cancel') {
+        // Ignore cancels that arrive after the job already finished
+        if (running.has(request.id)) cancelled.add(request.id);
+        return;
+    }
+
+    const { id, job } = request;
+    running.add(id);
+    try {
+        let result: WorkerJobResults[WorkerJob['type']];
+        switch (job.type) {
+            case 'colorVision': result = await runColorVision(id, job); break;
+            case 'inpaint': result = await runInpaint(id, job); break;
+            case 'perceptualHash': result = runPerceptualHash(job); break;
+            case 'sharpness': result = runSharpness(job); break;
+            case 'ocrPreprocess': result = await runOcrPreprocess(id, job); break;
+        }
+        post({ id, kind: 'result', result });
+    } catch (error) {
+        if (error instanceof CancelledError) post({ id, kind: 'cancelled' });
+        else post({ id, kind: 'error', message: error instanceof Error ? error.message : 'Worker job failed' });
+    } finally {
+        running.delete(id);
+        cancelled.delete(id);
+    }
+};
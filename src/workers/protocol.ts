@@ -0,0 +1,104 @@
+/**
+ * Image Worker Protocol
+ * Message types shared by the processing worker and its main-thread client
+ */
+
+export interface PixelArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Piecewise-linear map on linear RGB: pixels with separation · rgb >= 0 use the
+ * first row-major 3×3 matrix, the rest use the second
+ */
+export interface LinearRgbTransform {
+    matrices: [number[], number[]];
+    separation: number[];
+}
+
+export interface ColorVisionJob {
+    type: 'colorVision';
+    bitmap: ImageBitmap;
+    transform: LinearRgbTransform;
+}
+
+export interface InpaintJob {
+    type: 'inpaint';
+    bitmap: ImageBitmap;
+    area: PixelArea;
+    radius: number;
+}
+
+export interface PerceptualHashJob {
+    type: 'perceptualHash';
+    bitmap: ImageBitmap;
+    method: 'dhash' | 'phash';
+}
+
+/**
+ * Variance of the Laplacian on the image scaled to fit maxSide; higher is sharper
+ */
+export interface SharpnessJob {
+    type: 'sharpness';
+    bitmap: ImageBitmap;
+    maxSide: number;
+}
+
+export interface OcrPreprocessOptions {
+    grayscale: boolean;
+    /** Stretch the 1st–99th luminance percentiles to full range */
+    contrast: boolean;
+    /** 3×3 median filter */
+    denoise: boolean;
+    binarize: 'none' | 'otsu' | 'sauvola';
+    deskew: boolean;
+    /** Resampling factor for low-resolution text; 1 keeps the size */
+    upscale: number;
+}
+
+/**
+ * Clean up a page for Tesseract: upscale, deskew, then the luminance steps in the
+ * order contrast → denoise → binarize
+ */
+export interface OcrPreprocessJob {
+    type: 'ocrPreprocess';
+    bitmap: ImageBitmap;
+    options: OcrPreprocessOptions;
+}
+
+export interface OcrPreprocessResult {
+    /** What Tesseract should read, at the upscaled size */
+    image: Blob;
+    /** The original image rotated by the same deskew at its own size, or null if not rotated */
+    aligned: Blob | null;
+    /** Skew that was corrected, in degrees */
+    angle: number;
+    scale: number;
+}
+
+export type WorkerJob = ColorVisionJob | InpaintJob | PerceptualHashJob | SharpnessJob | OcrPreprocessJob;
+
+/**
+ * Result type produced by each job type
+ */
+export interface WorkerJobResults {
+    colorVision: Blob;
+    inpaint: Blob;
+    /** Bit-packed 64-bit fingerprint */
+    perceptualHash: Uint8Array;
+    sharpness: number;
+    ocrPreprocess: OcrPreprocessResult;
+}
+
+export type WorkerRequest =
+    | { id: number; kind: 'run'; job: WorkerJob }
+    | { id: number; kind: 'cancel' };
+
+export type WorkerResponse =
+    | { id: number; kind: 'progress'; progress: number }
+    | { id: number; kind: 'result'; result: WorkerJobResults[WorkerJob['type']] }
+    | { id: number; kind: 'error'; message: string }
+    | { id: number; kind: 'cancelled' };